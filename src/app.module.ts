@@ -1,36 +1,32 @@
 import { Module } from "@nestjs/common";
 import { ConfigModule } from "@nestjs/config";
 import { TypeOrmModule } from "@nestjs/typeorm";
+import { ScheduleModule } from "@nestjs/schedule";
 import { AuthModule } from "./auth/auth.module";
 import { UsersModule } from "./users/users.module";
 import { DocumentsModule } from "./documents/documents.module";
 import { IngestionModule } from "./ingestion/ingestion.module";
 import { ProcessingModule } from "./processing/processing.module";
-import { Users } from "./users/entities/user.entity";
-import { Document } from "./documents/entities/document.entity";
-import { IngestionJob } from "./ingestion/entities/ingestion-job.entity";
+import { TagsModule } from "./tags/tags.module";
+import { FoldersModule } from "./folders/folders.module";
+import { UploadsModule } from "./uploads/uploads.module";
+import { BulkModule } from "./bulk/bulk.module";
+import { databaseConfig } from "./database.config";
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
-    TypeOrmModule.forRoot({
-      type: 'postgres',
-      host: process.env.DB_HOST,
-      port: +process.env.DB_PORT,
-      username: process.env.DB_USER,
-      // password: process.env.DB_PASS,
-      database: process.env.DB_NAME,
-      entities: [Users, Document, IngestionJob],
-      synchronize: true,
-      // ssl: {
-      //   rejectUnauthorized: false
-      // }
-    }),
+    ScheduleModule.forRoot(),
+    TypeOrmModule.forRoot(databaseConfig),
     AuthModule,
     UsersModule,
     DocumentsModule,
     IngestionModule,
     ProcessingModule,
+    TagsModule,
+    FoldersModule,
+    UploadsModule,
+    BulkModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
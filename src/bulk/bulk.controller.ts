@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  Post,
+  Request,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { BulkService } from './bulk.service';
+import { BulkOperationDto } from './dto/bulk-operation.dto';
+import { BulkOperationResponseDto } from './dto/bulk-operation-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../common/constants';
+
+@ApiTags('Documents')
+@Controller('documents')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class BulkController {
+  constructor(private readonly bulkService: BulkService) {}
+
+  @Post('bulk')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Apply an action to many documents',
+    description:
+      'Selects documents by ID or by search filter and applies the action to each with the same permission checks as the single-document endpoints. Documents that fail are reported individually and do not stop the others.',
+  })
+  @ApiBody({ type: BulkOperationDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Per-document results',
+    type: BulkOperationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Neither or both of ids and filter given, missing action fields, or too many matches',
+  })
+  async execute(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    bulkOperationDto: BulkOperationDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.bulkService.execute(bulkOperationDto, userId, userRoles);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { BulkService } from './bulk.service';
+import { BulkController } from './bulk.controller';
+import { DocumentsModule } from '../documents/documents.module';
+import { IngestionModule } from '../ingestion/ingestion.module';
+
+@Module({
+  imports: [DocumentsModule, IngestionModule],
+  controllers: [BulkController],
+  providers: [BulkService],
+})
+export class BulkModule {}
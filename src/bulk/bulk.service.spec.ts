@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { BulkService } from './bulk.service';
+import { BulkAction, MAX_BULK_DOCUMENTS } from './dto/bulk-operation.dto';
+import { DocumentsService } from '../documents/documents.service';
+import { IngestionService } from '../ingestion/ingestion.service';
+import { IngestionType } from '../ingestion/entities/ingestion-job.entity';
+import { UserRole } from '../common/constants';
+
+describe('BulkService', () => {
+  let service: BulkService;
+
+  const mockDocumentsService = {
+    findOne: jest.fn(),
+    findMatchingIds: jest.fn(),
+    remove: jest.fn(),
+    addTags: jest.fn(),
+  };
+
+  const mockIngestionService = {
+    triggerIngestion: jest.fn(),
+  };
+
+  const roles = [UserRole.EDITOR];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BulkService,
+        { provide: DocumentsService, useValue: mockDocumentsService },
+        { provide: IngestionService, useValue: mockIngestionService },
+      ],
+    }).compile();
+
+    service = module.get<BulkService>(BulkService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should report per-document failures without stopping the batch', async () => {
+    mockDocumentsService.remove.mockImplementation(async (id) => {
+      if (id === 2) {
+        throw new ForbiddenException('You cannot delete this document');
+      }
+    });
+
+    const result = await service.execute(
+      { action: BulkAction.DELETE, ids: [1, 2, 3] },
+      1,
+      roles,
+    );
+
+    expect(mockDocumentsService.remove).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({
+      action: BulkAction.DELETE,
+      total: 3,
+      succeeded: 2,
+      failed: 1,
+      results: [
+        { id: 1, success: true },
+        {
+          id: 2,
+          success: false,
+          status: 403,
+          error: 'You cannot delete this document',
+        },
+        { id: 3, success: true },
+      ],
+    });
+  });
+
+  it('should select documents by search filter', async () => {
+    mockDocumentsService.findMatchingIds.mockResolvedValue([4, 5]);
+
+    const result = await service.execute(
+      {
+        action: BulkAction.ADD_TAGS,
+        filter: { search: 'invoice' },
+        tags: ['q1'],
+      },
+      1,
+      roles,
+    );
+
+    expect(mockDocumentsService.findMatchingIds).toHaveBeenCalledWith(
+      1,
+      roles,
+      { search: 'invoice' },
+      MAX_BULK_DOCUMENTS,
+    );
+    expect(mockDocumentsService.addTags).toHaveBeenCalledWith(
+      4,
+      ['q1'],
+      1,
+      roles,
+    );
+    expect(result.succeeded).toBe(2);
+  });
+
+  it('should reject a filter matching too many documents', async () => {
+    mockDocumentsService.findMatchingIds.mockResolvedValue(
+      Array.from({ length: MAX_BULK_DOCUMENTS + 1 }, (_, index) => index + 1),
+    );
+
+    await expect(
+      service.execute({ action: BulkAction.DELETE, filter: {} }, 1, roles),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockDocumentsService.remove).not.toHaveBeenCalled();
+  });
+
+  it('should require exactly one of ids and filter', async () => {
+    await expect(
+      service.execute({ action: BulkAction.DELETE }, 1, roles),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.execute(
+        { action: BulkAction.DELETE, ids: [1], filter: {} },
+        1,
+        roles,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should queue one ingestion job for the accessible documents', async () => {
+    mockDocumentsService.findOne.mockImplementation(async (id) => {
+      if (id === 2) {
+        throw new NotFoundException('Document not found');
+      }
+      return { id };
+    });
+    mockIngestionService.triggerIngestion.mockResolvedValue({ id: 12 });
+
+    const result = await service.execute(
+      {
+        action: BulkAction.INGEST,
+        ids: [1, 2, 3],
+        ingestionType: IngestionType.OCR,
+      },
+      1,
+      roles,
+    );
+
+    expect(mockIngestionService.triggerIngestion).toHaveBeenCalledTimes(1);
+    expect(
+      mockIngestionService.triggerIngestion.mock.calls[0][0],
+    ).toMatchObject({ type: IngestionType.OCR, documentIds: [1, 3] });
+    expect(result.results).toEqual([
+      { id: 1, success: true, jobId: 12 },
+      { id: 2, success: false, status: 404, error: 'Document not found' },
+      { id: 3, success: true, jobId: 12 },
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { DocumentsService } from '../documents/documents.service';
+import { IngestionService } from '../ingestion/ingestion.service';
+import {
+  BulkAction,
+  BulkOperationDto,
+  MAX_BULK_DOCUMENTS,
+} from './dto/bulk-operation.dto';
+
+export interface BulkItemResult {
+  id: number;
+  success: boolean;
+  status?: number;
+  error?: string;
+  jobId?: number;
+}
+
+@Injectable()
+export class BulkService {
+  private readonly logger = new Logger(BulkService.name);
+
+  constructor(
+    private documentsService: DocumentsService,
+    private ingestionService: IngestionService,
+  ) {}
+
+  /**
+   * Apply one action to many documents. Each document goes through the same
+   * service call and permission checks as its single-document endpoint, and a
+   * failure on one document does not stop the others.
+   */
+  async execute(
+    bulkOperationDto: BulkOperationDto,
+    userId: number,
+    userRoles: string[],
+  ) {
+    const ids = await this.resolveIds(bulkOperationDto, userId, userRoles);
+
+    const results =
+      bulkOperationDto.action === BulkAction.INGEST
+        ? await this.ingest(ids, bulkOperationDto, userId, userRoles)
+        : await this.applyEach(ids, bulkOperationDto, userId, userRoles);
+
+    const succeeded = results.filter((result) => result.success).length;
+    return {
+      action: bulkOperationDto.action,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  private async resolveIds(
+    bulkOperationDto: BulkOperationDto,
+    userId: number,
+    userRoles: string[],
+  ): Promise<number[]> {
+    const { ids, filter } = bulkOperationDto;
+
+    if (!ids === !filter) {
+      throw new BadRequestException('Provide either ids or filter');
+    }
+
+    if (ids) {
+      return [...new Set(ids)];
+    }
+
+    const matchingIds = await this.documentsService.findMatchingIds(
+      userId,
+      userRoles,
+      filter,
+      MAX_BULK_DOCUMENTS,
+    );
+    if (matchingIds.length > MAX_BULK_DOCUMENTS) {
+      throw new BadRequestException(
+        `The filter matches more than ${MAX_BULK_DOCUMENTS} documents; narrow it down`,
+      );
+    }
+
+    return matchingIds;
+  }
+
+  private async applyEach(
+    ids: number[],
+    bulkOperationDto: BulkOperationDto,
+    userId: number,
+    userRoles: string[],
+  ): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+
+    // One at a time, so a large batch does not exhaust the connection pool
+    for (const id of ids) {
+      try {
+        await this.applyOne(id, bulkOperationDto, userId, userRoles);
+        results.push({ id, success: true });
+      } catch (error) {
+        results.push(this.toFailure(id, error));
+      }
+    }
+
+    return results;
+  }
+
+  private async applyOne(
+    id: number,
+    bulkOperationDto: BulkOperationDto,
+    userId: number,
+    userRoles: string[],
+  ): Promise<void> {
+    switch (bulkOperationDto.action) {
+      case BulkAction.DELETE:
+        await this.documentsService.remove(id, userId, userRoles);
+        break;
+      case BulkAction.TRANSITION:
+        await this.documentsService.transitionDocument(
+          id,
+          bulkOperationDto.transition,
+          userId,
+          userRoles,
+          bulkOperationDto.comment,
+        );
+        break;
+      case BulkAction.ADD_TAGS:
+        await this.documentsService.addTags(
+          id,
+          bulkOperationDto.tags,
+          userId,
+          userRoles,
+        );
+        break;
+      case BulkAction.REMOVE_TAGS:
+        await this.documentsService.removeTags(
+          id,
+          bulkOperationDto.tags,
+          userId,
+          userRoles,
+        );
+        break;
+      case BulkAction.MOVE:
+        await this.documentsService.moveDocument(
+          id,
+          bulkOperationDto.folderId ?? null,
+          userId,
+          userRoles,
+        );
+        break;
+      case BulkAction.REASSIGN_OWNER:
+        await this.documentsService.reassignOwner(
+          id,
+          bulkOperationDto.ownerId,
+          userId,
+          userRoles,
+        );
+        break;
+    }
+  }
+
+  /**
+   * Queue a single ingestion job for every document the user can access
+   */
+  private async ingest(
+    ids: number[],
+    bulkOperationDto: BulkOperationDto,
+    userId: number,
+    userRoles: string[],
+  ): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+    const accessibleIds: number[] = [];
+
+    for (const id of ids) {
+      try {
+        await this.documentsService.findOne(id, userId, userRoles);
+        accessibleIds.push(id);
+      } catch (error) {
+        results.push(this.toFailure(id, error));
+      }
+    }
+
+    if (accessibleIds.length > 0) {
+      try {
+        const job = await this.ingestionService.triggerIngestion(
+          {
+            name: `Bulk ${bulkOperationDto.ingestionType} for ${accessibleIds.length} documents`,
+            type: bulkOperationDto.ingestionType,
+            documentIds: accessibleIds,
+            parameters: bulkOperationDto.parameters,
+          },
+          userId,
+          userRoles,
+        );
+        results.push(
+          ...accessibleIds.map((id) => ({ id, success: true, jobId: job.id })),
+        );
+      } catch (error) {
+        results.push(...accessibleIds.map((id) => this.toFailure(id, error)));
+      }
+    }
+
+    // Keep results in request order
+    return results.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+  }
+
+  private toFailure(id: number, error: unknown): BulkItemResult {
+    if (error instanceof HttpException) {
+      return {
+        id,
+        success: false,
+        status: error.getStatus(),
+        error: error.message,
+      };
+    }
+
+    // Unexpected errors are logged but still only fail their own document
+    this.logger.error(`Bulk operation failed for document ${id}:`, error);
+    return {
+      id,
+      success: false,
+      status: 500,
+      error: 'Internal server error',
+    };
+  }
+}
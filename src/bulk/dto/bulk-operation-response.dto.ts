@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { BulkAction } from './bulk-operation.dto';
+
+export class BulkItemResultDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: true })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'HTTP status the operation would have returned on its own',
+    example: 403,
+    required: false,
+  })
+  status?: number;
+
+  @ApiProperty({
+    example: 'You cannot edit this document',
+    required: false,
+  })
+  error?: string;
+
+  @ApiProperty({
+    description: 'Ingestion job processing the document, for the ingest action',
+    example: 12,
+    required: false,
+  })
+  jobId?: number;
+}
+
+export class BulkOperationResponseDto {
+  @ApiProperty({ enum: BulkAction, example: BulkAction.ADD_TAGS })
+  action: BulkAction;
+
+  @ApiProperty({ description: 'Number of documents selected', example: 3 })
+  total: number;
+
+  @ApiProperty({ example: 2 })
+  succeeded: number;
+
+  @ApiProperty({ example: 1 })
+  failed: number;
+
+  @ApiProperty({ type: [BulkItemResultDto] })
+  results: BulkItemResultDto[];
+}
@@ -0,0 +1,141 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { SearchDocumentsDto } from '../../documents/dto/search-documents.dto';
+import { DocumentAction } from '../../documents/entities/document-transition.entity';
+import { IngestionType } from '../../ingestion/entities/ingestion-job.entity';
+
+// Most documents a single bulk request may touch
+export const MAX_BULK_DOCUMENTS = 500;
+
+export enum BulkAction {
+  DELETE = 'delete',
+  TRANSITION = 'transition',
+  ADD_TAGS = 'add_tags',
+  REMOVE_TAGS = 'remove_tags',
+  MOVE = 'move',
+  REASSIGN_OWNER = 'reassign_owner',
+  INGEST = 'ingest',
+}
+
+export class BulkOperationDto {
+  @ApiProperty({
+    description: 'Operation applied to every selected document',
+    enum: BulkAction,
+    example: BulkAction.ADD_TAGS,
+  })
+  @IsEnum(BulkAction)
+  action: BulkAction;
+
+  @ApiProperty({
+    description: 'Documents to operate on. Provide either ids or filter',
+    example: [1, 2, 3],
+    type: [Number],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BULK_DOCUMENTS)
+  @IsNumber({}, { each: true })
+  ids?: number[];
+
+  @ApiProperty({
+    description:
+      'Search filters selecting the documents to operate on, as accepted by GET /documents. Paging and sorting are ignored',
+    type: SearchDocumentsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SearchDocumentsDto)
+  filter?: SearchDocumentsDto;
+
+  @ApiProperty({
+    description: 'Workflow action, required for the transition action',
+    enum: DocumentAction,
+    required: false,
+  })
+  @ValidateIf((dto) => dto.action === BulkAction.TRANSITION)
+  @IsEnum(DocumentAction)
+  transition?: DocumentAction;
+
+  @ApiProperty({
+    description: 'Comment recorded with each transition',
+    example: 'Quarterly clean-up',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+
+  @ApiProperty({
+    description: 'Tag names, required for the add_tags and remove_tags actions',
+    example: ['invoice', 'q1-2024'],
+    required: false,
+  })
+  @ValidateIf(
+    (dto) =>
+      dto.action === BulkAction.ADD_TAGS ||
+      dto.action === BulkAction.REMOVE_TAGS,
+  )
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    description:
+      'Target folder ID for the move action; null or omitted for the top level',
+    example: 4,
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  folderId?: number | null;
+
+  @ApiProperty({
+    description: 'New owner, required for the reassign_owner action',
+    example: 2,
+    required: false,
+  })
+  @ValidateIf((dto) => dto.action === BulkAction.REASSIGN_OWNER)
+  @IsNumber()
+  ownerId?: number;
+
+  @ApiProperty({
+    description: 'Ingestion type, required for the ingest action',
+    enum: IngestionType,
+    required: false,
+  })
+  @ValidateIf((dto) => dto.action === BulkAction.INGEST)
+  @IsEnum(IngestionType)
+  ingestionType?: IngestionType;
+
+  @ApiProperty({
+    description: 'Processing parameters for the ingest action',
+    example: { language: 'en' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  parameters?: any;
+}
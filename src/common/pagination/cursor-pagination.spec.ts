@@ -0,0 +1,127 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  decodeCursor,
+  encodeCursor,
+  isCursorPagination,
+  paginateByCursor,
+} from './cursor-pagination';
+
+describe('cursor pagination', () => {
+  const buildQueryBuilder = (ids: number[]) => {
+    const queryBuilder: any = {
+      andWhere: jest.fn(),
+      addSelect: jest.fn(),
+      orderBy: jest.fn(),
+      addOrderBy: jest.fn(),
+      limit: jest.fn(),
+      getRawAndEntities: jest.fn().mockResolvedValue({
+        entities: ids.map((id) => ({ id })),
+        raw: ids.map((id) => ({
+          document_id: id,
+          cursor_key: `2024-01-${10 + id} 00:00:00.123456`,
+        })),
+      }),
+    };
+    for (const method of [
+      'andWhere',
+      'addSelect',
+      'orderBy',
+      'addOrderBy',
+      'limit',
+    ]) {
+      queryBuilder[method].mockReturnValue(queryBuilder);
+    }
+    return queryBuilder;
+  };
+
+  const options = {
+    alias: 'document',
+    sortName: 'createdAt',
+    sortExpression: 'document.createdAt',
+    sortOrder: 'DESC' as const,
+    limit: 2,
+  };
+
+  it('should round-trip cursors', () => {
+    const cursor = encodeCursor('createdAt', 'DESC', { key: 'a', id: 3 });
+
+    expect(decodeCursor(cursor, 'createdAt', 'DESC')).toEqual({
+      key: 'a',
+      id: 3,
+    });
+  });
+
+  it('should reject malformed cursors and cursors for another sort', () => {
+    const cursor = encodeCursor('createdAt', 'DESC', { key: 'a', id: 3 });
+
+    expect(() => decodeCursor('not-a-cursor', 'createdAt', 'DESC')).toThrow(
+      BadRequestException,
+    );
+    expect(() => decodeCursor(cursor, 'title', 'DESC')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should detect cursor mode', () => {
+    expect(isCursorPagination({ pagination: 'offset' })).toBe(false);
+    expect(isCursorPagination({ pagination: 'cursor' })).toBe(true);
+    expect(isCursorPagination({ after: 'abc' })).toBe(true);
+  });
+
+  it('should return the first page with a next cursor', async () => {
+    const queryBuilder = buildQueryBuilder([3, 2, 1]);
+
+    const page = await paginateByCursor(queryBuilder, options);
+
+    expect(queryBuilder.andWhere).not.toHaveBeenCalled();
+    expect(queryBuilder.limit).toHaveBeenCalledWith(3);
+    expect(page.items).toEqual([{ id: 3 }, { id: 2 }]);
+    expect(page.prevCursor).toBeNull();
+    expect(decodeCursor(page.nextCursor, 'createdAt', 'DESC')).toEqual({
+      key: '2024-01-12 00:00:00.123456',
+      id: 2,
+    });
+  });
+
+  it('should seek past the cursor position', async () => {
+    const after = encodeCursor('createdAt', 'DESC', { key: 'k', id: 5 });
+    const queryBuilder = buildQueryBuilder([4]);
+
+    const page = await paginateByCursor(queryBuilder, { ...options, after });
+
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      expect.stringContaining('document.createdAt < :cursorKey'),
+      { cursorKey: 'k', cursorId: 5 },
+    );
+    expect(page.items).toEqual([{ id: 4 }]);
+    expect(page.nextCursor).toBeNull();
+    expect(page.prevCursor).not.toBeNull();
+  });
+
+  it('should read backwards and restore the order for before cursors', async () => {
+    const before = encodeCursor('createdAt', 'DESC', { key: 'k', id: 1 });
+    const queryBuilder = buildQueryBuilder([2, 3]);
+
+    const page = await paginateByCursor(queryBuilder, { ...options, before });
+
+    expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+      'document.createdAt',
+      'ASC',
+    );
+    expect(page.items).toEqual([{ id: 3 }, { id: 2 }]);
+    expect(page.prevCursor).toBeNull();
+    expect(page.nextCursor).not.toBeNull();
+  });
+
+  it('should refuse after and before together', async () => {
+    const cursor = encodeCursor('createdAt', 'DESC', { key: 'k', id: 1 });
+
+    await expect(
+      paginateByCursor(buildQueryBuilder([]), {
+        ...options,
+        after: cursor,
+        before: cursor,
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,131 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { PaginationQueryDto } from './pagination-query.dto';
+
+interface CursorPosition {
+  key: string;
+  id: number;
+}
+
+export interface CursorPaginationOptions {
+  alias: string; // Query alias of the paginated entity
+  sortName: string; // Identifies the sort so cursors cannot be reused across sorts
+  sortExpression: string; // SQL expression of the sort key; must not be NULL
+  sortOrder: 'ASC' | 'DESC';
+  after?: string;
+  before?: string;
+  limit: number;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export function isCursorPagination(query: PaginationQueryDto): boolean {
+  return query.pagination === 'cursor' || !!query.after || !!query.before;
+}
+
+export function encodeCursor(
+  sortName: string,
+  sortOrder: string,
+  position: CursorPosition,
+): string {
+  return Buffer.from(
+    JSON.stringify([sortName, sortOrder, position.key, position.id]),
+  ).toString('base64url');
+}
+
+export function decodeCursor(
+  cursor: string,
+  sortName: string,
+  sortOrder: string,
+): CursorPosition {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 4 ||
+    typeof decoded[2] !== 'string' ||
+    !Number.isInteger(decoded[3])
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (decoded[0] !== sortName || decoded[1] !== sortOrder) {
+    throw new BadRequestException('Cursor does not match the requested sort');
+  }
+
+  return { key: decoded[2], id: decoded[3] };
+}
+
+/**
+ * Keyset-paginate a query by its sort key with the entity id as tie-breaker.
+ * Unlike offset pages, rows inserted or removed between requests never cause
+ * skipped or repeated items. The query must not join to-many relations.
+ */
+export async function paginateByCursor<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  options: CursorPaginationOptions,
+): Promise<CursorPage<T>> {
+  const { alias, sortName, sortExpression, sortOrder, after, before, limit } =
+    options;
+
+  if (after && before) {
+    throw new BadRequestException('Use either after or before, not both');
+  }
+
+  // Walking backwards reads the preceding rows in reverse order
+  const backwards = !!before;
+  const order = backwards ? (sortOrder === 'ASC' ? 'DESC' : 'ASC') : sortOrder;
+  const comparator = order === 'ASC' ? '>' : '<';
+
+  const cursor = after || before;
+  if (cursor) {
+    const position = decodeCursor(cursor, sortName, sortOrder);
+    queryBuilder.andWhere(
+      `(${sortExpression} ${comparator} :cursorKey OR (${sortExpression} = :cursorKey AND ${alias}.id ${comparator} :cursorId))`,
+      { cursorKey: position.key, cursorId: position.id },
+    );
+  }
+
+  // The key is read back as text so timestamps keep their full precision
+  const { entities, raw } = await queryBuilder
+    .addSelect(`(${sortExpression})::text`, 'cursor_key')
+    .orderBy(sortExpression, order)
+    .addOrderBy(`${alias}.id`, order)
+    .limit(limit + 1)
+    .getRawAndEntities();
+
+  const keysById = new Map(
+    raw.map((row) => [Number(row[`${alias}_id`]), row.cursor_key]),
+  );
+  const hasMore = entities.length > limit;
+  const items = entities.slice(0, limit);
+  if (backwards) {
+    items.reverse();
+  }
+
+  const cursorFor = (item: T) =>
+    encodeCursor(sortName, sortOrder, {
+      key: keysById.get(item.id),
+      id: item.id,
+    });
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const morePrevious = backwards ? hasMore : !!after;
+  const moreNext = backwards ? true : hasMore;
+
+  return {
+    items,
+    nextCursor: last && moreNext ? cursorFor(last) : null,
+    prevCursor: first && morePrevious ? cursorFor(first) : null,
+  };
+}
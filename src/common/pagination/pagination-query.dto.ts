@@ -0,0 +1,80 @@
+import {
+  IsOptional,
+  IsString,
+  IsBoolean,
+  IsNumber,
+  IsIn,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PaginationQueryDto {
+  @ApiProperty({
+    description:
+      'offset pages with page/limit, or cursor pages with after/before. Passing after or before implies cursor',
+    enum: ['offset', 'cursor'],
+    example: 'offset',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['offset', 'cursor'])
+  pagination?: 'offset' | 'cursor' = 'offset';
+
+  @ApiProperty({
+    description: 'Page number for offset pagination',
+    example: 1,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    example: 10,
+    minimum: 1,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 10;
+
+  @ApiProperty({
+    description:
+      'Return the items after this cursor (nextCursor of a previous page)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  after?: string;
+
+  @ApiProperty({
+    description:
+      'Return the items before this cursor (prevCursor of a previous page)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  before?: string;
+
+  @ApiProperty({
+    description: 'Set to false to skip the total count on large result sets',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  withTotal?: boolean = true;
+}
@@ -0,0 +1,43 @@
+import { TypeOrmModuleOptions } from '@nestjs/typeorm';
+import { Users } from './users/entities/user.entity';
+import { Document } from './documents/entities/document.entity';
+import { DocumentVersion } from './documents/entities/document-version.entity';
+import { DocumentTransition } from './documents/entities/document-transition.entity';
+import { DocumentPermission } from './documents/entities/document-permission.entity';
+import { DocumentShareLink } from './documents/entities/document-share-link.entity';
+import { DocumentDownloadUrl } from './documents/entities/document-download-url.entity';
+import { IngestionJob } from './ingestion/entities/ingestion-job.entity';
+import { IngestionTask } from './ingestion/entities/ingestion-task.entity';
+import { Tag } from './tags/entities/tag.entity';
+import { Folder } from './folders/entities/folder.entity';
+import { FolderPermission } from './folders/entities/folder-permission.entity';
+import { UploadSession } from './uploads/entities/upload-session.entity';
+
+// Shared by the API and the standalone ingestion worker
+export const databaseConfig: TypeOrmModuleOptions = {
+  type: 'postgres',
+  host: process.env.DB_HOST,
+  port: +process.env.DB_PORT,
+  username: process.env.DB_USER,
+  // password: process.env.DB_PASS,
+  database: process.env.DB_NAME,
+  entities: [
+    Users,
+    Document,
+    DocumentVersion,
+    DocumentTransition,
+    DocumentPermission,
+    DocumentShareLink,
+    DocumentDownloadUrl,
+    Tag,
+    Folder,
+    FolderPermission,
+    UploadSession,
+    IngestionJob,
+    IngestionTask,
+  ],
+  synchronize: true,
+  // ssl: {
+  //   rejectUnauthorized: false
+  // }
+};
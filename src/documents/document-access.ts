@@ -0,0 +1,10 @@
+// Documents in a folder tree the user owns or holds a share on, at any level
+const FOLDER_ACCESS_CONDITION =
+  'EXISTS (SELECT 1 FROM folders document_folder INNER JOIN folders ancestor ON document_folder.path LIKE ancestor.path || \'%\' WHERE document_folder.id = document."folderId" AND (ancestor."createdById" = :currentUserId OR EXISTS (SELECT 1 FROM folder_permissions folder_permission WHERE folder_permission."folderId" = ancestor.id AND folder_permission."userId" = :currentUserId)))';
+
+/**
+ * Documents, aliased `document`, that the non-admin user in :currentUserId may
+ * read: their own, public ones and those shared with them directly or through
+ * a folder
+ */
+export const DOCUMENT_ACCESS_CONDITION = `(document.createdById = :currentUserId OR document.isPublic = true OR EXISTS (SELECT 1 FROM document_permissions permission WHERE permission."documentId" = document.id AND permission."userId" = :currentUserId) OR ${FOLDER_ACCESS_CONDITION})`;
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { GoneException, NotFoundException } from '@nestjs/common';
+import { DocumentDownloadUrlsService } from './document-download-urls.service';
+import { DocumentDownloadUrl } from './entities/document-download-url.entity';
+
+describe('DocumentDownloadUrlsService', () => {
+  let service: DocumentDownloadUrlsService;
+
+  const mockRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const urlId = '2f1c7a3e-8d4b-4f0a-9c6e-1b2d3e4f5a6b';
+
+  // Issue a URL and return the query parameters a client would send back
+  const issue = async (singleUse = false) => {
+    const { url } = await service.create(1, { singleUse }, 2);
+    const query = new URL(url, 'http://localhost').searchParams;
+    return {
+      expires: query.get('expires'),
+      signature: query.get('signature'),
+    };
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentDownloadUrlsService,
+        {
+          provide: getRepositoryToken(DocumentDownloadUrl),
+          useValue: mockRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => ({ JWT_SECRET: 'test' })[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DocumentDownloadUrlsService>(
+      DocumentDownloadUrlsService,
+    );
+
+    mockRepository.create.mockImplementation((data) => data);
+    mockRepository.save.mockImplementation(async (data) => ({
+      ...data,
+      id: urlId,
+    }));
+    mockRepository.findOne.mockImplementation(async () => ({
+      id: urlId,
+      documentId: 1,
+      createdById: 2,
+      singleUse: false,
+      usedAt: null,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should issue a signed URL that resolves to its document', async () => {
+    const { expires, signature } = await issue();
+
+    const downloadUrl = await service.resolve(urlId, expires, signature);
+
+    expect(downloadUrl.documentId).toBe(1);
+    expect(mockRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ documentId: 1, createdById: 2 }),
+    );
+  });
+
+  it('should reject URLs whose expiry or signature was altered', async () => {
+    const { expires, signature } = await issue();
+
+    await expect(
+      service.resolve(urlId, String(Number(expires) + 3600), signature),
+    ).rejects.toThrow(NotFoundException);
+    await expect(
+      service.resolve(urlId, expires, signature.slice(1)),
+    ).rejects.toThrow(NotFoundException);
+    expect(mockRepository.findOne).not.toHaveBeenCalled();
+  });
+
+  it('should reject expired URLs', async () => {
+    const { expires, signature } = await issue();
+    jest.spyOn(Date, 'now').mockReturnValue(Number(expires) * 1000 + 1);
+
+    await expect(service.resolve(urlId, expires, signature)).rejects.toThrow(
+      GoneException,
+    );
+  });
+
+  it('should reject revoked URLs', async () => {
+    const { expires, signature } = await issue();
+    mockRepository.findOne.mockResolvedValue(null);
+
+    await expect(service.resolve(urlId, expires, signature)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should let a single-use URL be consumed only once', async () => {
+    const downloadUrl = { id: urlId, singleUse: true } as DocumentDownloadUrl;
+    mockRepository.update
+      .mockResolvedValueOnce({ affected: 1 })
+      .mockResolvedValueOnce({ affected: 0 });
+
+    await expect(service.consume(downloadUrl)).resolves.toBeUndefined();
+    await expect(service.consume(downloadUrl)).rejects.toThrow(GoneException);
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  GoneException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { DocumentDownloadUrl } from './entities/document-download-url.entity';
+import { CreateDownloadUrlDto } from './dto/create-download-url.dto';
+
+const DEFAULT_EXPIRES_IN_SECONDS = 60 * 60;
+
+@Injectable()
+export class DocumentDownloadUrlsService {
+  private readonly logger = new Logger(DocumentDownloadUrlsService.name);
+  private readonly secret: string;
+
+  constructor(
+    @InjectRepository(DocumentDownloadUrl)
+    private downloadUrlsRepository: Repository<DocumentDownloadUrl>,
+    configService: ConfigService,
+  ) {
+    this.secret =
+      configService.get('DOWNLOAD_URL_SECRET') ||
+      configService.get('JWT_SECRET');
+
+    if (!this.secret) {
+      this.logger.warn(
+        'DOWNLOAD_URL_SECRET is not set; signed download URLs will stop working on restart',
+      );
+      this.secret = randomBytes(32).toString('hex');
+    }
+  }
+
+  async create(
+    documentId: number,
+    createDownloadUrlDto: CreateDownloadUrlDto,
+    userId: number,
+  ) {
+    const expiresIn =
+      createDownloadUrlDto.expiresIn || DEFAULT_EXPIRES_IN_SECONDS;
+    // Whole seconds, so the expiry in the URL matches the stored one exactly
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+
+    // Nothing can use an expired URL, so this is a convenient time to drop them
+    await this.downloadUrlsRepository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+
+    const downloadUrl = await this.downloadUrlsRepository.save(
+      this.downloadUrlsRepository.create({
+        documentId,
+        createdById: userId,
+        expiresAt: new Date(expires * 1000),
+        singleUse: !!createDownloadUrlDto.singleUse,
+      }),
+    );
+
+    const query = new URLSearchParams({
+      expires: String(expires),
+      signature: this.sign(downloadUrl.id, expires),
+    });
+
+    return {
+      url: `/public/documents/signed/${downloadUrl.id}?${query}`,
+      expiresAt: downloadUrl.expiresAt,
+      singleUse: downloadUrl.singleUse,
+    };
+  }
+
+  /**
+   * Check the signature and expiry of a URL and return what it was issued
+   * for. Tampered and revoked URLs look exactly like unknown ones.
+   */
+  async resolve(
+    id: string,
+    expires: string,
+    signature: string,
+  ): Promise<DocumentDownloadUrl> {
+    if (!this.hasValidSignature(id, Number(expires), signature)) {
+      throw new NotFoundException('Download URL not found');
+    }
+
+    if (Number(expires) * 1000 <= Date.now()) {
+      throw new GoneException('Download URL has expired');
+    }
+
+    const downloadUrl = await this.downloadUrlsRepository.findOne({
+      where: { id },
+      relations: ['createdBy'],
+    });
+
+    if (!downloadUrl) {
+      throw new NotFoundException('Download URL not found');
+    }
+
+    if (downloadUrl.usedAt) {
+      throw new GoneException('Download URL has already been used');
+    }
+
+    return downloadUrl;
+  }
+
+  /**
+   * Mark a single-use URL as used. Only one of several concurrent requests
+   * gets through.
+   */
+  async consume(downloadUrl: DocumentDownloadUrl): Promise<void> {
+    if (!downloadUrl.singleUse) {
+      return;
+    }
+
+    const result = await this.downloadUrlsRepository.update(
+      { id: downloadUrl.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new GoneException('Download URL has already been used');
+    }
+  }
+
+  /**
+   * Invalidate the URLs a user issued for a document, e.g. when their share is revoked
+   */
+  async revokeForUser(documentId: number, userId: number): Promise<void> {
+    await this.downloadUrlsRepository.delete({
+      documentId,
+      createdById: userId,
+    });
+  }
+
+  async revokeForDocument(documentId: number): Promise<void> {
+    await this.downloadUrlsRepository.delete({ documentId });
+  }
+
+  private sign(id: string, expires: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${id}.${expires}`)
+      .digest('base64url');
+  }
+
+  private hasValidSignature(
+    id: string,
+    expires: number,
+    signature: string,
+  ): boolean {
+    if (!id || !Number.isInteger(expires) || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(id, expires));
+    const actual = Buffer.from(signature);
+
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DocumentScanService } from './document-scan.service';
+
+@Injectable()
+export class DocumentScanScheduler {
+  private readonly logger = new Logger(DocumentScanScheduler.name);
+
+  constructor(private documentScanService: DocumentScanService) {}
+
+  /**
+   * Scan files whose scan failed or never ran, e.g. because the scanner was
+   * down or the file was stored before scanning was enabled
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async scanPending(): Promise<number> {
+    try {
+      const scanned = await this.documentScanService.scanPending();
+      if (scanned > 0) {
+        this.logger.log(`Scanned ${scanned} pending files`);
+      }
+      return scanned;
+    } catch (error) {
+      this.logger.error(`Failed to scan pending files: ${error.message}`);
+      return 0;
+    }
+  }
+}
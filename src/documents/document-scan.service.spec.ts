@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { DocumentScanService } from './document-scan.service';
+import { DocumentVersionsService } from './document-versions.service';
+import { DocumentThumbnailsService } from './document-thumbnails.service';
+import { Document, DocumentScanStatus } from './entities/document.entity';
+import { ClamavScanner } from '../scanning/clamav-scanner';
+import { STORAGE_PROVIDER } from '../storage/storage-provider.interface';
+
+describe('DocumentScanService', () => {
+  let service: DocumentScanService;
+
+  const mockDocumentsRepository = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockVersionsService = {
+    replaceStorageKey: jest.fn(),
+  };
+
+  const mockThumbnailsService = {
+    deleteThumbnails: jest.fn(),
+  };
+
+  const mockScanner = {
+    isEnabled: jest.fn(),
+    scan: jest.fn(),
+  };
+
+  const mockStorage = {
+    get: jest.fn(),
+    move: jest.fn(),
+  };
+
+  const storageKey = 'blobs/9f/9f86d081';
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentScanService,
+        {
+          provide: getRepositoryToken(Document),
+          useValue: mockDocumentsRepository,
+        },
+        { provide: DocumentVersionsService, useValue: mockVersionsService },
+        {
+          provide: DocumentThumbnailsService,
+          useValue: mockThumbnailsService,
+        },
+        { provide: ClamavScanner, useValue: mockScanner },
+        { provide: STORAGE_PROVIDER, useValue: mockStorage },
+      ],
+    }).compile();
+
+    service = module.get<DocumentScanService>(DocumentScanService);
+
+    mockScanner.isEnabled.mockReturnValue(true);
+    mockStorage.get.mockImplementation(async () => Readable.from(['data']));
+    mockDocumentsRepository.findOne.mockResolvedValue({ id: 1, storageKey });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should mark every document storing a clean file as clean', async () => {
+    mockScanner.scan.mockResolvedValue({ infected: false });
+
+    await expect(service.scanDocument(1)).resolves.toBe(
+      DocumentScanStatus.CLEAN,
+    );
+    expect(mockDocumentsRepository.update).toHaveBeenCalledWith(
+      { storageKey },
+      expect.objectContaining({
+        storageKey,
+        scanStatus: DocumentScanStatus.CLEAN,
+      }),
+    );
+  });
+
+  it('should quarantine infected files', async () => {
+    mockScanner.scan.mockResolvedValue({
+      infected: true,
+      signature: 'Eicar-Test-Signature',
+    });
+
+    await expect(service.scanDocument(1)).resolves.toBe(
+      DocumentScanStatus.INFECTED,
+    );
+    expect(mockStorage.move).toHaveBeenCalledWith(
+      storageKey,
+      'quarantine/9f86d081',
+    );
+    expect(mockThumbnailsService.deleteThumbnails).toHaveBeenCalledWith(
+      storageKey,
+    );
+    expect(mockVersionsService.replaceStorageKey).toHaveBeenCalledWith(
+      storageKey,
+      'quarantine/9f86d081',
+    );
+    expect(mockDocumentsRepository.update).toHaveBeenCalledWith(
+      { storageKey },
+      expect.objectContaining({
+        storageKey: 'quarantine/9f86d081',
+        scanStatus: DocumentScanStatus.INFECTED,
+        scanSignature: 'Eicar-Test-Signature',
+      }),
+    );
+  });
+
+  it('should record an error when the scanner fails', async () => {
+    mockScanner.scan.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(service.scanDocument(1)).resolves.toBe(
+      DocumentScanStatus.ERROR,
+    );
+    expect(mockStorage.move).not.toHaveBeenCalled();
+  });
+
+  it('should scan each pending file once', async () => {
+    mockDocumentsRepository.find.mockResolvedValue([
+      { id: 1, storageKey },
+      { id: 2, storageKey },
+      { id: 3, storageKey: 'blobs/ab/abcdef' },
+    ]);
+    mockScanner.scan.mockResolvedValue({ infected: false });
+
+    await expect(service.scanPending()).resolves.toBe(2);
+    expect(mockScanner.scan).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only serve clean files while scanning is enabled', () => {
+    const document = (scanStatus: DocumentScanStatus) =>
+      ({ id: 1, storageKey, scanStatus }) as Document;
+
+    expect(() =>
+      service.assertDownloadable(document(DocumentScanStatus.CLEAN)),
+    ).not.toThrow();
+    expect(() =>
+      service.assertDownloadable(document(DocumentScanStatus.PENDING)),
+    ).toThrow(ConflictException);
+    expect(() =>
+      service.assertDownloadable(document(DocumentScanStatus.INFECTED)),
+    ).toThrow(ForbiddenException);
+
+    mockScanner.isEnabled.mockReturnValue(false);
+    expect(() =>
+      service.assertDownloadable(document(DocumentScanStatus.PENDING)),
+    ).not.toThrow();
+  });
+});
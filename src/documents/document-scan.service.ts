@@ -0,0 +1,185 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import * as path from 'path';
+import { Document, DocumentScanStatus } from './entities/document.entity';
+import { DocumentVersionsService } from './document-versions.service';
+import { DocumentThumbnailsService } from './document-thumbnails.service';
+import { ClamavScanner } from '../scanning/clamav-scanner';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from '../storage/storage-provider.interface';
+
+// Infected files are moved here, out of the content-addressed blobs
+const QUARANTINE_PREFIX = 'quarantine/';
+
+@Injectable()
+export class DocumentScanService {
+  private readonly logger = new Logger(DocumentScanService.name);
+
+  constructor(
+    @InjectRepository(Document)
+    private documentsRepository: Repository<Document>,
+    private documentVersionsService: DocumentVersionsService,
+    private documentThumbnailsService: DocumentThumbnailsService,
+    private scanner: ClamavScanner,
+    @Inject(STORAGE_PROVIDER)
+    private storage: StorageProvider,
+  ) {}
+
+  /**
+   * Refuse to serve files that have not been scanned clean. Everything is
+   * served while scanning is disabled.
+   */
+  assertDownloadable(document: Document): void {
+    if (
+      !this.scanner.isEnabled() ||
+      document.scanStatus === DocumentScanStatus.CLEAN
+    ) {
+      return;
+    }
+
+    if (document.scanStatus === DocumentScanStatus.INFECTED) {
+      throw new ForbiddenException(
+        'File has been quarantined because it contains malware',
+      );
+    }
+
+    throw new ConflictException('File has not passed the malware scan yet');
+  }
+
+  /**
+   * Start scanning a document's file without holding up the request that
+   * stored it. Files the scan misses are picked up by DocumentScanScheduler.
+   */
+  scanInBackground(document: Document): void {
+    if (!this.scanner.isEnabled() || !document.storageKey) {
+      return;
+    }
+
+    this.scanDocument(document.id).catch((error) =>
+      this.logger.error(
+        `Failed to scan document ${document.id}: ${error.message}`,
+      ),
+    );
+  }
+
+  /**
+   * Scan a document's current file and record the result on every document
+   * storing the same file. Infected files are quarantined.
+   */
+  async scanDocument(documentId: number): Promise<DocumentScanStatus> {
+    const document = await this.documentsRepository.findOne({
+      where: { id: documentId },
+      withDeleted: true,
+    });
+
+    if (!document || !document.storageKey) {
+      return null;
+    }
+
+    return this.scanFile(document.storageKey);
+  }
+
+  /**
+   * Scan files that are still pending, failed to scan, or were stored before
+   * scanning was enabled. Returns the number of files scanned.
+   */
+  async scanPending(limit = 100): Promise<number> {
+    if (!this.scanner.isEnabled()) {
+      return 0;
+    }
+
+    const documents = await this.documentsRepository.find({
+      where: [
+        { storageKey: Not(IsNull()), scanStatus: IsNull() },
+        {
+          storageKey: Not(IsNull()),
+          scanStatus: In([
+            DocumentScanStatus.PENDING,
+            DocumentScanStatus.ERROR,
+          ]),
+        },
+      ],
+      select: ['id', 'storageKey'],
+      order: { id: 'ASC' },
+      take: limit,
+      withDeleted: true,
+    });
+
+    // Documents sharing a file are covered by a single scan
+    const storageKeys = [
+      ...new Set(documents.map((document) => document.storageKey)),
+    ];
+    for (const storageKey of storageKeys) {
+      await this.scanFile(storageKey);
+    }
+
+    return storageKeys.length;
+  }
+
+  private async scanFile(storageKey: string): Promise<DocumentScanStatus> {
+    let result;
+    try {
+      result = await this.scanner.scan(await this.storage.get(storageKey));
+    } catch (error) {
+      this.logger.warn(`Could not scan ${storageKey}: ${error.message}`);
+      await this.recordResult(storageKey, DocumentScanStatus.ERROR);
+      return DocumentScanStatus.ERROR;
+    }
+
+    if (!result.infected) {
+      await this.recordResult(storageKey, DocumentScanStatus.CLEAN);
+      return DocumentScanStatus.CLEAN;
+    }
+
+    this.logger.warn(`Quarantining ${storageKey}: ${result.signature}`);
+    await this.recordResult(
+      storageKey,
+      DocumentScanStatus.INFECTED,
+      result.signature,
+      await this.quarantine(storageKey),
+    );
+    return DocumentScanStatus.INFECTED;
+  }
+
+  private async quarantine(storageKey: string): Promise<string> {
+    if (storageKey.startsWith(QUARANTINE_PREFIX)) {
+      return storageKey;
+    }
+
+    const quarantineKey = QUARANTINE_PREFIX + path.posix.basename(storageKey);
+    await this.storage.move(storageKey, quarantineKey);
+    await this.documentThumbnailsService.deleteThumbnails(storageKey);
+    await this.documentVersionsService.replaceStorageKey(
+      storageKey,
+      quarantineKey,
+    );
+
+    return quarantineKey;
+  }
+
+  private async recordResult(
+    storageKey: string,
+    scanStatus: DocumentScanStatus,
+    scanSignature: string = null,
+    newStorageKey: string = storageKey,
+  ): Promise<void> {
+    await this.documentsRepository.update(
+      { storageKey },
+      {
+        storageKey: newStorageKey,
+        scanStatus,
+        scanSignature,
+        scannedAt: new Date(),
+      },
+    );
+  }
+}
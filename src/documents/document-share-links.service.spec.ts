@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  GoneException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { DocumentShareLinksService } from './document-share-links.service';
+import { DocumentShareLink } from './entities/document-share-link.entity';
+
+jest.mock('bcrypt');
+const mockBcrypt = bcrypt as jest.Mocked<typeof bcrypt>;
+
+describe('DocumentShareLinksService', () => {
+  let service: DocumentShareLinksService;
+
+  const mockRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const activeLink = {
+    id: 3,
+    documentId: 1,
+    passwordHash: null,
+    passwordProtected: false,
+    expiresAt: null,
+    revokedAt: null,
+    accessCount: 4,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentShareLinksService,
+        {
+          provide: getRepositoryToken(DocumentShareLink),
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DocumentShareLinksService>(DocumentShareLinksService);
+
+    mockRepository.create.mockImplementation((data) => data);
+    mockRepository.save.mockImplementation(async (data) => ({
+      id: 3,
+      ...data,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a link with a random token and hashed password', async () => {
+      mockBcrypt.hash.mockResolvedValue('hashed' as never);
+
+      const result = await service.create(1, { password: 'secret' }, 7);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          documentId: 1,
+          passwordHash: 'hashed',
+          passwordProtected: true,
+          createdById: 7,
+        }),
+      );
+      expect(result.token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+      expect(result.url).toBe(`/public/documents/${result.token}`);
+      expect(result).not.toHaveProperty('passwordHash');
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.create(1, { expiresAt: '2000-01-01T00:00:00Z' }, 7),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return the document ID and count the access', async () => {
+      mockRepository.findOne.mockResolvedValue(activeLink);
+
+      const result = await service.resolve('token');
+
+      expect(result).toBe(1);
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        3,
+        expect.objectContaining({ accessCount: 5 }),
+      );
+    });
+
+    it('should treat revoked links as not found', async () => {
+      mockRepository.findOne.mockResolvedValue({
+        ...activeLink,
+        revokedAt: new Date(),
+      });
+
+      await expect(service.resolve('token')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject expired links', async () => {
+      mockRepository.findOne.mockResolvedValue({
+        ...activeLink,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.resolve('token')).rejects.toThrow(GoneException);
+    });
+
+    it('should require the password for protected links', async () => {
+      mockRepository.findOne.mockResolvedValue({
+        ...activeLink,
+        passwordHash: 'hashed',
+        passwordProtected: true,
+      });
+      mockBcrypt.compare.mockResolvedValue(false as never);
+
+      await expect(service.resolve('token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      await expect(service.resolve('token', 'wrong')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should mark the link as revoked', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...activeLink });
+
+      await service.revoke(1, 3);
+
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ revokedAt: expect.any(Date) }),
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  GoneException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { DocumentShareLink } from './entities/document-share-link.entity';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+
+@Injectable()
+export class DocumentShareLinksService {
+  constructor(
+    @InjectRepository(DocumentShareLink)
+    private shareLinksRepository: Repository<DocumentShareLink>,
+  ) {}
+
+  async create(
+    documentId: number,
+    createShareLinkDto: CreateShareLinkDto,
+    userId: number,
+  ) {
+    const expiresAt = createShareLinkDto.expiresAt
+      ? new Date(createShareLinkDto.expiresAt)
+      : null;
+
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const shareLink = this.shareLinksRepository.create({
+      documentId,
+      token: randomBytes(24).toString('base64url'),
+      passwordHash: createShareLinkDto.password
+        ? await bcrypt.hash(createShareLinkDto.password, 10)
+        : null,
+      passwordProtected: !!createShareLinkDto.password,
+      expiresAt,
+      createdById: userId,
+    });
+
+    const savedLink = await this.shareLinksRepository.save(shareLink);
+    return this.formatShareLink(savedLink);
+  }
+
+  async findAll(documentId: number) {
+    const shareLinks = await this.shareLinksRepository.find({
+      where: { documentId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return shareLinks.map((shareLink) => this.formatShareLink(shareLink));
+  }
+
+  async revoke(documentId: number, linkId: number): Promise<void> {
+    const shareLink = await this.shareLinksRepository.findOne({
+      where: { id: linkId, documentId },
+    });
+
+    if (!shareLink) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    if (!shareLink.revokedAt) {
+      shareLink.revokedAt = new Date();
+      await this.shareLinksRepository.save(shareLink);
+    }
+  }
+
+  /**
+   * Validate a token (and its password, if any) and return the document ID it grants access to
+   */
+  async resolve(token: string, password?: string): Promise<number> {
+    const shareLink = await this.shareLinksRepository.findOne({
+      where: { token },
+      select: [
+        'id',
+        'documentId',
+        'passwordHash',
+        'passwordProtected',
+        'expiresAt',
+        'revokedAt',
+        'accessCount',
+      ],
+    });
+
+    // Revoked links look exactly like unknown ones
+    if (!shareLink || shareLink.revokedAt) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    if (shareLink.expiresAt && shareLink.expiresAt.getTime() <= Date.now()) {
+      throw new GoneException('Share link has expired');
+    }
+
+    if (shareLink.passwordProtected) {
+      if (
+        !password ||
+        !(await bcrypt.compare(password, shareLink.passwordHash))
+      ) {
+        throw new UnauthorizedException('Invalid share link password');
+      }
+    }
+
+    await this.shareLinksRepository.update(shareLink.id, {
+      accessCount: shareLink.accessCount + 1,
+      lastAccessedAt: new Date(),
+    });
+
+    return shareLink.documentId;
+  }
+
+  private formatShareLink(shareLink: DocumentShareLink) {
+    return {
+      id: shareLink.id,
+      documentId: shareLink.documentId,
+      token: shareLink.token,
+      url: `/public/documents/${shareLink.token}`,
+      passwordProtected: shareLink.passwordProtected,
+      expiresAt: shareLink.expiresAt,
+      revokedAt: shareLink.revokedAt,
+      accessCount: shareLink.accessCount,
+      lastAccessedAt: shareLink.lastAccessedAt,
+      createdById: shareLink.createdById,
+      createdAt: shareLink.createdAt,
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DocumentSharesService } from './document-shares.service';
+import {
+  DocumentPermission,
+  DocumentPermissionLevel,
+} from './entities/document-permission.entity';
+import { Document } from './entities/document.entity';
+import { Users } from '../users/entities/user.entity';
+
+describe('DocumentSharesService', () => {
+  let service: DocumentSharesService;
+
+  const mockDocument = { id: 1, createdById: 1 } as Document;
+  const mockUser = { id: 2, email: 'editor@example.com' } as Users;
+
+  const mockPermissionsRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockUsersRepository = {
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentSharesService,
+        {
+          provide: getRepositoryToken(DocumentPermission),
+          useValue: mockPermissionsRepository,
+        },
+        {
+          provide: getRepositoryToken(Users),
+          useValue: mockUsersRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DocumentSharesService>(DocumentSharesService);
+
+    mockPermissionsRepository.create.mockImplementation((data) => data);
+    mockPermissionsRepository.save.mockImplementation(async (data) => ({
+      id: 10,
+      ...data,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('grant', () => {
+    it('should create a new grant', async () => {
+      mockUsersRepository.findOne.mockResolvedValue(mockUser);
+      mockPermissionsRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.grant(
+        mockDocument,
+        2,
+        DocumentPermissionLevel.EDIT,
+        1,
+      );
+
+      expect(mockPermissionsRepository.create).toHaveBeenCalledWith({
+        documentId: 1,
+        userId: 2,
+        level: DocumentPermissionLevel.EDIT,
+        grantedById: 1,
+      });
+      expect(result).toEqual(
+        expect.objectContaining({
+          id: 10,
+          userId: 2,
+          userEmail: 'editor@example.com',
+          level: DocumentPermissionLevel.EDIT,
+        }),
+      );
+    });
+
+    it('should update the level of an existing grant', async () => {
+      mockUsersRepository.findOne.mockResolvedValue(mockUser);
+      mockPermissionsRepository.findOne.mockResolvedValue({
+        id: 10,
+        documentId: 1,
+        userId: 2,
+        level: DocumentPermissionLevel.VIEW,
+      });
+
+      const result = await service.grant(
+        mockDocument,
+        2,
+        DocumentPermissionLevel.MANAGE,
+        1,
+      );
+
+      expect(mockPermissionsRepository.create).not.toHaveBeenCalled();
+      expect(result.level).toBe(DocumentPermissionLevel.MANAGE);
+    });
+
+    it('should refuse to share with the owner', async () => {
+      await expect(
+        service.grant(mockDocument, 1, DocumentPermissionLevel.VIEW, 1),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      mockUsersRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.grant(mockDocument, 99, DocumentPermissionLevel.VIEW, 1),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should remove an existing grant', async () => {
+      const permission = { id: 10, documentId: 1, userId: 2 };
+      mockPermissionsRepository.findOne.mockResolvedValue(permission);
+
+      await service.revoke(1, 2);
+
+      expect(mockPermissionsRepository.remove).toHaveBeenCalledWith(permission);
+    });
+
+    it('should throw NotFoundException when there is nothing to revoke', async () => {
+      mockPermissionsRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.revoke(1, 2)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
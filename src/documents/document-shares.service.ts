@@ -0,0 +1,100 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Document } from './entities/document.entity';
+import {
+  DocumentPermission,
+  DocumentPermissionLevel,
+} from './entities/document-permission.entity';
+import { Users } from '../users/entities/user.entity';
+
+@Injectable()
+export class DocumentSharesService {
+  constructor(
+    @InjectRepository(DocumentPermission)
+    private permissionsRepository: Repository<DocumentPermission>,
+    @InjectRepository(Users)
+    private usersRepository: Repository<Users>,
+  ) {}
+
+  async findAll(documentId: number) {
+    const permissions = await this.permissionsRepository.find({
+      where: { documentId },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    });
+
+    return permissions.map((permission) => this.formatShare(permission));
+  }
+
+  /**
+   * Grant a user access to a document, replacing any existing grant
+   */
+  async grant(
+    document: Document,
+    userId: number,
+    level: DocumentPermissionLevel,
+    grantedById: number,
+  ) {
+    if (userId === document.createdById) {
+      throw new BadRequestException(
+        'The document owner already has full access',
+      );
+    }
+
+    const user = await this.usersRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    let permission = await this.permissionsRepository.findOne({
+      where: { documentId: document.id, userId },
+    });
+
+    if (permission) {
+      permission.level = level;
+      permission.grantedById = grantedById;
+    } else {
+      permission = this.permissionsRepository.create({
+        documentId: document.id,
+        userId,
+        level,
+        grantedById,
+      });
+    }
+
+    const savedPermission = await this.permissionsRepository.save(permission);
+    savedPermission.user = user;
+
+    return this.formatShare(savedPermission);
+  }
+
+  async revoke(documentId: number, userId: number): Promise<void> {
+    const permission = await this.permissionsRepository.findOne({
+      where: { documentId, userId },
+    });
+
+    if (!permission) {
+      throw new NotFoundException('Share not found');
+    }
+
+    await this.permissionsRepository.remove(permission);
+  }
+
+  private formatShare(permission: DocumentPermission) {
+    return {
+      id: permission.id,
+      documentId: permission.documentId,
+      userId: permission.userId,
+      userEmail: permission.user ? permission.user.email : null,
+      level: permission.level,
+      grantedById: permission.grantedById,
+      createdAt: permission.createdAt,
+      updatedAt: permission.updatedAt,
+    };
+  }
+}
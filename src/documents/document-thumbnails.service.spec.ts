@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { DocumentThumbnailsService } from './document-thumbnails.service';
+import { Document } from './entities/document.entity';
+import { ThumbnailRenderer } from '../previews/thumbnail-renderer';
+import { STORAGE_PROVIDER } from '../storage/storage-provider.interface';
+
+describe('DocumentThumbnailsService', () => {
+  let service: DocumentThumbnailsService;
+
+  const mockRenderer = {
+    canRender: jest.fn(),
+    render: jest.fn(),
+  };
+
+  const mockStorage = {
+    get: jest.fn(),
+    put: jest.fn(),
+    exists: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const document = {
+    id: 1,
+    storageKey: 'blobs/9f/9f86d081',
+    checksum: '9f86d081',
+    mimeType: 'image/png',
+  } as Document;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentThumbnailsService,
+        { provide: ThumbnailRenderer, useValue: mockRenderer },
+        { provide: STORAGE_PROVIDER, useValue: mockStorage },
+      ],
+    }).compile();
+
+    service = module.get<DocumentThumbnailsService>(DocumentThumbnailsService);
+
+    mockRenderer.canRender.mockReturnValue(true);
+    mockRenderer.render.mockResolvedValue(
+      new Map([128, 256, 512].map((size) => [size, Buffer.from(`${size}`)])),
+    );
+    mockStorage.get.mockImplementation(async () => Readable.from(['image']));
+    mockStorage.exists.mockResolvedValue(false);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store a thumbnail of every size next to the file key', async () => {
+    await expect(service.generate(document)).resolves.toBe(true);
+
+    expect(mockStorage.put).toHaveBeenCalledTimes(3);
+    expect(mockStorage.put).toHaveBeenCalledWith(
+      'thumbnails/blobs/9f/9f86d081/256.webp',
+      Buffer.from('256'),
+      'image/webp',
+    );
+  });
+
+  it('should not render thumbnails that already exist', async () => {
+    mockStorage.exists.mockResolvedValue(true);
+
+    await expect(service.generate(document)).resolves.toBe(true);
+    expect(mockRenderer.render).not.toHaveBeenCalled();
+  });
+
+  it('should serve the requested size', async () => {
+    const thumbnail = await service.getThumbnail(document, 128);
+
+    expect(thumbnail.mimeType).toBe('image/webp');
+    expect(thumbnail.etag).toBe('"9f86d081-128"');
+    await thumbnail.open();
+    expect(mockStorage.get).toHaveBeenLastCalledWith(
+      'thumbnails/blobs/9f/9f86d081/128.webp',
+      undefined,
+    );
+  });
+
+  it('should reject unsupported sizes', async () => {
+    await expect(service.getThumbnail(document, 300)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should report missing thumbnails for files that cannot be rendered', async () => {
+    mockRenderer.render.mockRejectedValue(new Error('corrupt image'));
+
+    await expect(service.getThumbnail(document, 256)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
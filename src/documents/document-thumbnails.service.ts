@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Document } from './entities/document.entity';
+import { FileDownload } from './file-download';
+import {
+  THUMBNAIL_MIME_TYPE,
+  THUMBNAIL_SIZES,
+  ThumbnailRenderer,
+} from '../previews/thumbnail-renderer';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from '../storage/storage-provider.interface';
+
+@Injectable()
+export class DocumentThumbnailsService {
+  private readonly logger = new Logger(DocumentThumbnailsService.name);
+
+  constructor(
+    private renderer: ThumbnailRenderer,
+    @Inject(STORAGE_PROVIDER)
+    private storage: StorageProvider,
+  ) {}
+
+  /**
+   * Render thumbnails of a newly stored file without holding up the request.
+   * Thumbnails the background run misses are rendered on first request.
+   */
+  generateInBackground(document: Document): void {
+    if (!document.storageKey || !this.renderer.canRender(document.mimeType)) {
+      return;
+    }
+
+    this.generate(document).catch((error) =>
+      this.logger.error(
+        `Failed to render thumbnails of document ${document.id}: ${error.message}`,
+      ),
+    );
+  }
+
+  /**
+   * Render and store thumbnails of the document's current file unless they
+   * already exist. Returns whether thumbnails are available.
+   */
+  async generate(document: Document): Promise<boolean> {
+    if (!document.storageKey || !this.renderer.canRender(document.mimeType)) {
+      return false;
+    }
+
+    // Sizes are stored in order, so the largest one marks a complete set
+    const largestKey = this.thumbnailKey(
+      document.storageKey,
+      THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1],
+    );
+    if (await this.storage.exists(largestKey)) {
+      return true;
+    }
+
+    const thumbnails = await this.renderer.render(
+      await this.storage.get(document.storageKey),
+      document.mimeType,
+    );
+    if (!thumbnails) {
+      return false;
+    }
+
+    for (const size of THUMBNAIL_SIZES) {
+      await this.storage.put(
+        this.thumbnailKey(document.storageKey, size),
+        thumbnails.get(size),
+        THUMBNAIL_MIME_TYPE,
+      );
+    }
+
+    return true;
+  }
+
+  async getThumbnail(document: Document, size: number): Promise<FileDownload> {
+    if (!THUMBNAIL_SIZES.includes(size)) {
+      throw new BadRequestException(
+        `size must be one of ${THUMBNAIL_SIZES.join(', ')}`,
+      );
+    }
+
+    let available: boolean;
+    try {
+      available = await this.generate(document);
+    } catch (error) {
+      // Typically a corrupt or truncated file
+      this.logger.warn(
+        `Could not render thumbnails of document ${document.id}: ${error.message}`,
+      );
+      available = false;
+    }
+
+    if (!available) {
+      throw new NotFoundException('No thumbnail available for this document');
+    }
+
+    const key = this.thumbnailKey(document.storageKey, size);
+    return {
+      fileName: `thumbnail-${size}.webp`,
+      mimeType: THUMBNAIL_MIME_TYPE,
+      size: null,
+      etag: document.checksum ? `"${document.checksum}-${size}"` : null,
+      lastModified: document.updatedAt,
+      open: (range) => this.storage.get(key, range),
+    };
+  }
+
+  /**
+   * Remove the thumbnails of a stored file that is being deleted or moved
+   */
+  async deleteThumbnails(storageKey: string): Promise<void> {
+    for (const size of THUMBNAIL_SIZES) {
+      await this.storage.delete(this.thumbnailKey(storageKey, size));
+    }
+  }
+
+  private thumbnailKey(storageKey: string, size: number): string {
+    return `thumbnails/${storageKey}/${size}.webp`;
+  }
+}
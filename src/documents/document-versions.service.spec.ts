@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DocumentVersionsService } from './document-versions.service';
+import { DocumentVersion } from './entities/document-version.entity';
+import { Document } from './entities/document.entity';
+
+describe('DocumentVersionsService', () => {
+  let service: DocumentVersionsService;
+
+  const mockDocument = {
+    id: 1,
+    title: 'Test Document',
+    description: 'Test description',
+    fileName: 'abc.pdf',
+    originalFileName: 'test.pdf',
+    storageKey: 'documents/abc.pdf',
+    fileSize: 1024,
+    mimeType: 'application/pdf',
+    content: 'line one\nline two\n',
+    status: 'draft',
+    currentVersion: 2,
+    createdById: 1,
+    updatedById: null,
+  } as Document;
+
+  const mockRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentVersionsService,
+        {
+          provide: getRepositoryToken(DocumentVersion),
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DocumentVersionsService>(DocumentVersionsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordVersion', () => {
+    it('should snapshot the document as its current version', async () => {
+      mockRepository.create.mockImplementation((data) => data);
+      mockRepository.save.mockImplementation(async (data) => data);
+
+      const result = await service.recordVersion(mockDocument, 5, 'note');
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          documentId: 1,
+          versionNumber: 2,
+          title: 'Test Document',
+          storageKey: 'documents/abc.pdf',
+          changeNote: 'note',
+          createdById: 5,
+        }),
+      );
+      expect(result.versionNumber).toBe(2);
+    });
+  });
+
+  describe('ensureCurrentVersionRecorded', () => {
+    it('should not record anything when the snapshot already exists', async () => {
+      mockRepository.findOne.mockResolvedValue({ id: 1 });
+
+      await service.ensureCurrentVersionRecorded(mockDocument);
+
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should record the current state of legacy documents', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockImplementation((data) => data);
+      mockRepository.save.mockImplementation(async (data) => data);
+
+      await service.ensureCurrentVersionRecorded(mockDocument);
+
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ versionNumber: 2, createdById: 1 }),
+      );
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException when the version does not exist', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne(1, 9)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('diff', () => {
+    it('should report changed fields and a content patch', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          ...mockDocument,
+          versionNumber: 1,
+          title: 'Old title',
+        })
+        .mockResolvedValueOnce({
+          ...mockDocument,
+          versionNumber: 2,
+          content: 'line one\nline 2\n',
+        });
+
+      const result = await service.diff(1, 1, 2);
+
+      expect(result.changes).toEqual({
+        title: { from: 'Old title', to: 'Test Document' },
+      });
+      expect(result.fileChanged).toBe(false);
+      expect(result.contentChanged).toBe(true);
+      expect(result.contentPatch).toContain('-line two');
+      expect(result.contentPatch).toContain('+line 2');
+    });
+
+    it('should reject diffing a version against itself', async () => {
+      await expect(service.diff(1, 2, 2)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('findStorageKeys', () => {
+    it('should return distinct file paths across versions', async () => {
+      mockRepository.find.mockResolvedValue([
+        { id: 1, storageKey: 'documents/a.pdf' },
+        { id: 2, storageKey: 'documents/a.pdf' },
+        { id: 3, storageKey: null },
+        { id: 4, storageKey: 'documents/b.pdf' },
+      ]);
+
+      const result = await service.findStorageKeys(1);
+
+      expect(result).toEqual(['documents/a.pdf', 'documents/b.pdf']);
+    });
+  });
+});
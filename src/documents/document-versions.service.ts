@@ -0,0 +1,185 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { createTwoFilesPatch } from 'diff';
+import { Document } from './entities/document.entity';
+import { DocumentVersion } from './entities/document-version.entity';
+
+// Metadata fields compared field-by-field when diffing two versions
+const DIFFABLE_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'originalFileName',
+  'fileSize',
+  'mimeType',
+];
+
+@Injectable()
+export class DocumentVersionsService {
+  constructor(
+    @InjectRepository(DocumentVersion)
+    private versionsRepository: Repository<DocumentVersion>,
+  ) {}
+
+  /**
+   * Snapshot the current state of a document as version `document.currentVersion`,
+   * inside the given transaction when there is one
+   */
+  async recordVersion(
+    document: Document,
+    userId: number,
+    changeNote?: string,
+    manager?: EntityManager,
+  ): Promise<DocumentVersion> {
+    const versionsRepository = manager
+      ? manager.getRepository(DocumentVersion)
+      : this.versionsRepository;
+
+    const version = versionsRepository.create({
+      documentId: document.id,
+      versionNumber: document.currentVersion,
+      title: document.title,
+      description: document.description,
+      content: document.content,
+      fileName: document.fileName,
+      originalFileName: document.originalFileName,
+      storageKey: document.storageKey,
+      checksum: document.checksum,
+      fileSize: document.fileSize,
+      mimeType: document.mimeType,
+      status: document.status,
+      changeNote,
+      createdById: userId,
+    });
+
+    return versionsRepository.save(version);
+  }
+
+  /**
+   * Documents created before versioning existed have no snapshot of their
+   * current state; record one before it gets overwritten.
+   */
+  async ensureCurrentVersionRecorded(document: Document): Promise<void> {
+    const exists = await this.versionsRepository.findOne({
+      where: {
+        documentId: document.id,
+        versionNumber: document.currentVersion,
+      },
+    });
+
+    if (!exists) {
+      await this.recordVersion(
+        document,
+        document.updatedById || document.createdById,
+      );
+    }
+  }
+
+  async findAll(documentId: number): Promise<DocumentVersion[]> {
+    return this.versionsRepository.find({
+      where: { documentId },
+      select: [
+        'id',
+        'documentId',
+        'versionNumber',
+        'title',
+        'description',
+        'originalFileName',
+        'fileSize',
+        'mimeType',
+        'status',
+        'changeNote',
+        'createdById',
+        'createdAt',
+      ],
+      order: { versionNumber: 'DESC' },
+    });
+  }
+
+  async findOne(
+    documentId: number,
+    versionNumber: number,
+  ): Promise<DocumentVersion> {
+    const version = await this.versionsRepository.findOne({
+      where: { documentId, versionNumber },
+      relations: ['createdBy'],
+    });
+
+    if (!version) {
+      throw new NotFoundException(
+        `Version ${versionNumber} not found for this document`,
+      );
+    }
+
+    return version;
+  }
+
+  async diff(documentId: number, fromVersion: number, toVersion: number) {
+    if (fromVersion === toVersion) {
+      throw new BadRequestException('Cannot diff a version against itself');
+    }
+
+    const from = await this.findOne(documentId, fromVersion);
+    const to = await this.findOne(documentId, toVersion);
+
+    const changes = {};
+    for (const field of DIFFABLE_FIELDS) {
+      if (from[field] !== to[field]) {
+        changes[field] = { from: from[field], to: to[field] };
+      }
+    }
+
+    const contentPatch = createTwoFilesPatch(
+      `version-${fromVersion}`,
+      `version-${toVersion}`,
+      from.content || '',
+      to.content || '',
+    );
+
+    return {
+      documentId,
+      from: fromVersion,
+      to: toVersion,
+      changes,
+      fileChanged: from.storageKey !== to.storageKey,
+      contentChanged: (from.content || '') !== (to.content || ''),
+      contentPatch,
+    };
+  }
+
+  async countStorageKeyReferences(storageKey: string): Promise<number> {
+    return this.versionsRepository.count({ where: { storageKey } });
+  }
+
+  /**
+   * Point every version storing a file at its new location
+   */
+  async replaceStorageKey(
+    storageKey: string,
+    newStorageKey: string,
+  ): Promise<void> {
+    await this.versionsRepository.update(
+      { storageKey },
+      { storageKey: newStorageKey },
+    );
+  }
+
+  /**
+   * All storage keys referenced by any version of a document
+   */
+  async findStorageKeys(documentId: number): Promise<string[]> {
+    const versions = await this.versionsRepository.find({
+      where: { documentId },
+      select: ['id', 'storageKey'],
+    });
+
+    return [
+      ...new Set(versions.map((version) => version.storageKey).filter(Boolean)),
+    ];
+  }
+}
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { DocumentWorkflowService } from './document-workflow.service';
+import { Document, DocumentStatus } from './entities/document.entity';
+import {
+  DocumentTransition,
+  DocumentAction,
+} from './entities/document-transition.entity';
+import { UserRole } from '../common/constants';
+
+describe('DocumentWorkflowService', () => {
+  let service: DocumentWorkflowService;
+
+  const mockManager = {
+    update: jest.fn(),
+    create: jest.fn(),
+    save: jest.fn(),
+  };
+
+  const mockDocumentsRepository = {
+    manager: {
+      transaction: jest.fn((work) => work(mockManager)),
+    },
+  };
+
+  const mockTransitionsRepository = {
+    find: jest.fn(),
+  };
+
+  const buildDocument = (status: DocumentStatus) =>
+    ({ id: 1, title: 'Test Document', status, createdById: 1 }) as Document;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentWorkflowService,
+        {
+          provide: getRepositoryToken(Document),
+          useValue: mockDocumentsRepository,
+        },
+        {
+          provide: getRepositoryToken(DocumentTransition),
+          useValue: mockTransitionsRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DocumentWorkflowService>(DocumentWorkflowService);
+
+    mockManager.update.mockResolvedValue({ affected: 1 });
+    mockManager.create.mockImplementation((entity, data) => data);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should submit a draft for review and record the transition', async () => {
+    const result = await service.transition(
+      buildDocument(DocumentStatus.DRAFT),
+      DocumentAction.SUBMIT,
+      2,
+      [UserRole.EDITOR],
+      'ready',
+    );
+
+    expect(result.status).toBe(DocumentStatus.IN_REVIEW);
+    expect(result.updatedById).toBe(2);
+    expect(mockManager.update).toHaveBeenCalledWith(
+      Document,
+      { id: 1, status: expect.anything() },
+      { status: DocumentStatus.IN_REVIEW, updatedById: 2 },
+    );
+    expect(mockManager.save).toHaveBeenCalledWith({
+      documentId: 1,
+      action: DocumentAction.SUBMIT,
+      fromStatus: DocumentStatus.DRAFT,
+      toStatus: DocumentStatus.IN_REVIEW,
+      comment: 'ready',
+      performedById: 2,
+    });
+  });
+
+  it('should let admins approve documents under review', async () => {
+    const result = await service.transition(
+      buildDocument(DocumentStatus.IN_REVIEW),
+      DocumentAction.APPROVE,
+      1,
+      [UserRole.ADMIN],
+    );
+
+    expect(result.status).toBe(DocumentStatus.PUBLISHED);
+  });
+
+  it('should send rejected documents back to draft', async () => {
+    const result = await service.transition(
+      buildDocument(DocumentStatus.IN_REVIEW),
+      DocumentAction.REJECT,
+      1,
+      [UserRole.ADMIN],
+    );
+
+    expect(result.status).toBe(DocumentStatus.DRAFT);
+  });
+
+  it('should forbid non-admins from approving', async () => {
+    await expect(
+      service.transition(
+        buildDocument(DocumentStatus.IN_REVIEW),
+        DocumentAction.APPROVE,
+        2,
+        [UserRole.EDITOR],
+      ),
+    ).rejects.toThrow(ForbiddenException);
+    expect(mockManager.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid transitions with a conflict', async () => {
+    await expect(
+      service.transition(
+        buildDocument(DocumentStatus.DRAFT),
+        DocumentAction.ARCHIVE,
+        1,
+        [UserRole.ADMIN],
+      ),
+    ).rejects.toThrow(ConflictException);
+    expect(mockManager.save).not.toHaveBeenCalled();
+  });
+
+  it('should conflict when the status changed since the document was read', async () => {
+    mockManager.update.mockResolvedValue({ affected: 0 });
+
+    await expect(
+      service.transition(
+        buildDocument(DocumentStatus.IN_REVIEW),
+        DocumentAction.APPROVE,
+        1,
+        [UserRole.ADMIN],
+      ),
+    ).rejects.toThrow(ConflictException);
+    expect(mockManager.save).not.toHaveBeenCalled();
+  });
+});
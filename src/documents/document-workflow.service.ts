@@ -0,0 +1,115 @@
+import {
+  Injectable,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Document, DocumentStatus } from './entities/document.entity';
+import {
+  DocumentTransition,
+  DocumentAction,
+} from './entities/document-transition.entity';
+import { UserRole } from '../common/constants';
+
+interface TransitionRule {
+  from: DocumentStatus[];
+  to: DocumentStatus;
+  roles?: UserRole[]; // Restricts the action beyond the usual edit permission
+}
+
+// draft -> in_review -> published -> archived, with reject back to draft
+const TRANSITIONS: Record<DocumentAction, TransitionRule> = {
+  [DocumentAction.SUBMIT]: {
+    from: [DocumentStatus.DRAFT],
+    to: DocumentStatus.IN_REVIEW,
+  },
+  [DocumentAction.APPROVE]: {
+    from: [DocumentStatus.IN_REVIEW],
+    to: DocumentStatus.PUBLISHED,
+    roles: [UserRole.ADMIN],
+  },
+  [DocumentAction.REJECT]: {
+    from: [DocumentStatus.IN_REVIEW],
+    to: DocumentStatus.DRAFT,
+    roles: [UserRole.ADMIN],
+  },
+  [DocumentAction.ARCHIVE]: {
+    from: [DocumentStatus.PUBLISHED],
+    to: DocumentStatus.ARCHIVED,
+  },
+};
+
+@Injectable()
+export class DocumentWorkflowService {
+  constructor(
+    @InjectRepository(Document)
+    private documentsRepository: Repository<Document>,
+    @InjectRepository(DocumentTransition)
+    private transitionsRepository: Repository<DocumentTransition>,
+  ) {}
+
+  /**
+   * Move a document to the status the action leads to and record the transition.
+   * Callers are expected to have checked that the user may edit the document.
+   */
+  async transition(
+    document: Document,
+    action: DocumentAction,
+    userId: number,
+    userRoles: string[],
+    comment?: string,
+  ): Promise<Document> {
+    const rule = TRANSITIONS[action];
+    const fromStatus = document.status || DocumentStatus.DRAFT;
+
+    if (rule.roles && !rule.roles.some((role) => userRoles.includes(role))) {
+      throw new ForbiddenException(
+        `Only ${rule.roles.join(', ')} users can ${action} documents`,
+      );
+    }
+
+    if (!rule.from.includes(fromStatus)) {
+      throw new ConflictException(
+        `Cannot ${action} a document in status '${fromStatus}'`,
+      );
+    }
+
+    // Conditional on the status, so of two concurrent transitions only the
+    // first applies; only the status columns are written
+    const changes = { status: rule.to, updatedById: userId };
+    await this.documentsRepository.manager.transaction(async (manager) => {
+      const { affected } = await manager.update(
+        Document,
+        { id: document.id, status: In(rule.from) },
+        changes,
+      );
+
+      if (!affected) {
+        throw new ConflictException(
+          `Cannot ${action} the document; its status has changed`,
+        );
+      }
+
+      await manager.save(
+        manager.create(DocumentTransition, {
+          documentId: document.id,
+          action,
+          fromStatus,
+          toStatus: rule.to,
+          comment,
+          performedById: userId,
+        }),
+      );
+    });
+
+    return Object.assign(document, changes);
+  }
+
+  async findTransitions(documentId: number): Promise<DocumentTransition[]> {
+    return this.transitionsRepository.find({
+      where: { documentId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+}
@@ -11,8 +11,11 @@ import {
   UseInterceptors,
   UploadedFile,
   ParseIntPipe,
+  ParseBoolPipe,
+  DefaultValuePipe,
   Res,
   Query,
+  ValidationPipe,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Response } from 'express';
@@ -26,9 +29,25 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { DocumentsService } from './documents.service';
+import { sendFileDownload } from './file-download';
+import { DiscardUploadOnErrorInterceptor } from '../storage/discard-upload-on-error.interceptor';
 import { CreateDocumentDto } from './dto/create-document.dto';
 import { UpdateDocumentDto } from './dto/update-document.dto';
+import { SearchDocumentsDto } from './dto/search-documents.dto';
 import { DocumentResponseDto } from './dto/document-response.dto';
+import { DocumentVersionResponseDto, DocumentVersionDiffDto } from './dto/document-version-response.dto';
+import { TransitionDocumentDto } from './dto/transition-document.dto';
+import { ShareDocumentDto } from './dto/share-document.dto';
+import { DocumentShareResponseDto } from './dto/document-share-response.dto';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { ShareLinkResponseDto } from './dto/share-link-response.dto';
+import { CreateDownloadUrlDto } from './dto/create-download-url.dto';
+import { DownloadUrlResponseDto } from './dto/download-url-response.dto';
+import { DEFAULT_THUMBNAIL_SIZE, THUMBNAIL_SIZES } from '../previews/thumbnail-renderer';
+import { AddDocumentTagsDto } from './dto/add-document-tags.dto';
+import { DocumentDestinationDto } from './dto/document-destination.dto';
+import { TagResponseDto } from '../tags/dto/tag-response.dto';
+import { DocumentAction } from './entities/document-transition.entity';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -42,7 +61,7 @@ export class DocumentsController {
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.EDITOR)
-  @UseInterceptors(FileInterceptor('file'))
+  @UseInterceptors(FileInterceptor('file'), DiscardUploadOnErrorInterceptor)
   @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
   @ApiBody({
@@ -52,6 +71,8 @@ export class DocumentsController {
         title: { type: 'string' },
         description: { type: 'string' },
         content: { type: 'string' },
+        isPublic: { type: 'boolean' },
+        folderId: { type: 'number' },
         file: {
           type: 'string',
           format: 'binary',
@@ -65,27 +86,78 @@ export class DocumentsController {
     description: 'Document created successfully',
     type: DocumentResponseDto,
   })
+  @ApiResponse({ status: 413, description: 'File exceeds the upload size limit for your role' })
+  @ApiResponse({ status: 415, description: 'File type is not allowed for your role' })
+  @ApiResponse({ status: 409, description: 'You already uploaded this file and DUPLICATE_UPLOADS is reject' })
   async create(
     @Body() createDocumentDto: CreateDocumentDto,
     @UploadedFile() file: any,
     @Request() req,
   ) {
     const userId = req.user.userId;
-    return this.documentsService.create(createDocumentDto, userId, file);
+    const userRoles = req.user.roles;
+    return this.documentsService.create(createDocumentDto, userId, file, userRoles);
   }
 
   @Get()
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get all documents with search and filters' })
-  @ApiQuery({ name: 'search', required: false, description: 'Search term for title or description' })
-  @ApiQuery({ name: 'userId', required: false, type: Number, description: 'Filter by user ID who created the document' })
+  @ApiOperation({ summary: 'Get all documents with search, filters and facet counts' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of documents with facet counts for the filtered set. Cursor pages return nextCursor/prevCursor instead of page/totalPages; withTotal=false omits total and facets',
+    schema: {
+      type: 'object',
+      properties: {
+        documents: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/DocumentResponseDto' }
+        },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' },
+        hasMore: { type: 'boolean' },
+        nextCursor: { type: 'string', nullable: true },
+        prevCursor: { type: 'string', nullable: true },
+        facets: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'array',
+              items: { type: 'object', properties: { value: { type: 'string' }, count: { type: 'number' } } }
+            },
+            mimeType: {
+              type: 'array',
+              items: { type: 'object', properties: { value: { type: 'string', nullable: true }, count: { type: 'number' } } }
+            },
+            createdBy: {
+              type: 'array',
+              items: { type: 'object', properties: { userId: { type: 'number' }, email: { type: 'string' }, count: { type: 'number' } } }
+            }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter values or cursor' })
+  @ApiResponse({ status: 403, description: 'Non-admins can only filter by their own user ID' })
+  async findAll(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) searchDocumentsDto: SearchDocumentsDto,
+    @Request() req,
+  ) {
+    const currentUserId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.searchAllDocuments(currentUserId, userRoles, searchDocumentsDto);
+  }
+
+  @Get('trash')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List documents in the trash' })
   @ApiQuery({ name: 'page', required: false, type: Number, minimum: 1, description: 'Page number for pagination' })
   @ApiQuery({ name: 'limit', required: false, type: Number, minimum: 1, maximum: 100, description: 'Number of items per page' })
-  @ApiQuery({ name: 'sortBy', required: false, enum: ['createdAt', 'updatedAt', 'title'], description: 'Sort field' })
-  @ApiQuery({ name: 'sortOrder', required: false, enum: ['ASC', 'DESC'], description: 'Sort order' })
   @ApiResponse({
     status: 200,
-    description: 'List of documents with pagination',
+    description: 'Trashed documents, most recently deleted first',
     schema: {
       type: 'object',
       properties: {
@@ -100,41 +172,53 @@ export class DocumentsController {
       }
     }
   })
-  async findAll(
-    @Query('search') search?: string,
-    @Query('userId') userId?: number,
+  async findTrash(
     @Query('page') page?: number,
     @Query('limit') limit?: number,
-    @Query('sortBy') sortBy?: string,
-    @Query('sortOrder') sortOrder?: 'ASC' | 'DESC',
     @Request() req?: any,
   ) {
-    const currentUserId = req.user.userId;
+    const userId = req.user.userId;
     const userRoles = req.user.roles;
-    
-    // If no search/filter parameters, return simple list
-    if (search === undefined && userId === undefined && page === undefined && limit === undefined && sortBy === undefined && sortOrder === undefined) {
-      const documents = await this.documentsService.findAllDocuments(currentUserId, userRoles);
-      return {
-        documents,
-        total: documents.length,
-        page: 1,
-        limit: documents.length,
-        totalPages: 1
-      };
+    return this.documentsService.findTrash(userId, userRoles, Number(page) || 1, Number(limit) || 10);
+  }
+
+  @Get('duplicates')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Report documents that hold identical files (Admin only)' })
+  @ApiQuery({ name: 'page', required: false, type: Number, minimum: 1, description: 'Page number for pagination' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, minimum: 1, maximum: 100, description: 'Number of groups per page' })
+  @ApiResponse({
+    status: 200,
+    description: 'Groups of documents sharing a checksum, largest groups first',
+    schema: {
+      type: 'object',
+      properties: {
+        groups: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              checksum: { type: 'string' },
+              fileSize: { type: 'number' },
+              count: { type: 'number' },
+              documents: { type: 'array', items: { type: 'object' } }
+            }
+          }
+        },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' }
+      }
     }
-    
-    // If search/filter parameters provided, use search functionality
-    const searchParams = {
-      search,
-      userId,
-      page: page || 1,
-      limit: limit || 10,
-      sortBy: sortBy || 'createdAt',
-      sortOrder: sortOrder || 'DESC'
-    };
-    
-    return this.documentsService.searchAllDocuments(currentUserId, userRoles, searchParams);
+  })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async findDuplicates(
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.documentsService.findDuplicates(Number(page) || 1, Number(limit) || 10);
   }
 
   @Get(':id')
@@ -153,12 +237,12 @@ export class DocumentsController {
   ) {
     const userId = req.user.userId;
     const userRoles = req.user.roles;
-    return this.documentsService.findOne(id, userId, userRoles);
+    return this.documentsService.findOneWithTags(id, userId, userRoles);
   }
 
   @Patch(':id')
   @Roles(UserRole.ADMIN, UserRole.EDITOR)
-  @UseInterceptors(FileInterceptor('file'))
+  @UseInterceptors(FileInterceptor('file'), DiscardUploadOnErrorInterceptor)
   @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
   @ApiBody({
@@ -168,6 +252,7 @@ export class DocumentsController {
         title: { type: 'string' },
         description: { type: 'string' },
         content: { type: 'string' },
+        isPublic: { type: 'boolean' },
         file: {
           type: 'string',
           format: 'binary',
@@ -181,6 +266,9 @@ export class DocumentsController {
     description: 'Document updated successfully',
     type: DocumentResponseDto,
   })
+  @ApiResponse({ status: 413, description: 'File exceeds the upload size limit for your role' })
+  @ApiResponse({ status: 415, description: 'File type is not allowed for your role' })
+  @ApiResponse({ status: 409, description: 'You already uploaded this file and DUPLICATE_UPLOADS is reject' })
   @ApiResponse({ status: 404, description: 'Document not found' })
   @ApiResponse({ status: 403, description: 'Access denied' })
   async update(
@@ -196,8 +284,8 @@ export class DocumentsController {
 
   @Delete(':id')
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Delete a document' })
-  @ApiResponse({ status: 200, description: 'Document deleted successfully' })
+  @ApiOperation({ summary: 'Move a document to the trash' })
+  @ApiResponse({ status: 200, description: 'Document moved to the trash' })
   @ApiResponse({ status: 404, description: 'Document not found' })
   @ApiResponse({ status: 403, description: 'Access denied' })
   async remove(
@@ -209,25 +297,522 @@ export class DocumentsController {
     return this.documentsService.remove(id, userId, userRoles);
   }
 
+  @Post(':id/restore')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Restore a document from the trash' })
+  @ApiResponse({
+    status: 201,
+    description: 'Document restored',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document not found in trash' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async restore(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.restore(id, userId, userRoles);
+  }
+
+  @Delete(':id/permanent')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Permanently delete a document and its files (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Document permanently deleted' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async permanentlyDelete(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.permanentlyDelete(id, userId, userRoles);
+  }
+
+  @Post(':id/submit')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Submit a draft document for review' })
+  @ApiResponse({
+    status: 201,
+    description: 'Document moved to in_review',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 409, description: 'Transition not allowed from the current status' })
+  async submit(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() transitionDto: TransitionDocumentDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.transitionDocument(id, DocumentAction.SUBMIT, userId, userRoles, transitionDto.comment);
+  }
+
+  @Post(':id/approve')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Approve a document under review (Admin only)' })
+  @ApiResponse({
+    status: 201,
+    description: 'Document published',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 409, description: 'Transition not allowed from the current status' })
+  async approve(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() transitionDto: TransitionDocumentDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.transitionDocument(id, DocumentAction.APPROVE, userId, userRoles, transitionDto.comment);
+  }
+
+  @Post(':id/reject')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reject a document under review back to draft (Admin only)' })
+  @ApiResponse({
+    status: 201,
+    description: 'Document moved back to draft',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 409, description: 'Transition not allowed from the current status' })
+  async reject(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() transitionDto: TransitionDocumentDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.transitionDocument(id, DocumentAction.REJECT, userId, userRoles, transitionDto.comment);
+  }
+
+  @Post(':id/archive')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Archive a published document' })
+  @ApiResponse({
+    status: 201,
+    description: 'Document archived',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 409, description: 'Transition not allowed from the current status' })
+  async archive(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() transitionDto: TransitionDocumentDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.transitionDocument(id, DocumentAction.ARCHIVE, userId, userRoles, transitionDto.comment);
+  }
+
+  @Get(':id/transitions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the status transition history of a document' })
+  @ApiResponse({ status: 200, description: 'Transitions, oldest first' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findTransitions(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.findTransitions(id, userId, userRoles);
+  }
+
+  @Get(':id/tags')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the tags of a document' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tags on the document',
+    type: [TagResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findTags(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.findTags(id, userId, userRoles);
+  }
+
+  @Post(':id/tags')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add tags to a document, creating tags that do not exist yet' })
+  @ApiResponse({
+    status: 201,
+    description: 'All tags now on the document',
+    type: [TagResponseDto],
+  })
+  @ApiResponse({ status: 400, description: 'Invalid tag names' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async addTags(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() addDocumentTagsDto: AddDocumentTagsDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.addTags(id, addDocumentTagsDto.tags, userId, userRoles);
+  }
+
+  @Delete(':id/tags/:tagId')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove a tag from a document' })
+  @ApiResponse({ status: 200, description: 'Tag removed' })
+  @ApiResponse({ status: 404, description: 'Document not found or tag not applied' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async removeTag(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('tagId', ParseIntPipe) tagId: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.removeTag(id, tagId, userId, userRoles);
+  }
+
+  @Post(':id/move')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Move a document to another folder, or to the top level with folderId null' })
+  @ApiResponse({
+    status: 201,
+    description: 'Document moved successfully',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document or folder not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async move(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() documentDestinationDto: DocumentDestinationDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.moveDocument(id, documentDestinationDto.folderId, userId, userRoles);
+  }
+
+  @Post(':id/copy')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Copy a document, its file and tags into a folder as a new draft' })
+  @ApiResponse({
+    status: 201,
+    description: 'Copy created successfully',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document or folder not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async copy(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() documentDestinationDto: DocumentDestinationDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.copyDocument(id, documentDestinationDto.folderId, userId, userRoles);
+  }
+
+  @Get(':id/shares')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List users a document is shared with' })
+  @ApiResponse({
+    status: 200,
+    description: 'Share grants on the document',
+    type: [DocumentShareResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findShares(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.findShares(id, userId, userRoles);
+  }
+
+  @Post(':id/shares')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Share a document with a user or change their access level' })
+  @ApiResponse({
+    status: 201,
+    description: 'Share granted',
+    type: DocumentShareResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Cannot share with the document owner' })
+  @ApiResponse({ status: 404, description: 'Document or user not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async shareDocument(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() shareDocumentDto: ShareDocumentDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.shareDocument(id, shareDocumentDto, userId, userRoles);
+  }
+
+  @Delete(':id/shares/:userId')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a user\'s access to a document' })
+  @ApiResponse({ status: 200, description: 'Share revoked' })
+  @ApiResponse({ status: 404, description: 'Document or share not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async revokeShare(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) targetUserId: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.revokeShare(id, targetUserId, userId, userRoles);
+  }
+
+  @Post(':id/share-links')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create an anonymous share link for a document' })
+  @ApiResponse({
+    status: 201,
+    description: 'Share link created',
+    type: ShareLinkResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid expiry' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async createShareLink(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createShareLinkDto: CreateShareLinkDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.createShareLink(id, createShareLinkDto, userId, userRoles);
+  }
+
+  @Get(':id/share-links')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List share links of a document' })
+  @ApiResponse({
+    status: 200,
+    description: 'Share links, newest first',
+    type: [ShareLinkResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findShareLinks(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.findShareLinks(id, userId, userRoles);
+  }
+
+  @Delete(':id/share-links/:linkId')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a share link' })
+  @ApiResponse({ status: 200, description: 'Share link revoked' })
+  @ApiResponse({ status: 404, description: 'Document or share link not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async revokeShareLink(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('linkId', ParseIntPipe) linkId: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.revokeShareLink(id, linkId, userId, userRoles);
+  }
+
+  @Get(':id/versions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the version history of a document' })
+  @ApiResponse({
+    status: 200,
+    description: 'Versions, newest first',
+    type: [DocumentVersionResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findVersions(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.findVersions(id, userId, userRoles);
+  }
+
+  @Get(':id/versions/diff')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Diff two versions of a document' })
+  @ApiQuery({ name: 'from', required: true, type: Number, description: 'Base version number' })
+  @ApiQuery({ name: 'to', required: true, type: Number, description: 'Version number to compare against the base' })
+  @ApiResponse({
+    status: 200,
+    description: 'Metadata changes and a unified diff of the content',
+    type: DocumentVersionDiffDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document or version not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async diffVersions(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', ParseIntPipe) to: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.diffVersions(id, from, to, userId, userRoles);
+  }
+
+  @Get(':id/versions/:versionNumber')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a specific version of a document' })
+  @ApiResponse({
+    status: 200,
+    description: 'Version snapshot',
+    type: DocumentVersionResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document or version not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findVersion(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('versionNumber', ParseIntPipe) versionNumber: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.findVersion(id, versionNumber, userId, userRoles);
+  }
+
+  @Post(':id/versions/:versionNumber/restore')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Restore a document to a previous version' })
+  @ApiResponse({
+    status: 201,
+    description: 'Document restored; the restore is recorded as a new version',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document or version not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async restoreVersion(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('versionNumber', ParseIntPipe) versionNumber: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.restoreVersion(id, versionNumber, userId, userRoles);
+  }
+
+  @Get(':id/thumbnail')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get a WebP thumbnail of a document file',
+    description: 'Available for images, and for PDFs when a PDF renderer is installed',
+  })
+  @ApiQuery({ name: 'size', required: false, enum: THUMBNAIL_SIZES, description: 'Longest edge in pixels (default 256)' })
+  @ApiResponse({ status: 200, description: 'Thumbnail image' })
+  @ApiResponse({ status: 304, description: 'Thumbnail has not changed since the cached copy' })
+  @ApiResponse({ status: 400, description: 'Unsupported size' })
+  @ApiResponse({ status: 404, description: 'Document not found or no thumbnail available' })
+  @ApiResponse({ status: 403, description: 'Access denied or file quarantined as malware' })
+  @ApiResponse({ status: 409, description: 'File has not passed the malware scan yet' })
+  async getThumbnail(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+    @Res() res: Response,
+    @Query('size', new DefaultValuePipe(DEFAULT_THUMBNAIL_SIZE), ParseIntPipe) size: number,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    const thumbnail = await this.documentsService.getThumbnail(
+      id,
+      size,
+      userId,
+      userRoles,
+    );
+
+    await sendFileDownload(req, res, thumbnail, true);
+  }
+
+  @Post(':id/download-url')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Create a signed download URL that works without a bearer token',
+    description: 'The URL carries your access: it stops working when it expires, when you lose access to the document, or when the document is deleted',
+  })
+  @ApiBody({ type: CreateDownloadUrlDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Signed download URL',
+    type: DownloadUrlResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Document or file not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async createDownloadUrl(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createDownloadUrlDto: CreateDownloadUrlDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.documentsService.createDownloadUrl(id, createDownloadUrlDto, userId, userRoles);
+  }
+
   @Get(':id/download')
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Download a document file' })
+  @ApiOperation({
+    summary: 'Download a document file',
+    description: 'Supports single byte ranges (Range, If-Range) and conditional requests (If-None-Match, If-Modified-Since)',
+  })
+  @ApiQuery({ name: 'inline', required: false, type: Boolean, description: 'Show the file in the browser instead of downloading it' })
   @ApiResponse({ status: 200, description: 'File download' })
+  @ApiResponse({ status: 206, description: 'Requested byte range of the file' })
+  @ApiResponse({ status: 304, description: 'File has not changed since the cached copy' })
   @ApiResponse({ status: 404, description: 'Document or file not found' })
-  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 403, description: 'Access denied or file quarantined as malware' })
+  @ApiResponse({ status: 409, description: 'File has not passed the malware scan yet' })
+  @ApiResponse({ status: 416, description: 'Requested range is outside the file' })
   async downloadFile(
     @Param('id', ParseIntPipe) id: number,
     @Request() req,
     @Res() res: Response,
+    @Query('inline', new ParseBoolPipe({ optional: true })) inline?: boolean,
   ) {
     const userId = req.user.userId;
     const userRoles = req.user.roles;
-    const { filePath, fileName } = await this.documentsService.downloadFile(
+    const download = await this.documentsService.downloadFile(
       id,
       userId,
       userRoles,
     );
 
-    res.download(filePath, fileName);
+    await sendFileDownload(req, res, download, inline);
   }
 }
@@ -1,13 +1,88 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { MulterModule } from '@nestjs/platform-express';
+import { ConfigService } from '@nestjs/config';
 import { DocumentsService } from './documents.service';
 import { DocumentsController } from './documents.controller';
+import { PublicDocumentsController } from './public-documents.controller';
+import { DocumentVersionsService } from './document-versions.service';
+import { DocumentWorkflowService } from './document-workflow.service';
+import { DocumentSharesService } from './document-shares.service';
+import { DocumentShareLinksService } from './document-share-links.service';
+import { DocumentScanService } from './document-scan.service';
+import { DocumentDownloadUrlsService } from './document-download-urls.service';
+import { DocumentThumbnailsService } from './document-thumbnails.service';
+import { TrashPurgeScheduler } from './trash-purge.scheduler';
+import { DocumentScanScheduler } from './document-scan.scheduler';
 import { Document } from './entities/document.entity';
+import { DocumentVersion } from './entities/document-version.entity';
+import { DocumentTransition } from './entities/document-transition.entity';
+import { DocumentPermission } from './entities/document-permission.entity';
+import { DocumentShareLink } from './entities/document-share-link.entity';
+import { DocumentDownloadUrl } from './entities/document-download-url.entity';
+import { Users } from '../users/entities/user.entity';
+import { TagsModule } from '../tags/tags.module';
+import { FoldersModule } from '../folders/folders.module';
+import { StorageModule } from '../storage/storage.module';
+import { ScanningModule } from '../scanning/scanning.module';
+import { PreviewsModule } from '../previews/previews.module';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from '../storage/storage-provider.interface';
+import { StreamingStorageEngine } from '../storage/streaming-storage.engine';
+import { checkUploadType, getMaxUploadBytes } from '../storage/upload-limits';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Document])],
-  controllers: [DocumentsController],
-  providers: [DocumentsService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Document,
+      DocumentVersion,
+      DocumentTransition,
+      DocumentPermission,
+      DocumentShareLink,
+      DocumentDownloadUrl,
+      Users,
+    ]),
+    TagsModule,
+    FoldersModule,
+    StorageModule,
+    ScanningModule,
+    PreviewsModule,
+    // Uploads stream into the storage backend with a size limit and type
+    // allowlist per role
+    MulterModule.registerAsync({
+      imports: [StorageModule],
+      inject: [STORAGE_PROVIDER, ConfigService],
+      useFactory: (storage: StorageProvider, configService: ConfigService) => ({
+        storage: new StreamingStorageEngine(storage, {
+          keyPrefix: 'documents',
+          maxFileSize: (req: any) =>
+            getMaxUploadBytes(configService, req.user?.roles),
+          inspect: (req: any, file, head) =>
+            checkUploadType(
+              configService,
+              req.user?.roles,
+              file.originalname,
+              head,
+            ),
+        }),
+      }),
+    }),
+  ],
+  controllers: [DocumentsController, PublicDocumentsController],
+  providers: [
+    DocumentsService,
+    DocumentVersionsService,
+    DocumentWorkflowService,
+    DocumentSharesService,
+    DocumentShareLinksService,
+    DocumentScanService,
+    DocumentDownloadUrlsService,
+    DocumentThumbnailsService,
+    TrashPurgeScheduler,
+    DocumentScanScheduler,
+  ],
   exports: [DocumentsService],
 })
 export class DocumentsModule {}
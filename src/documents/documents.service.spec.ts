@@ -1,51 +1,77 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
 import { DocumentsService } from './documents.service';
-import { Document } from './entities/document.entity';
+import { Document, DocumentStatus } from './entities/document.entity';
 import { CreateDocumentDto } from './dto/create-document.dto';
 import { UpdateDocumentDto } from './dto/update-document.dto';
-import { User } from '../users/entities/user.entity';
+import { Users } from '../users/entities/user.entity';
 import { UserRole } from '../common/constants';
-import { NotFoundException, ForbiddenException } from '@nestjs/common';
-import * as fs from 'fs';
-import * as path from 'path';
-
-// Mock fs module
-jest.mock('fs');
-jest.mock('path');
+import {
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { DocumentVersionsService } from './document-versions.service';
+import { DocumentWorkflowService } from './document-workflow.service';
+import { DocumentSharesService } from './document-shares.service';
+import { DocumentShareLinksService } from './document-share-links.service';
+import { DocumentScanService } from './document-scan.service';
+import { DocumentDownloadUrlsService } from './document-download-urls.service';
+import { DocumentThumbnailsService } from './document-thumbnails.service';
+import { TagsService } from '../tags/tags.service';
+import { FoldersService } from '../folders/folders.service';
+import { STORAGE_PROVIDER } from '../storage/storage-provider.interface';
+import { DOCUMENT_ACCESS_CONDITION } from './document-access';
+
+const QUERY_BUILDER_METHODS = [
+  'leftJoinAndSelect',
+  'leftJoinAndMapOne',
+  'withDeleted',
+  'select',
+  'addSelect',
+  'where',
+  'andWhere',
+  'groupBy',
+  'addGroupBy',
+  'orderBy',
+  'addOrderBy',
+  'limit',
+  'skip',
+  'take',
+  'clone',
+  'update',
+  'set',
+  'returning',
+];
 
 describe('DocumentsService', () => {
   let service: DocumentsService;
-  let repository: Repository<Document>;
+  let mockQueryBuilder: any;
 
-  const mockUser: User = {
+  const mockUser = {
     id: 1,
     email: 'test@example.com',
-    password: 'password123',
     roles: [UserRole.EDITOR],
-    createdDocuments: [],
-    updatedDocuments: [],
-  };
+  } as Users;
 
-  const mockDocument: Document = {
+  const mockDocument = {
     id: 1,
     title: 'Test Document',
     description: 'Test description',
     fileName: 'test.pdf',
     originalFileName: 'test.pdf',
-    filePath: '/uploads/test.pdf',
+    storageKey: 'documents/test.pdf',
     fileSize: 1024,
     mimeType: 'application/pdf',
     content: 'Test content',
-    status: 'draft',
-    createdBy: mockUser,
+    status: DocumentStatus.DRAFT,
+    currentVersion: 1,
     createdById: mockUser.id,
-    updatedBy: null,
     updatedById: null,
     createdAt: new Date(),
     updatedAt: new Date(),
-  };
+  } as Document;
 
   const mockCreateDocumentDto: CreateDocumentDto = {
     title: 'New Document',
@@ -58,29 +84,81 @@ describe('DocumentsService', () => {
     description: 'Updated description',
   };
 
+  const mockManager = {
+    createQueryBuilder: jest.fn(),
+    save: jest.fn(),
+  };
+
   const mockRepository = {
     create: jest.fn(),
-    save: jest.fn(),
     find: jest.fn(),
-    findOne: jest.fn(),
     update: jest.fn(),
-    remove: jest.fn(),
     createQueryBuilder: jest.fn(),
+    manager: {
+      transaction: jest.fn((work) => work(mockManager)),
+    },
+  };
+
+  const mockDocumentVersionsService = {
+    recordVersion: jest.fn(),
+    ensureCurrentVersionRecorded: jest.fn(),
+  };
+
+  const mockDocumentDownloadUrlsService = {
+    revokeForDocument: jest.fn(),
+  };
+
+  const mockTagsService = {
+    attachTags: jest.fn(),
+  };
+
+  const mockFoldersService = {
+    findAccessLevels: jest.fn(),
   };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         DocumentsService,
+        { provide: getRepositoryToken(Document), useValue: mockRepository },
+        { provide: getRepositoryToken(Users), useValue: {} },
+        {
+          provide: DocumentVersionsService,
+          useValue: mockDocumentVersionsService,
+        },
+        { provide: DocumentWorkflowService, useValue: {} },
+        { provide: DocumentSharesService, useValue: {} },
+        { provide: DocumentShareLinksService, useValue: {} },
+        { provide: DocumentScanService, useValue: {} },
         {
-          provide: getRepositoryToken(Document),
-          useValue: mockRepository,
+          provide: DocumentDownloadUrlsService,
+          useValue: mockDocumentDownloadUrlsService,
         },
+        { provide: DocumentThumbnailsService, useValue: {} },
+        { provide: TagsService, useValue: mockTagsService },
+        { provide: FoldersService, useValue: mockFoldersService },
+        { provide: STORAGE_PROVIDER, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
       ],
     }).compile();
 
     service = module.get<DocumentsService>(DocumentsService);
-    repository = module.get<Repository<Document>>(getRepositoryToken(Document));
+
+    mockQueryBuilder = {
+      getOne: jest.fn(),
+      getMany: jest.fn().mockResolvedValue([]),
+      getManyAndCount: jest.fn().mockResolvedValue([[], 0]),
+      getRawMany: jest.fn().mockResolvedValue([]),
+      execute: jest.fn(),
+    };
+    for (const method of QUERY_BUILDER_METHODS) {
+      mockQueryBuilder[method] = jest.fn().mockReturnThis();
+    }
+
+    mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+    mockManager.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+    mockManager.save.mockImplementation(async (document) => document);
+    mockFoldersService.findAccessLevels.mockResolvedValue(new Map());
   });
 
   afterEach(() => {
@@ -88,312 +166,141 @@ describe('DocumentsService', () => {
   });
 
   describe('create', () => {
-    it('should create a new document successfully', async () => {
-      const newDocument = { ...mockDocument, id: 2, title: mockCreateDocumentDto.title };
-
+    it('should save a new document and record its first version', async () => {
+      const newDocument = {
+        ...mockDocument,
+        id: undefined,
+        title: mockCreateDocumentDto.title,
+      } as Document;
       mockRepository.create.mockReturnValue(newDocument);
-      mockRepository.save.mockResolvedValue(newDocument);
 
       const result = await service.create(mockCreateDocumentDto, mockUser.id);
 
       expect(mockRepository.create).toHaveBeenCalledWith({
         ...mockCreateDocumentDto,
         createdById: mockUser.id,
-        status: 'draft',
-      });
-      expect(mockRepository.save).toHaveBeenCalledWith(newDocument);
-      expect(result).toEqual(newDocument);
-    });
-
-    it('should create a document with file upload', async () => {
-      const mockFile = {
-        originalname: 'test.pdf',
-        buffer: Buffer.from('test content'),
-        size: 1024,
-        mimetype: 'application/pdf',
-      };
-      const newDocument = { ...mockDocument, id: 2, title: mockCreateDocumentDto.title };
-
-      mockRepository.create.mockReturnValue(newDocument);
-      mockRepository.save.mockResolvedValue(newDocument);
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-      (fs.mkdirSync as jest.Mock).mockImplementation(() => {});
-      (fs.writeFileSync as jest.Mock).mockImplementation(() => {});
-
-      const result = await service.create(mockCreateDocumentDto, mockUser.id, mockFile);
-
-      expect(fs.mkdirSync).toHaveBeenCalled();
-      expect(fs.writeFileSync).toHaveBeenCalled();
-      expect(mockRepository.save).toHaveBeenCalledWith(newDocument);
-      expect(result).toEqual(newDocument);
-    });
-  });
-
-  describe('findUserDocuments', () => {
-    it('should return user documents', async () => {
-      const documents = [mockDocument];
-      mockRepository.find.mockResolvedValue(documents);
-
-      const result = await service.findUserDocuments();
-
-      expect(mockRepository.find).toHaveBeenCalledWith({
-        where: {  },
-        relations: ['createdBy', 'updatedBy'],
-        order: { createdAt: 'DESC' },
-      });
-      expect(result).toEqual(documents);
-    });
-  });
-
-  describe('searchUserDocuments', () => {
-    it('should return paginated documents with search and filters', async () => {
-      const userId = 1;
-      const searchParams = {
-        search: 'test',
-        page: 1,
-        limit: 10,
-        sortBy: 'title',
-        sortOrder: 'ASC' as const
-      };
-
-      const mockDocuments = [
-        {
-          id: 1,
-          title: 'Test Document',
-          description: 'Test description',
-          content: 'Test content',
-          status: 'published',
-          filePath: '/path/to/file.pdf',
-          createdById: userId,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
-      ];
-
-      const mockQueryBuilder = {
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([mockDocuments, 1])
-      };
-
-      mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
-
-      const result = await service.searchUserDocuments(userId, searchParams);
-
-      expect(result).toEqual({
-        documents: mockDocuments,
-        total: 1,
-        page: 1,
-        limit: 10,
-        totalPages: 1
+        status: DocumentStatus.DRAFT,
       });
-
-      expect(mockRepository.createQueryBuilder).toHaveBeenCalledWith('document');
-      expect(mockQueryBuilder.leftJoinAndSelect).toHaveBeenCalledWith('document.createdBy', 'createdBy');
-      expect(mockQueryBuilder.leftJoinAndSelect).toHaveBeenCalledWith('document.updatedBy', 'updatedBy');
-      expect(mockQueryBuilder.where).toHaveBeenCalledWith('document.createdById = :userId', { userId });
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
-        '(document.title ILIKE :search OR document.description ILIKE :search OR document.content ILIKE :search)',
-        { search: '%test%' }
+      expect(mockQueryBuilder.update).not.toHaveBeenCalled();
+      expect(mockManager.save).toHaveBeenCalledWith(newDocument);
+      expect(mockDocumentVersionsService.recordVersion).toHaveBeenCalledWith(
+        newDocument,
+        mockUser.id,
+        undefined,
+        mockManager,
       );
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('document.status = :status', { status: 'published' });
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('document.filePath IS NOT NULL');
-      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('document.title', 'ASC');
-      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(0);
-      expect(mockQueryBuilder.take).toHaveBeenCalledWith(10);
-    });
-
-    it('should handle documents without files filter', async () => {
-      const userId = 1;
-      const searchParams = {
-        page: 1,
-        limit: 5
-      };
-
-      const mockQueryBuilder = {
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([[], 0])
-      };
-
-      mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
-
-      const result = await service.searchUserDocuments(userId, searchParams);
-
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('document.filePath IS NULL');
-      expect(result.totalPages).toBe(0);
-    });
-
-    it('should use default values when search params are not provided', async () => {
-      const userId = 1;
-      const searchParams = {};
-
-      const mockQueryBuilder = {
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([[], 0])
-      };
-
-      mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
-
-      await service.searchUserDocuments(userId, searchParams);
-
-      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('document.createdAt', 'DESC');
-      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(0);
-      expect(mockQueryBuilder.take).toHaveBeenCalledWith(10);
-    });
-
-    it('should handle pagination correctly', async () => {
-      const userId = 1;
-      const searchParams = {
-        page: 2,
-        limit: 5
-      };
-
-      const mockQueryBuilder = {
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([[], 25])
-      };
-
-      mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
-
-      const result = await service.searchUserDocuments(userId, searchParams);
-
-      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(5);
-      expect(mockQueryBuilder.take).toHaveBeenCalledWith(5);
-      expect(result.totalPages).toBe(5);
+      expect(result).toBe(newDocument);
     });
   });
 
   describe('findOne', () => {
     it('should return a document by id', async () => {
-      mockRepository.findOne.mockResolvedValue(mockDocument);
+      mockQueryBuilder.getOne.mockResolvedValue({ ...mockDocument });
 
-      const result = await service.findOne(mockDocument.id, mockUser.id, [UserRole.ADMIN]);
+      const result = await service.findOne(mockDocument.id, mockUser.id, [
+        UserRole.ADMIN,
+      ]);
 
-      expect(mockRepository.findOne).toHaveBeenCalledWith({
-        where: { id: mockDocument.id },
-        relations: ['createdBy', 'updatedBy'],
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith('document.id = :id', {
+        id: mockDocument.id,
       });
       expect(result).toEqual(mockDocument);
     });
 
     it('should throw NotFoundException if document not found', async () => {
-      mockRepository.findOne.mockResolvedValue(null);
+      mockQueryBuilder.getOne.mockResolvedValue(null);
 
-      await expect(service.findOne(999, mockUser.id, [UserRole.ADMIN])).rejects.toThrow(NotFoundException);
+      await expect(
+        service.findOne(999, mockUser.id, [UserRole.ADMIN]),
+      ).rejects.toThrow(NotFoundException);
     });
 
     it('should throw ForbiddenException if user cannot access document', async () => {
-      const privateDocument = { ...mockDocument, createdById: 999 };
-      mockRepository.findOne.mockResolvedValue(privateDocument);
+      mockQueryBuilder.getOne.mockResolvedValue({
+        ...mockDocument,
+        createdById: 999,
+      });
 
-      await expect(service.findOne(mockDocument.id, mockUser.id, [UserRole.VIEWER])).rejects.toThrow(ForbiddenException);
+      await expect(
+        service.findOne(mockDocument.id, mockUser.id, [UserRole.VIEWER]),
+      ).rejects.toThrow(ForbiddenException);
     });
   });
 
   describe('update', () => {
-    it('should update a document successfully', async () => {
-      const updatedDocument = { ...mockDocument, ...mockUpdateDocumentDto };
-      updatedDocument.updatedById = mockUser.id;
-
-      mockRepository.findOne.mockResolvedValue(mockDocument);
-      mockRepository.save.mockResolvedValue(updatedDocument);
-
-      const result = await service.update(mockDocument.id, mockUpdateDocumentDto, mockUser.id, [UserRole.ADMIN]);
+    it('should take the next version number from the database', async () => {
+      mockQueryBuilder.getOne.mockResolvedValue({ ...mockDocument });
+      mockQueryBuilder.execute.mockResolvedValue({
+        raw: [{ currentVersion: 3 }],
+      });
 
-      expect(mockRepository.save).toHaveBeenCalledWith(updatedDocument);
-      expect(result).toEqual(updatedDocument);
-    });
+      const result = await service.update(
+        mockDocument.id,
+        mockUpdateDocumentDto,
+        mockUser.id,
+        [UserRole.ADMIN],
+      );
 
-    it('should update a document with file upload', async () => {
-      const mockFile = {
-        originalname: 'updated.pdf',
-        buffer: Buffer.from('updated content'),
-        size: 2048,
-        mimetype: 'application/pdf',
-      };
-      const updatedDocument = { ...mockDocument, ...mockUpdateDocumentDto };
-      updatedDocument.updatedById = mockUser.id;
-
-      mockRepository.findOne.mockResolvedValue(mockDocument);
-      mockRepository.save.mockResolvedValue(updatedDocument);
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-      (fs.mkdirSync as jest.Mock).mockImplementation(() => {});
-      (fs.writeFileSync as jest.Mock).mockImplementation(() => {});
-
-      const result = await service.update(mockDocument.id, mockUpdateDocumentDto, mockUser.id, [UserRole.ADMIN], mockFile);
-
-      expect(fs.mkdirSync).toHaveBeenCalled();
-      expect(fs.writeFileSync).toHaveBeenCalled();
-      expect(mockRepository.save).toHaveBeenCalledWith(updatedDocument);
-      expect(result).toEqual(updatedDocument);
+      expect(mockQueryBuilder.set).toHaveBeenCalledWith({
+        currentVersion: expect.any(Function),
+      });
+      expect(mockQueryBuilder.returning).toHaveBeenCalledWith([
+        'currentVersion',
+      ]);
+      expect(result).toMatchObject({
+        ...mockUpdateDocumentDto,
+        updatedById: mockUser.id,
+        currentVersion: 3,
+      });
+      expect(mockDocumentVersionsService.recordVersion).toHaveBeenCalledWith(
+        result,
+        mockUser.id,
+        undefined,
+        mockManager,
+      );
     });
 
     it('should throw ForbiddenException if user cannot edit document', async () => {
-      const privateDocument = { ...mockDocument, createdById: 999 };
-      mockRepository.findOne.mockResolvedValue(privateDocument);
+      mockQueryBuilder.getOne.mockResolvedValue({
+        ...mockDocument,
+        createdById: 999,
+        isPublic: true,
+      });
 
-      await expect(service.update(mockDocument.id, mockUpdateDocumentDto, mockUser.id, [UserRole.VIEWER])).rejects.toThrow(ForbiddenException);
+      await expect(
+        service.update(mockDocument.id, mockUpdateDocumentDto, mockUser.id, [
+          UserRole.VIEWER,
+        ]),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockManager.save).not.toHaveBeenCalled();
     });
   });
 
   describe('remove', () => {
-    it('should remove a document successfully', async () => {
-      mockRepository.findOne.mockResolvedValue(mockDocument);
-      mockRepository.remove.mockResolvedValue(mockDocument);
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-      (fs.unlinkSync as jest.Mock).mockImplementation(() => {});
+    it('should move the document to the trash and revoke its download URLs', async () => {
+      mockQueryBuilder.getOne.mockResolvedValue({ ...mockDocument });
 
       await service.remove(mockDocument.id, mockUser.id, [UserRole.ADMIN]);
 
-      expect(fs.unlinkSync).toHaveBeenCalledWith(mockDocument.filePath);
-      expect(mockRepository.remove).toHaveBeenCalledWith(mockDocument);
+      expect(mockRepository.update).toHaveBeenCalledWith(mockDocument.id, {
+        deletedAt: expect.any(Date),
+        deletedById: mockUser.id,
+      });
+      expect(
+        mockDocumentDownloadUrlsService.revokeForDocument,
+      ).toHaveBeenCalledWith(mockDocument.id);
     });
 
     it('should throw ForbiddenException if user cannot delete document', async () => {
-      const privateDocument = { ...mockDocument, createdById: 999 };
-      mockRepository.findOne.mockResolvedValue(privateDocument);
-
-      await expect(service.remove(mockDocument.id, mockUser.id, [UserRole.VIEWER])).rejects.toThrow(ForbiddenException);
-    });
-  });
-
-  describe('downloadFile', () => {
-    it('should return file download info', async () => {
-      mockRepository.findOne.mockResolvedValue(mockDocument);
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-
-      const result = await service.downloadFile(mockDocument.id, mockUser.id, [UserRole.ADMIN]);
-
-      expect(result).toEqual({
-        filePath: mockDocument.filePath,
-        fileName: mockDocument.originalFileName,
+      mockQueryBuilder.getOne.mockResolvedValue({
+        ...mockDocument,
+        createdById: 999,
       });
-    });
-
-    it('should throw NotFoundException if file does not exist', async () => {
-      mockRepository.findOne.mockResolvedValue(mockDocument);
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
 
-      await expect(service.downloadFile(mockDocument.id, mockUser.id, [UserRole.ADMIN])).rejects.toThrow(NotFoundException);
+      await expect(
+        service.remove(mockDocument.id, mockUser.id, [UserRole.VIEWER]),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockRepository.update).not.toHaveBeenCalled();
     });
   });
 
@@ -402,7 +309,9 @@ describe('DocumentsService', () => {
       const documents = [mockDocument];
       mockRepository.find.mockResolvedValue(documents);
 
-      const result = await service.findAllDocuments(mockUser.id, [UserRole.ADMIN]);
+      const result = await service.findAllDocuments(mockUser.id, [
+        UserRole.ADMIN,
+      ]);
 
       expect(mockRepository.find).toHaveBeenCalledWith({
         relations: ['createdBy', 'updatedBy'],
@@ -411,167 +320,238 @@ describe('DocumentsService', () => {
       expect(result).toEqual(documents);
     });
 
-    it('should return only user documents for regular user', async () => {
-      const documents = [mockDocument];
-      mockRepository.find.mockResolvedValue(documents);
+    it('should return owned, public and shared documents for regular user', async () => {
+      mockRepository.find.mockResolvedValue([mockDocument]);
 
-      const result = await service.findAllDocuments(mockUser.id, [UserRole.EDITOR]);
+      await service.findAllDocuments(mockUser.id, [UserRole.EDITOR]);
 
-      expect(mockRepository.find).toHaveBeenCalledWith({
-        where: { createdById: mockUser.id },
-        relations: ['createdBy', 'updatedBy'],
-        order: { createdAt: 'DESC' },
-      });
-      expect(result).toEqual(documents);
+      expect(mockRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: [
+            { createdById: mockUser.id },
+            { isPublic: true },
+            { permissions: { userId: mockUser.id } },
+          ],
+        }),
+      );
     });
   });
 
   describe('searchAllDocuments', () => {
-    it('should return paginated documents with search and filters for admin', async () => {
-      const currentUserId = 1;
-      const searchParams = {
-        search: 'test',
-        userId: 2,
-        page: 1,
-        limit: 10,
-        sortBy: 'title',
-        sortOrder: 'ASC' as const
-      };
+    it('should return paginated documents with facets for admin', async () => {
+      mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockDocument], 1]);
 
-      const mockDocuments = [
-        {
-          id: 1,
-          title: 'Test Document',
-          description: 'Test description',
-          content: 'Test content',
-          status: 'published',
-          filePath: '/path/to/file.pdf',
-          createdById: 2,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
-      ];
-
-      const mockQueryBuilder = {
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([mockDocuments, 1])
-      };
-
-      mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
-
-      const result = await service.searchAllDocuments(currentUserId, [UserRole.ADMIN], searchParams);
+      const result = await service.searchAllDocuments(
+        mockUser.id,
+        [UserRole.ADMIN],
+        { userId: 2, page: 1, limit: 10 },
+      );
 
-      expect(result).toEqual({
-        documents: mockDocuments,
+      expect(result).toMatchObject({
+        documents: [mockDocument],
         total: 1,
         page: 1,
         limit: 10,
-        totalPages: 1
+        totalPages: 1,
       });
-
-      expect(mockRepository.createQueryBuilder).toHaveBeenCalledWith('document');
-      expect(mockQueryBuilder.leftJoinAndSelect).toHaveBeenCalledWith('document.createdBy', 'createdBy');
-      expect(mockQueryBuilder.leftJoinAndSelect).toHaveBeenCalledWith('document.updatedBy', 'updatedBy');
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('document.createdById = :userId', { userId: 2 });
+      expect(mockQueryBuilder.where).not.toHaveBeenCalled();
       expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
-        '(document.title ILIKE :search OR document.description ILIKE :search OR document.content ILIKE :search)',
-        { search: '%test%' }
+        'document.createdById = :userId',
+        { userId: 2 },
+      );
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        'document.createdAt',
+        'DESC',
       );
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('document.status = :status', { status: 'published' });
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('document.filePath IS NOT NULL');
-      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('document.title', 'ASC');
       expect(mockQueryBuilder.skip).toHaveBeenCalledWith(0);
       expect(mockQueryBuilder.take).toHaveBeenCalledWith(10);
+      expect(mockTagsService.attachTags).toHaveBeenCalledWith([mockDocument]);
     });
 
-    it('should return only user documents for regular user', async () => {
-      const currentUserId = 1;
-      const searchParams = {
-        search: 'test',
-        page: 1,
-        limit: 5
-      };
+    it('should limit regular users to documents they can access', async () => {
+      await service.searchAllDocuments(mockUser.id, [UserRole.EDITOR], {});
 
-      const mockQueryBuilder = {
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([[], 0])
-      };
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        DOCUMENT_ACCESS_CONDITION,
+        { currentUserId: mockUser.id },
+      );
+    });
 
-      mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+    it('should throw ForbiddenException when regular user tries to filter by other user ID', async () => {
+      await expect(
+        service.searchAllDocuments(mockUser.id, [UserRole.EDITOR], {
+          userId: 2,
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
 
-      await service.searchAllDocuments(currentUserId, [UserRole.EDITOR], searchParams);
+    it('should match the search against the search vector', async () => {
+      await service.searchAllDocuments(mockUser.id, [UserRole.ADMIN], {
+        search: '"annual report" -draft',
+      });
 
-      expect(mockQueryBuilder.where).toHaveBeenCalledWith('document.createdById = :currentUserId', { currentUserId });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        "document.searchVector @@ websearch_to_tsquery('english', :search)",
+        { search: '"annual report" -draft' },
+      );
+      expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith(
+        expect.stringContaining('ts_rank_cd'),
+        'search_rank',
+      );
     });
 
-    it('should allow regular user to filter by their own user ID', async () => {
-      const currentUserId = 1;
-      const searchParams = {
-        userId: 1,
-        page: 1,
-        limit: 5
-      };
+    it('should sort search results by relevance', async () => {
+      await service.searchAllDocuments(mockUser.id, [UserRole.ADMIN], {
+        search: 'invoice',
+        sortBy: 'relevance',
+      });
 
-      const mockQueryBuilder = {
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([[], 0])
-      };
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        'search_rank',
+        'DESC',
+      );
+      expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'document.createdAt',
+        'DESC',
+      );
+    });
 
-      mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+    it('should fall back to the creation date when sorting by relevance without a search', async () => {
+      await service.searchAllDocuments(mockUser.id, [UserRole.ADMIN], {
+        sortBy: 'relevance',
+        sortOrder: 'ASC',
+      });
 
-      await service.searchAllDocuments(currentUserId, [UserRole.EDITOR], searchParams);
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        'document.createdAt',
+        'ASC',
+      );
+    });
 
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('document.createdById = :userId', { userId: 1 });
+    it('should reject a minimum size above the maximum size', async () => {
+      await expect(
+        service.searchAllDocuments(mockUser.id, [UserRole.ADMIN], {
+          minSize: 2048,
+          maxSize: 1024,
+        }),
+      ).rejects.toThrow(BadRequestException);
     });
 
-    it('should throw ForbiddenException when regular user tries to filter by other user ID', async () => {
-      const currentUserId = 1;
-      const searchParams = {
-        userId: 2,
-        page: 1,
-        limit: 5
-      };
+    it('should reject a date range that ends before it starts', async () => {
+      await expect(
+        service.searchAllDocuments(mockUser.id, [UserRole.ADMIN], {
+          createdFrom: '2024-02-01',
+          createdTo: '2024-01-31',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
 
-      await expect(service.searchAllDocuments(currentUserId, [UserRole.EDITOR], searchParams))
-        .rejects.toThrow(ForbiddenException);
+    it('should include the whole day of a date-only range end', async () => {
+      await service.searchAllDocuments(mockUser.id, [UserRole.ADMIN], {
+        updatedFrom: '2024-01-31',
+        updatedTo: '2024-01-31',
+      });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'document.updatedAt >= :updatedAtFrom',
+        {
+          updatedAtFrom: new Date('2024-01-31T00:00:00.000Z'),
+        },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'document.updatedAt <= :updatedAtTo',
+        {
+          updatedAtTo: new Date('2024-01-31T23:59:59.999Z'),
+        },
+      );
     });
 
-    it('should use default values when search params are not provided', async () => {
-      const currentUserId = 1;
-      const searchParams = {};
+    it('should match MIME type wildcards by prefix', async () => {
+      await service.searchAllDocuments(mockUser.id, [UserRole.ADMIN], {
+        mimeType: 'image/*',
+      });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'document.mimeType LIKE :mimeTypePrefix',
+        { mimeTypePrefix: 'image/%' },
+      );
+    });
 
-      const mockQueryBuilder = {
-        leftJoinAndSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        orderBy: jest.fn().mockReturnThis(),
-        skip: jest.fn().mockReturnThis(),
-        take: jest.fn().mockReturnThis(),
-        getManyAndCount: jest.fn().mockResolvedValue([[], 0])
-      };
+    it('should require every tag with tagMode=all', async () => {
+      await service.searchAllDocuments(mockUser.id, [UserRole.ADMIN], {
+        tags: ['Invoice', 'urgent', 'invoice'],
+        tagMode: 'all',
+      });
 
-      mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringMatching(/^\(SELECT COUNT\(\*\) .* = :tagCount$/),
+        { tagNames: ['invoice', 'urgent'], tagCount: 2 },
+      );
+    });
 
-      await service.searchAllDocuments(currentUserId, [UserRole.ADMIN], searchParams);
+    it('should count the filtered documents per status, MIME type and creator', async () => {
+      mockQueryBuilder.getRawMany
+        .mockResolvedValueOnce([{ value: DocumentStatus.DRAFT, count: '2' }])
+        .mockResolvedValueOnce([{ value: 'application/pdf', count: '2' }])
+        .mockResolvedValueOnce([
+          { userId: 1, email: 'test@example.com', count: '2' },
+        ]);
+
+      const result = await service.searchAllDocuments(
+        mockUser.id,
+        [UserRole.ADMIN],
+        {},
+      );
 
-      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('document.createdAt', 'DESC');
-      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(0);
-      expect(mockQueryBuilder.take).toHaveBeenCalledWith(10);
+      expect(result.facets).toEqual({
+        status: [{ value: DocumentStatus.DRAFT, count: 2 }],
+        mimeType: [{ value: 'application/pdf', count: 2 }],
+        createdBy: [{ userId: 1, email: 'test@example.com', count: 2 }],
+      });
+    });
+
+    it('should skip counts and facets when withTotal is false', async () => {
+      mockQueryBuilder.getMany.mockResolvedValue([mockDocument, mockDocument]);
+
+      const result = await service.searchAllDocuments(
+        mockUser.id,
+        [UserRole.ADMIN],
+        { limit: 1, withTotal: false },
+      );
+
+      expect(result).toEqual({
+        documents: [mockDocument],
+        page: 1,
+        limit: 1,
+        hasMore: true,
+      });
+      expect(mockQueryBuilder.getRawMany).not.toHaveBeenCalled();
+      expect(mockQueryBuilder.getManyAndCount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchUserDocuments', () => {
+    it('should search the documents of the user', async () => {
+      const userId = 1;
+      mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 25]);
+
+      const result = await service.searchUserDocuments(userId, {
+        search: 'test',
+        page: 2,
+        limit: 5,
+      });
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        'document.createdById = :userId',
+        { userId },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        "document.searchVector @@ websearch_to_tsquery('english', :search)",
+        { search: 'test' },
+      );
+      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(5);
+      expect(mockQueryBuilder.take).toHaveBeenCalledWith(5);
+      expect(result.totalPages).toBe(5);
     });
   });
-}); 
\ No newline at end of file
+});
@@ -1,33 +1,108 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Injectable, Inject, NotFoundException, ForbiddenException, BadRequestException, ConflictException, OnModuleInit, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Document } from './entities/document.entity';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan, Not, In, SelectQueryBuilder } from 'typeorm';
+import { Document, DocumentScanStatus, DocumentStatus } from './entities/document.entity';
 import { CreateDocumentDto } from './dto/create-document.dto';
 import { UpdateDocumentDto } from './dto/update-document.dto';
-import * as fs from 'fs';
-import * as path from 'path';
-import { v4 as uuidv4 } from 'uuid';
+import { SearchDocumentsDto } from './dto/search-documents.dto';
+import { DocumentVersionsService } from './document-versions.service';
+import { DocumentWorkflowService } from './document-workflow.service';
+import { DocumentAction } from './entities/document-transition.entity';
+import { DocumentSharesService } from './document-shares.service';
+import { DocumentPermission, DocumentPermissionLevel, PERMISSION_LEVEL_RANK } from './entities/document-permission.entity';
+import { ShareDocumentDto } from './dto/share-document.dto';
+import { DocumentShareLinksService } from './document-share-links.service';
+import { DocumentScanService } from './document-scan.service';
+import { DocumentDownloadUrlsService } from './document-download-urls.service';
+import { DocumentThumbnailsService } from './document-thumbnails.service';
+import { CreateDownloadUrlDto } from './dto/create-download-url.dto';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { Users } from '../users/entities/user.entity';
+import { TagsService } from '../tags/tags.service';
+import { FoldersService } from '../folders/folders.service';
+import { STORAGE_PROVIDER, StorageProvider } from '../storage/storage-provider.interface';
+import { FileDownload } from './file-download';
+import { DOCUMENT_ACCESS_CONDITION } from './document-access';
+import { isCursorPagination, paginateByCursor } from '../common/pagination/cursor-pagination';
+
+// Postgres text search configuration used for the search vector and queries
+const SEARCH_CONFIG = 'english';
+
+const SEARCH_RANK_EXPRESSION = `ts_rank_cd(document.searchVector, websearch_to_tsquery('${SEARCH_CONFIG}', :search))`;
+
+// Maximum number of buckets returned for the MIME type and creator facets
+const FACET_LIMIT = 20;
 
 @Injectable()
-export class DocumentsService {
+export class DocumentsService implements OnModuleInit {
+  private readonly logger = new Logger(DocumentsService.name);
+
   constructor(
     @InjectRepository(Document)
-    private documentsRepository: Repository<Document>
+    private documentsRepository: Repository<Document>,
+    @InjectRepository(Users)
+    private usersRepository: Repository<Users>,
+    private documentVersionsService: DocumentVersionsService,
+    private documentWorkflowService: DocumentWorkflowService,
+    private documentSharesService: DocumentSharesService,
+    private documentShareLinksService: DocumentShareLinksService,
+    private documentScanService: DocumentScanService,
+    private documentDownloadUrlsService: DocumentDownloadUrlsService,
+    private documentThumbnailsService: DocumentThumbnailsService,
+    private tagsService: TagsService,
+    private foldersService: FoldersService,
+    @Inject(STORAGE_PROVIDER)
+    private storage: StorageProvider,
+    private configService: ConfigService
   ) {}
 
-  async create(createDocumentDto: CreateDocumentDto, userId: number, file?: any): Promise<Document> {
+  async onModuleInit(): Promise<void> {
+    // TypeORM cannot declare GIN indexes, so the search vector index is created here
+    try {
+      await this.documentsRepository.query(
+        'CREATE INDEX IF NOT EXISTS "IDX_document_search_vector" ON "document" USING GIN ("searchVector")'
+      );
+    } catch (error) {
+      this.logger.error(`Failed to create search index: ${error.message}`);
+    }
+
+    // Rows from before storage keys held absolute paths such as /app/uploads/documents/x.pdf
+    try {
+      for (const table of ['document', 'document_versions']) {
+        await this.documentsRepository.query(
+          `UPDATE "${table}" SET "filePath" = regexp_replace("filePath", '^/(.*/)?uploads/', '') WHERE "filePath" ~ '^/(.*/)?uploads/'`
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Failed to convert file paths to storage keys: ${error.message}`);
+    }
+  }
+
+  async create(createDocumentDto: CreateDocumentDto, userId: number, file?: any, userRoles: string[] = []): Promise<Document> {
+    if (createDocumentDto.folderId) {
+      await this.foldersService.assertCanAddDocuments(createDocumentDto.folderId, userId, userRoles);
+    }
+
     const document = this.documentsRepository.create({
       ...createDocumentDto,
       createdById: userId,
-      status: 'draft'
+      status: DocumentStatus.DRAFT
     });
 
     // If file is provided, handle file upload
     if (file) {
-      await this.handleFileUpload(document, file);
+      await this.handleFileUpload(document, file, userId);
     }
 
-    return this.documentsRepository.save(document);
+    const savedDocument = await this.saveWithVersion(document, userId, file);
+
+    if (file) {
+      this.documentScanService.scanInBackground(savedDocument);
+      this.documentThumbnailsService.generateInBackground(savedDocument);
+    }
+
+    return savedDocument;
   }
 
   async findUserDocuments(): Promise<Document[]> {
@@ -57,9 +132,13 @@ export class DocumentsService {
       });
     }
 
-    // Regular users can only see their own documents
+    // Regular users see their own documents, public ones and those shared with them
     return this.documentsRepository.find({
-      where: { createdById: currentUserId },
+      where: [
+        { createdById: currentUserId },
+        { isPublic: true },
+        { permissions: { userId: currentUserId } }
+      ],
       relations: [
         'createdBy',
         'updatedBy'
@@ -70,69 +149,78 @@ export class DocumentsService {
     });
   }
 
-  async searchAllDocuments(currentUserId: number, userRoles: string[], searchParams: {
-    search?: string;
-    userId?: number;
-    page?: number;
-    limit?: number;
-    sortBy?: string;
-    sortOrder?: 'ASC' | 'DESC';
-  }) {
+  async searchAllDocuments(currentUserId: number, userRoles: string[], searchParams: SearchDocumentsDto) {
     const {
       search,
-      userId,
       page = 1,
       limit = 10,
       sortBy = 'createdAt',
       sortOrder = 'DESC'
     } = searchParams;
+    const queryBuilder = this.buildSearchQuery(currentUserId, userRoles, searchParams);
 
-    // Build query builder
-    const queryBuilder = this.documentsRepository
-      .createQueryBuilder('document')
-      .leftJoinAndSelect('document.createdBy', 'createdBy')
-      .leftJoinAndSelect('document.updatedBy', 'updatedBy');
+    // Counts cover the whole filtered set, so take them before sorting and paging
+    const withTotal = searchParams.withTotal !== false;
+    const facets = withTotal ? await this.buildFacets(queryBuilder) : undefined;
 
-    // Apply access control
-    if (!userRoles.includes('admin')) {
-      // Regular users can only see their own documents
-      queryBuilder.where('document.createdById = :currentUserId', { currentUserId });
-    }
+    if (isCursorPagination(searchParams)) {
+      const total = withTotal ? await queryBuilder.getCount() : undefined;
+      const { items, nextCursor, prevCursor } = await paginateByCursor(queryBuilder, {
+        alias: 'document',
+        ...this.resolveCursorSort(sortBy, sortOrder, !!search),
+        after: searchParams.after,
+        before: searchParams.before,
+        limit
+      });
 
-    // Add user filter (only for admins or if filtering own documents)
-    if (userId) {
-      if (userRoles.includes('admin')) {
-        // Admin can filter by any user
-        queryBuilder.andWhere('document.createdById = :userId', { userId });
-      } else if (userId === currentUserId) {
-        // Regular users can only filter by their own user ID
-        queryBuilder.andWhere('document.createdById = :userId', { userId });
-      } else {
-        // Regular users cannot filter by other user IDs
-        throw new ForbiddenException('You can only filter by your own user ID');
+      if (search) {
+        await this.attachSearchHighlights(items, search);
       }
-    }
+      await this.tagsService.attachTags(items);
 
-    // Add search filter
-    if (search) {
-      queryBuilder.andWhere(
-        '(document.title ILIKE :search OR document.description ILIKE :search OR document.content ILIKE :search)',
-        { search: `%${search}%` }
-      );
+      return {
+        documents: items,
+        limit,
+        nextCursor,
+        prevCursor,
+        ...(withTotal && { total, facets })
+      };
     }
 
     // Add sorting
-    const validSortFields = ['createdAt', 'updatedAt', 'title'];
-    const sortField = validSortFields.includes(sortBy) ? sortBy : 'createdAt';
-    queryBuilder.orderBy(`document.${sortField}`, sortOrder);
+    this.applySorting(queryBuilder, sortBy, sortOrder, !!search);
 
     // Add pagination
     const skip = (page - 1) * limit;
+
+    if (!withTotal) {
+      // Fetch one extra row to tell whether another page exists without counting
+      const rows = await queryBuilder.skip(skip).take(limit + 1).getMany();
+      const documents = rows.slice(0, limit);
+
+      if (search) {
+        await this.attachSearchHighlights(documents, search);
+      }
+      await this.tagsService.attachTags(documents);
+
+      return {
+        documents,
+        page,
+        limit,
+        hasMore: rows.length > limit
+      };
+    }
+
     queryBuilder.skip(skip).take(limit);
 
     // Execute query
     const [documents, total] = await queryBuilder.getManyAndCount();
 
+    if (search) {
+      await this.attachSearchHighlights(documents, search);
+    }
+    await this.tagsService.attachTags(documents);
+
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
 
@@ -141,7 +229,8 @@ export class DocumentsService {
       total,
       page,
       limit,
-      totalPages
+      totalPages,
+      facets
     };
   }
 
@@ -167,18 +256,13 @@ export class DocumentsService {
       .leftJoinAndSelect('document.updatedBy', 'updatedBy')
       .where('document.createdById = :userId', { userId });
 
-    // Add search filter
+    // Add full-text search filter
     if (search) {
-      queryBuilder.andWhere(
-        '(document.title ILIKE :search OR document.description ILIKE :search OR document.content ILIKE :search)',
-        { search: `%${search}%` }
-      );
+      this.applyFullTextSearch(queryBuilder, search);
     }
 
     // Add sorting
-    const validSortFields = ['createdAt', 'updatedAt', 'title'];
-    const sortField = validSortFields.includes(sortBy) ? sortBy : 'createdAt';
-    queryBuilder.orderBy(`document.${sortField}`, sortOrder);
+    this.applySorting(queryBuilder, sortBy, sortOrder, !!search);
 
     // Add pagination
     const skip = (page - 1) * limit;
@@ -187,6 +271,10 @@ export class DocumentsService {
     // Execute query
     const [documents, total] = await queryBuilder.getManyAndCount();
 
+    if (search) {
+      await this.attachSearchHighlights(documents, search);
+    }
+
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
 
@@ -199,19 +287,34 @@ export class DocumentsService {
     };
   }
 
+  /**
+   * Store text extracted by an ingestion job so it is searchable alongside the document
+   */
+  async updateExtractedText(documentId: number, extractedText: string): Promise<void> {
+    await this.documentsRepository.update(documentId, { extractedText });
+  }
+
   async findOne(id: number, userId: number, userRoles: string[]): Promise<Document> {
-    const document = await this.documentsRepository.findOne({
-      where: { id },
-      relations: [
-        'createdBy',
-        'updatedBy'
-      ]
-    });
+    const document = await this.documentsRepository
+      .createQueryBuilder('document')
+      .leftJoinAndSelect('document.createdBy', 'createdBy')
+      .leftJoinAndSelect('document.updatedBy', 'updatedBy')
+      .leftJoinAndMapOne(
+        'document.accessGrant',
+        DocumentPermission,
+        'accessGrant',
+        'accessGrant.documentId = document.id AND accessGrant.userId = :userId',
+        { userId }
+      )
+      .where('document.id = :id', { id })
+      .getOne();
 
     if (!document) {
       throw new NotFoundException('Document not found');
     }
 
+    await this.applyFolderAccess([document], userId);
+
     // Check access permissions
     if (!this.canAccessDocument(document, userId, userRoles)) {
       throw new ForbiddenException('Access denied to this document');
@@ -220,6 +323,27 @@ export class DocumentsService {
     return document;
   }
 
+  /**
+   * findOne plus the document's tags, for API responses. findOne leaves tags
+   * unloaded so saving a document never rewrites its tag rows.
+   */
+  async findOneWithTags(id: number, userId: number, userRoles: string[]): Promise<Document> {
+    const document = await this.findOne(id, userId, userRoles);
+    await this.tagsService.attachTags([document]);
+    return document;
+  }
+
+  /**
+   * Throw unless the user may edit the document
+   */
+  async assertCanEdit(id: number, userId: number, userRoles: string[]): Promise<void> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canEditDocument(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot edit this document');
+    }
+  }
+
   async update(id: number, updateDocumentDto: UpdateDocumentDto, userId: number, userRoles: string[], file?: any): Promise<Document> {
     const document = await this.findOne(id, userId, userRoles);
 
@@ -228,16 +352,393 @@ export class DocumentsService {
       throw new ForbiddenException('You cannot edit this document');
     }
 
+    // Making a document public shares it with every user, so it takes the right to manage shares
+    if (updateDocumentDto.isPublic !== undefined && updateDocumentDto.isPublic !== document.isPublic && !this.canManageShares(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot manage shares of this document');
+    }
+
+    // Keep the state we are about to overwrite in the version history
+    await this.documentVersionsService.ensureCurrentVersionRecorded(document);
+
     // Update the document
     Object.assign(document, updateDocumentDto);
     document.updatedById = userId;
 
     // If file is provided, handle file upload
     if (file) {
-      await this.handleFileUpload(document, file);
+      await this.handleFileUpload(document, file, userId);
+    }
+
+    const savedDocument = await this.saveWithVersion(document, userId, file);
+
+    if (file) {
+      this.documentScanService.scanInBackground(savedDocument);
+      this.documentThumbnailsService.generateInBackground(savedDocument);
+    }
+
+    return savedDocument;
+  }
+
+  async findVersions(id: number, userId: number, userRoles: string[]) {
+    await this.findOne(id, userId, userRoles);
+    return this.documentVersionsService.findAll(id);
+  }
+
+  async findVersion(id: number, versionNumber: number, userId: number, userRoles: string[]) {
+    await this.findOne(id, userId, userRoles);
+    return this.documentVersionsService.findOne(id, versionNumber);
+  }
+
+  async diffVersions(id: number, fromVersion: number, toVersion: number, userId: number, userRoles: string[]) {
+    await this.findOne(id, userId, userRoles);
+    return this.documentVersionsService.diff(id, fromVersion, toVersion);
+  }
+
+  async restoreVersion(id: number, versionNumber: number, userId: number, userRoles: string[]): Promise<Document> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canEditDocument(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot edit this document');
     }
 
-    return this.documentsRepository.save(document);
+    const version = await this.documentVersionsService.findOne(id, versionNumber);
+    await this.documentVersionsService.ensureCurrentVersionRecorded(document);
+
+    // Restoring creates a new version rather than rewinding history
+    document.title = version.title;
+    document.description = version.description;
+    document.content = version.content;
+    document.fileName = version.fileName;
+    document.originalFileName = version.originalFileName;
+    document.storageKey = version.storageKey;
+    document.checksum = version.checksum;
+    document.fileSize = version.fileSize;
+    document.mimeType = version.mimeType;
+    document.updatedById = userId;
+
+    // Versions do not keep scan results, so the restored file is scanned again
+    document.scanStatus = document.storageKey ? DocumentScanStatus.PENDING : null;
+    document.scanSignature = null;
+    document.scannedAt = null;
+
+    const savedDocument = await this.saveWithVersion(document, userId, undefined, `Restored from version ${versionNumber}`);
+    this.documentScanService.scanInBackground(savedDocument);
+    this.documentThumbnailsService.generateInBackground(savedDocument);
+
+    return savedDocument;
+  }
+
+  async transitionDocument(id: number, action: DocumentAction, userId: number, userRoles: string[], comment?: string): Promise<Document> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    // Check if user can edit this document
+    if (!this.canEditDocument(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot edit this document');
+    }
+
+    return this.documentWorkflowService.transition(document, action, userId, userRoles, comment);
+  }
+
+  async findTransitions(id: number, userId: number, userRoles: string[]) {
+    await this.findOne(id, userId, userRoles);
+    return this.documentWorkflowService.findTransitions(id);
+  }
+
+  async moveDocument(id: number, folderId: number | null, userId: number, userRoles: string[]): Promise<Document> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canEditDocument(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot edit this document');
+    }
+
+    if (folderId) {
+      await this.foldersService.assertCanAddDocuments(folderId, userId, userRoles);
+    }
+
+    await this.documentsRepository.update(id, { folderId: folderId || null, updatedById: userId });
+
+    return this.findOneWithTags(id, userId, userRoles);
+  }
+
+  /**
+   * Copy a document, including its file and tags, as a new draft owned by the user
+   */
+  async copyDocument(id: number, folderId: number | null, userId: number, userRoles: string[]): Promise<Document> {
+    const source = await this.findOne(id, userId, userRoles);
+
+    if (folderId) {
+      await this.foldersService.assertCanAddDocuments(folderId, userId, userRoles);
+    }
+
+    const copy = this.documentsRepository.create({
+      title: source.title,
+      description: source.description,
+      content: source.content,
+      mimeType: source.mimeType,
+      folderId: folderId || null,
+      createdById: userId,
+      updatedById: userId,
+      status: DocumentStatus.DRAFT
+    });
+
+    // Stored files are shared between documents, so the copy only references it
+    if (source.storageKey) {
+      copy.fileName = source.fileName;
+      copy.originalFileName = source.originalFileName;
+      copy.storageKey = source.storageKey;
+      copy.fileSize = source.fileSize;
+      copy.checksum = source.checksum;
+      copy.scanStatus = source.scanStatus;
+      copy.scanSignature = source.scanSignature;
+      copy.scannedAt = source.scannedAt;
+    }
+
+    const savedCopy = await this.documentsRepository.save(copy);
+    await this.documentVersionsService.recordVersion(savedCopy, userId, `Copied from document ${source.id}`);
+
+    const tags = await this.tagsService.findForDocument(source.id);
+    if (tags.length > 0) {
+      await this.tagsService.addToDocument(savedCopy.id, tags.map(tag => tag.name));
+    }
+
+    return this.findOneWithTags(savedCopy.id, userId, userRoles);
+  }
+
+  async findTags(id: number, userId: number, userRoles: string[]) {
+    await this.findOne(id, userId, userRoles);
+    return this.tagsService.findForDocument(id);
+  }
+
+  async addTags(id: number, tagNames: string[], userId: number, userRoles: string[]) {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canEditDocument(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot edit this document');
+    }
+
+    return this.tagsService.addToDocument(id, tagNames);
+  }
+
+  async removeTag(id: number, tagId: number, userId: number, userRoles: string[]): Promise<void> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canEditDocument(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot edit this document');
+    }
+
+    await this.tagsService.removeFromDocument(id, tagId);
+  }
+
+  async removeTags(id: number, tagNames: string[], userId: number, userRoles: string[]) {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canEditDocument(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot edit this document');
+    }
+
+    return this.tagsService.removeNamesFromDocument(id, tagNames);
+  }
+
+  /**
+   * Hand a document over to another user, who becomes its owner
+   */
+  async reassignOwner(id: number, ownerId: number, userId: number, userRoles: string[]): Promise<Document> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    // Only the owner may give a document away; a manage grant would otherwise let its holder take it over
+    if (!userRoles.includes('admin') && document.createdById !== userId) {
+      throw new ForbiddenException('You cannot reassign this document');
+    }
+
+    const owner = await this.usersRepository.findOne({ where: { id: ownerId } });
+    if (!owner) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.documentsRepository.update(id, { createdById: ownerId, updatedById: userId });
+
+    // Reloaded without an access check, since the previous owner may have just given up access
+    const reassigned = await this.documentsRepository.findOne({ where: { id }, relations: ['createdBy', 'updatedBy'] });
+    await this.tagsService.attachTags([reassigned]);
+    return reassigned;
+  }
+
+  async findShares(id: number, userId: number, userRoles: string[]) {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canManageShares(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot manage shares of this document');
+    }
+
+    return this.documentSharesService.findAll(id);
+  }
+
+  async shareDocument(id: number, shareDocumentDto: ShareDocumentDto, userId: number, userRoles: string[]) {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canManageShares(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot manage shares of this document');
+    }
+
+    return this.documentSharesService.grant(document, shareDocumentDto.userId, shareDocumentDto.level, userId);
+  }
+
+  async revokeShare(id: number, targetUserId: number, userId: number, userRoles: string[]): Promise<void> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canManageShares(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot manage shares of this document');
+    }
+
+    await this.documentSharesService.revoke(id, targetUserId);
+    await this.documentDownloadUrlsService.revokeForUser(id, targetUserId);
+  }
+
+  async createShareLink(id: number, createShareLinkDto: CreateShareLinkDto, userId: number, userRoles: string[]) {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canManageShares(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot manage shares of this document');
+    }
+
+    return this.documentShareLinksService.create(id, createShareLinkDto, userId);
+  }
+
+  async findShareLinks(id: number, userId: number, userRoles: string[]) {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canManageShares(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot manage shares of this document');
+    }
+
+    return this.documentShareLinksService.findAll(id);
+  }
+
+  async revokeShareLink(id: number, linkId: number, userId: number, userRoles: string[]): Promise<void> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!this.canManageShares(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot manage shares of this document');
+    }
+
+    await this.documentShareLinksService.revoke(id, linkId);
+  }
+
+  /**
+   * Public view of a document opened through an anonymous share link
+   */
+  async findByShareToken(token: string, password?: string) {
+    const document = await this.findSharedDocument(token, password);
+
+    return {
+      id: document.id,
+      title: document.title,
+      description: document.description,
+      content: document.content,
+      originalFileName: document.originalFileName,
+      fileSize: document.fileSize,
+      mimeType: document.mimeType,
+      hasFile: !!document.storageKey,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    };
+  }
+
+  async downloadSharedFile(token: string, password?: string): Promise<FileDownload> {
+    const document = await this.findSharedDocument(token, password);
+    return this.getFileDownload(document);
+  }
+
+  async getThumbnail(id: number, size: number, userId: number, userRoles: string[]): Promise<FileDownload> {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!document.storageKey) {
+      throw new NotFoundException('File not found');
+    }
+
+    // Thumbnails show the file's content, so they follow the same scan rules
+    this.documentScanService.assertDownloadable(document);
+
+    return this.documentThumbnailsService.getThumbnail(document, size);
+  }
+
+  async createDownloadUrl(id: number, createDownloadUrlDto: CreateDownloadUrlDto, userId: number, userRoles: string[]) {
+    const document = await this.findOne(id, userId, userRoles);
+
+    if (!document.storageKey) {
+      throw new NotFoundException('File not found');
+    }
+
+    return this.documentDownloadUrlsService.create(id, createDownloadUrlDto, userId);
+  }
+
+  /**
+   * Download through a signed URL. The URL only carries the access of the user
+   * who created it, so it stops working once they lose access to the document.
+   */
+  async downloadSignedFile(urlId: string, expires: string, signature: string): Promise<FileDownload> {
+    const downloadUrl = await this.documentDownloadUrlsService.resolve(urlId, expires, signature);
+    const creator = downloadUrl.createdBy;
+
+    let document: Document;
+    try {
+      document = await this.findOne(downloadUrl.documentId, creator.id, creator.roles);
+    } catch (error) {
+      if (error instanceof ForbiddenException || error instanceof NotFoundException) {
+        throw new NotFoundException('Download URL not found');
+      }
+      throw error;
+    }
+
+    const download = await this.getFileDownload(document);
+    await this.documentDownloadUrlsService.consume(downloadUrl);
+
+    return download;
+  }
+
+  /**
+   * Load documents by ID, failing unless the user can access every one of them
+   */
+  async findAccessibleDocuments(ids: number[], userId: number, userRoles: string[]): Promise<Document[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const documents = await this.documentsRepository
+      .createQueryBuilder('document')
+      .leftJoinAndMapOne(
+        'document.accessGrant',
+        DocumentPermission,
+        'accessGrant',
+        'accessGrant.documentId = document.id AND accessGrant.userId = :userId',
+        { userId }
+      )
+      .where('document.id IN (:...ids)', { ids })
+      .getMany();
+
+    if (documents.length !== new Set(ids).size) {
+      throw new NotFoundException('Some documents not found');
+    }
+
+    await this.applyFolderAccess(documents, userId);
+
+    if (documents.some(document => !this.canAccessDocument(document, userId, userRoles))) {
+      throw new ForbiddenException('Access denied to some documents');
+    }
+
+    return documents;
+  }
+
+  /**
+   * IDs of the documents matching a search that the user can see, at most limit + 1 of them so callers can detect overflow
+   */
+  async findMatchingIds(currentUserId: number, userRoles: string[], searchParams: SearchDocumentsDto, limit: number): Promise<number[]> {
+    const documents = await this.buildSearchQuery(currentUserId, userRoles, searchParams)
+      .orderBy('document.id', 'ASC')
+      .take(limit + 1)
+      .getMany();
+
+    return documents.map(document => document.id);
   }
 
   async remove(id: number, userId: number, userRoles: string[]): Promise<void> {
@@ -248,48 +749,547 @@ export class DocumentsService {
       throw new ForbiddenException('You cannot delete this document');
     }
 
-    // Delete associated file if it exists
-    if (document.filePath && fs.existsSync(document.filePath)) {
-      fs.unlinkSync(document.filePath);
+    // Move the document to the trash; its files are kept until it is purged
+    await this.documentsRepository.update(document.id, {
+      deletedAt: new Date(),
+      deletedById: userId
+    });
+    await this.documentDownloadUrlsService.revokeForDocument(document.id);
+  }
+
+  async findTrash(currentUserId: number, userRoles: string[], page: number = 1, limit: number = 10) {
+    const queryBuilder = this.documentsRepository
+      .createQueryBuilder('document')
+      .withDeleted()
+      .leftJoinAndSelect('document.createdBy', 'createdBy')
+      .where('document.deletedAt IS NOT NULL');
+
+    // Regular users only see documents they own or deleted themselves
+    if (!userRoles.includes('admin')) {
+      queryBuilder.andWhere(
+        '(document.createdById = :currentUserId OR document.deletedById = :currentUserId)',
+        { currentUserId }
+      );
+    }
+
+    queryBuilder
+      .orderBy('document.deletedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [documents, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      documents,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async restore(id: number, userId: number, userRoles: string[]): Promise<Document> {
+    const document = await this.findTrashedDocument(id, userId);
+
+    // Whoever may delete a document may also bring it back
+    if (!this.canDeleteDocument(document, userId, userRoles)) {
+      throw new ForbiddenException('You cannot restore this document');
+    }
+
+    // A document whose folder is still in the trash comes back at the top level
+    const folderActive = !document.folderId || await this.foldersService.isActive(document.folderId);
+
+    await this.documentsRepository.update(document.id, {
+      deletedAt: null,
+      deletedById: null,
+      ...(!folderActive && { folderId: null })
+    });
+
+    return this.findOne(id, userId, userRoles);
+  }
+
+  async permanentlyDelete(id: number, userId: number, userRoles: string[]): Promise<void> {
+    if (!userRoles.includes('admin')) {
+      throw new ForbiddenException('Only admins can permanently delete documents');
     }
 
-    await this.documentsRepository.remove(document);
+    const document = await this.documentsRepository.findOne({
+      where: { id },
+      withDeleted: true
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    await this.purgeDocument(document);
+  }
+
+  /**
+   * Permanently delete every trashed document deleted before the cutoff
+   */
+  async purgeExpiredTrash(deletedBefore: Date): Promise<number> {
+    const documents = await this.documentsRepository.find({
+      where: { deletedAt: LessThan(deletedBefore) },
+      withDeleted: true
+    });
+
+    for (const document of documents) {
+      await this.purgeDocument(document);
+    }
+
+    // Folders go last so documents trashed with them have been purged already
+    await this.foldersService.purgeExpiredTrash(deletedBefore);
+
+    return documents.length;
   }
 
-  async downloadFile(id: number, userId: number, userRoles: string[]): Promise<{ filePath: string; fileName: string }> {
+  /**
+   * Groups of live documents holding identical files, largest groups first
+   */
+  async findDuplicates(page: number = 1, limit: number = 10) {
+    const groupsQuery = this.documentsRepository
+      .createQueryBuilder('document')
+      .select('document.checksum', 'checksum')
+      .addSelect('MAX(document.fileSize)', 'fileSize')
+      .addSelect('COUNT(*)', 'count')
+      .where('document.checksum IS NOT NULL')
+      .groupBy('document.checksum')
+      .having('COUNT(*) > 1');
+
+    const [groupsSql, groupsParameters] = groupsQuery.getQueryAndParameters();
+    const [{ total }] = await this.documentsRepository.query(
+      `SELECT COUNT(*)::int AS total FROM (${groupsSql}) duplicate_groups`,
+      groupsParameters
+    );
+
+    const groups = await groupsQuery
+      .orderBy('COUNT(*)', 'DESC')
+      .addOrderBy('document.checksum', 'ASC')
+      .offset((page - 1) * limit)
+      .limit(limit)
+      .getRawMany();
+
+    const checksums = groups.map(group => group.checksum);
+    const documents = checksums.length === 0 ? [] : await this.documentsRepository.find({
+      where: { checksum: In(checksums) },
+      select: ['id', 'title', 'originalFileName', 'checksum', 'createdById', 'createdAt'],
+      order: { createdAt: 'ASC' }
+    });
+
+    return {
+      groups: groups.map(group => ({
+        checksum: group.checksum,
+        fileSize: Number(group.fileSize),
+        count: Number(group.count),
+        documents: documents
+          .filter(document => document.checksum === group.checksum)
+          .map(({ id, title, originalFileName, createdById, createdAt }) => ({ id, title, originalFileName, createdById, createdAt }))
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async downloadFile(id: number, userId: number, userRoles: string[]): Promise<FileDownload> {
     const document = await this.findOne(id, userId, userRoles);
+    return this.getFileDownload(document);
+  }
+
+  /**
+   * Documents matching the filters of a search that the user can see, unsorted and unpaged
+   */
+  private buildSearchQuery(currentUserId: number, userRoles: string[], searchParams: SearchDocumentsDto): SelectQueryBuilder<Document> {
+    const { search } = searchParams;
+    const userId = searchParams.createdById ?? searchParams.userId;
+
+    // Build query builder
+    const queryBuilder = this.documentsRepository
+      .createQueryBuilder('document')
+      .leftJoinAndSelect('document.createdBy', 'createdBy')
+      .leftJoinAndSelect('document.updatedBy', 'updatedBy');
+
+    // Apply access control
+    if (!userRoles.includes('admin')) {
+      // Regular users can only see their own documents, public ones and those shared with them directly or through a folder
+      queryBuilder.where(
+        DOCUMENT_ACCESS_CONDITION,
+        { currentUserId }
+      );
+    }
+
+    // Add user filter (only for admins or if filtering own documents)
+    if (userId) {
+      if (userRoles.includes('admin')) {
+        // Admin can filter by any user
+        queryBuilder.andWhere('document.createdById = :userId', { userId });
+      } else if (userId === currentUserId) {
+        // Regular users can only filter by their own user ID
+        queryBuilder.andWhere('document.createdById = :userId', { userId });
+      } else {
+        // Regular users cannot filter by other user IDs
+        throw new ForbiddenException('You can only filter by your own user ID');
+      }
+    }
+
+    // Add attribute filters
+    this.applyFilters(queryBuilder, searchParams);
+
+    // Add full-text search filter
+    if (search) {
+      this.applyFullTextSearch(queryBuilder, search);
+    }
+
+    return queryBuilder;
+  }
+
+  private applyFullTextSearch(queryBuilder: SelectQueryBuilder<Document>, search: string): void {
+    // websearch_to_tsquery understands "quoted phrases", OR and -negation
+    queryBuilder
+      .andWhere(`document.searchVector @@ websearch_to_tsquery('${SEARCH_CONFIG}', :search)`, { search })
+      .addSelect(SEARCH_RANK_EXPRESSION, 'search_rank');
+  }
+
+  private applyFilters(queryBuilder: SelectQueryBuilder<Document>, filters: SearchDocumentsDto): void {
+    const { status, mimeType, minSize, maxSize, updatedById, hasFile, tags, tagMode, folderId, recursive } = filters;
+
+    if (minSize !== undefined && maxSize !== undefined && minSize > maxSize) {
+      throw new BadRequestException('minSize cannot be greater than maxSize');
+    }
+
+    if (folderId) {
+      if (recursive) {
+        queryBuilder.andWhere(
+          'document.folderId IN (SELECT subfolder.id FROM folders subfolder INNER JOIN folders root_folder ON subfolder.path LIKE root_folder.path || \'%\' WHERE root_folder.id = :folderId)',
+          { folderId }
+        );
+      } else {
+        queryBuilder.andWhere('document.folderId = :folderId', { folderId });
+      }
+    }
+
+    if (status) {
+      queryBuilder.andWhere('document.status = :status', { status });
+    }
+
+    if (mimeType) {
+      if (mimeType.endsWith('/*')) {
+        queryBuilder.andWhere('document.mimeType LIKE :mimeTypePrefix', { mimeTypePrefix: `${mimeType.slice(0, -1)}%` });
+      } else {
+        queryBuilder.andWhere('document.mimeType = :mimeType', { mimeType });
+      }
+    }
+
+    if (minSize !== undefined) {
+      queryBuilder.andWhere('document.fileSize >= :minSize', { minSize });
+    }
+
+    if (maxSize !== undefined) {
+      queryBuilder.andWhere('document.fileSize <= :maxSize', { maxSize });
+    }
+
+    if (updatedById) {
+      queryBuilder.andWhere('document.updatedById = :updatedById', { updatedById });
+    }
+
+    if (hasFile !== undefined) {
+      queryBuilder.andWhere(hasFile ? 'document.storageKey IS NOT NULL' : 'document.storageKey IS NULL');
+    }
+
+    if (tags && tags.length > 0) {
+      const tagNames = [...new Set(tags.map(tag => TagsService.normalizeName(tag)))];
+      const matchingTags = 'FROM document_tags document_tag INNER JOIN tags tag ON tag.id = document_tag."tagId" WHERE document_tag."documentId" = document.id AND tag.name IN (:...tagNames)';
+
+      if (tagMode === 'all') {
+        queryBuilder.andWhere(`(SELECT COUNT(*) ${matchingTags}) = :tagCount`, { tagNames, tagCount: tagNames.length });
+      } else {
+        queryBuilder.andWhere(`EXISTS (SELECT 1 ${matchingTags})`, { tagNames });
+      }
+    }
+
+    this.applyDateRange(queryBuilder, 'createdAt', filters.createdFrom, filters.createdTo);
+    this.applyDateRange(queryBuilder, 'updatedAt', filters.updatedFrom, filters.updatedTo);
+  }
+
+  private applyDateRange(queryBuilder: SelectQueryBuilder<Document>, field: 'createdAt' | 'updatedAt', from?: string, to?: string): void {
+    const fromDate = from ? new Date(from) : null;
+    let toDate = to ? new Date(to) : null;
+
+    // A plain date such as 2024-01-31 covers that whole day
+    if (toDate && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      toDate = new Date(toDate.getTime() + 24 * 60 * 60 * 1000 - 1);
+    }
+
+    if (fromDate && toDate && fromDate > toDate) {
+      throw new BadRequestException(`${field} range start must be before its end`);
+    }
+
+    if (fromDate) {
+      queryBuilder.andWhere(`document.${field} >= :${field}From`, { [`${field}From`]: fromDate });
+    }
+
+    if (toDate) {
+      queryBuilder.andWhere(`document.${field} <= :${field}To`, { [`${field}To`]: toDate });
+    }
+  }
+
+  /**
+   * Count the filtered documents per status, MIME type and creator
+   */
+  private async buildFacets(queryBuilder: SelectQueryBuilder<Document>) {
+    const [statuses, mimeTypes, creators] = await Promise.all([
+      queryBuilder
+        .clone()
+        .select('document.status', 'value')
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('document.status')
+        .orderBy('count', 'DESC')
+        .getRawMany(),
+      queryBuilder
+        .clone()
+        .select('document.mimeType', 'value')
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('document.mimeType')
+        .orderBy('count', 'DESC')
+        .limit(FACET_LIMIT)
+        .getRawMany(),
+      queryBuilder
+        .clone()
+        .select('document.createdById', 'userId')
+        .addSelect('createdBy.email', 'email')
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('document.createdById')
+        .addGroupBy('createdBy.email')
+        .orderBy('count', 'DESC')
+        .limit(FACET_LIMIT)
+        .getRawMany(),
+    ]);
+
+    return {
+      status: statuses.map(row => ({ value: row.value, count: Number(row.count) })),
+      mimeType: mimeTypes.map(row => ({ value: row.value, count: Number(row.count) })),
+      createdBy: creators.map(row => ({ userId: row.userId, email: row.email, count: Number(row.count) })),
+    };
+  }
+
+  private applySorting(queryBuilder: SelectQueryBuilder<Document>, sortBy: string, sortOrder: 'ASC' | 'DESC', searching: boolean): void {
+    // Relevance is only meaningful for full-text searches
+    if (sortBy === 'relevance' && searching) {
+      queryBuilder.orderBy('search_rank', 'DESC').addOrderBy('document.createdAt', 'DESC');
+      return;
+    }
+
+    const validSortFields = ['createdAt', 'updatedAt', 'title'];
+    const sortField = validSortFields.includes(sortBy) ? sortBy : 'createdAt';
+    queryBuilder.orderBy(`document.${sortField}`, sortOrder);
+  }
+
+  private resolveCursorSort(sortBy: string, sortOrder: 'ASC' | 'DESC', searching: boolean) {
+    if (sortBy === 'relevance' && searching) {
+      return { sortName: 'relevance', sortExpression: SEARCH_RANK_EXPRESSION, sortOrder: 'DESC' as const };
+    }
+
+    const validSortFields = ['createdAt', 'updatedAt', 'title'];
+    const sortField = validSortFields.includes(sortBy) ? sortBy : 'createdAt';
+    return { sortName: sortField, sortExpression: `document.${sortField}`, sortOrder };
+  }
+
+  /**
+   * Add relevance and a highlighted snippet to each search result. Done in a
+   * separate query so ts_headline only runs for the returned page.
+   */
+  private async attachSearchHighlights(documents: Document[], search: string): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    const rows = await this.documentsRepository
+      .createQueryBuilder('document')
+      .select('document.id', 'id')
+      .addSelect(SEARCH_RANK_EXPRESSION, 'rank')
+      .addSelect(
+        `ts_headline('${SEARCH_CONFIG}', concat_ws(' ', document.description, document.content, document.extractedText), websearch_to_tsquery('${SEARCH_CONFIG}', :search), 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10')`,
+        'highlight'
+      )
+      .where('document.id IN (:...ids)', { ids: documents.map(document => document.id) })
+      .setParameter('search', search)
+      .getRawMany();
+
+    const rowsById = new Map(rows.map(row => [Number(row.id), row]));
+    for (const document of documents) {
+      const row = rowsById.get(document.id);
+      document.searchRank = row ? Number(row.rank) : 0;
+      document.searchHighlight = row ? row.highlight : null;
+    }
+  }
 
-    if (!document.filePath || !fs.existsSync(document.filePath)) {
+  private async findSharedDocument(token: string, password?: string): Promise<Document> {
+    const documentId = await this.documentShareLinksService.resolve(token, password);
+    const document = await this.documentsRepository.findOne({ where: { id: documentId } });
+
+    // Links to trashed documents stop working until the document is restored
+    if (!document) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    return document;
+  }
+
+  private async getFileDownload(document: Document): Promise<FileDownload> {
+    if (!document.storageKey) {
       throw new NotFoundException('File not found');
     }
 
+    this.documentScanService.assertDownloadable(document);
+
     return {
-      filePath: document.filePath,
-      fileName: document.originalFileName || document.fileName
+      fileName: document.originalFileName || document.fileName,
+      mimeType: document.mimeType,
+      size: document.fileSize,
+      etag: document.checksum ? `"${document.checksum}"` : null,
+      lastModified: document.updatedAt,
+      open: (range) => this.storage.get(document.storageKey, range)
     };
   }
 
-  private async handleFileUpload(document: Document, file: any): Promise<void> {
-    // Create uploads directory if it doesn't exist
-    const uploadsDir = path.join(process.cwd(), 'uploads', 'documents');
-    if (!fs.existsSync(uploadsDir)) {
-      fs.mkdirSync(uploadsDir, { recursive: true });
+  private async findTrashedDocument(id: number, userId: number): Promise<Document> {
+    const document = await this.documentsRepository
+      .createQueryBuilder('document')
+      .withDeleted()
+      .leftJoinAndMapOne(
+        'document.accessGrant',
+        DocumentPermission,
+        'accessGrant',
+        'accessGrant.documentId = document.id AND accessGrant.userId = :userId',
+        { userId }
+      )
+      .where('document.id = :id', { id })
+      .andWhere('document.deletedAt IS NOT NULL')
+      .getOne();
+
+    if (!document) {
+      throw new NotFoundException('Document not found in trash');
+    }
+
+    await this.applyFolderAccess([document], userId);
+
+    return document;
+  }
+
+  private async purgeDocument(document: Document): Promise<void> {
+    // Delete the current file and every file kept for older versions
+    const versionStorageKeys = await this.documentVersionsService.findStorageKeys(document.id);
+    const storageKeys = new Set([document.storageKey, ...versionStorageKeys].filter(Boolean));
+
+    await this.documentsRepository.remove(document);
+    await this.deleteUnreferencedFiles(storageKeys);
+  }
+
+  // Identical files are stored once, so keep those other documents still use
+  private async deleteUnreferencedFiles(storageKeys: Iterable<string>): Promise<void> {
+    for (const storageKey of storageKeys) {
+      const references =
+        await this.documentsRepository.count({ where: { storageKey }, withDeleted: true }) +
+        await this.documentVersionsService.countStorageKeyReferences(storageKey);
+      if (references === 0) {
+        await this.storage.delete(storageKey);
+        await this.documentThumbnailsService.deleteThumbnails(storageKey);
+      }
     }
+  }
+
+  /**
+   * Save a document and record the new version in one transaction. An existing
+   * document takes its next version number from the database; the increment
+   * locks the row until the version is recorded, so concurrent updates get
+   * consecutive versions instead of colliding on the same one. When the save
+   * fails, the file moved into storage for the upload is deleted unless another
+   * row uses it.
+   */
+  private async saveWithVersion(document: Document, userId: number, file?: any, changeNote?: string): Promise<Document> {
+    try {
+      return await this.documentsRepository.manager.transaction(async manager => {
+        if (document.id) {
+          const { raw } = await manager
+            .createQueryBuilder()
+            .update(Document)
+            .set({ currentVersion: () => '"currentVersion" + 1' })
+            .where('id = :id', { id: document.id })
+            .returning(['currentVersion'])
+            .execute();
+          document.currentVersion = raw[0].currentVersion;
+        }
 
-    // Generate unique filename
-    const fileExtension = path.extname(file.originalname);
-    const fileName = `${uuidv4()}${fileExtension}`;
-    const filePath = path.join(uploadsDir, fileName);
+        const savedDocument = await manager.save(document);
+        await this.documentVersionsService.recordVersion(savedDocument, userId, changeNote, manager);
+        return savedDocument;
+      });
+    } catch (error) {
+      if (file && document.storageKey) {
+        await this.deleteUnreferencedFiles([document.storageKey]).catch(cleanupError =>
+          this.logger.error(`Failed to delete the file of a failed upload: ${cleanupError.message}`)
+        );
+      }
+      throw error;
+    }
+  }
 
-    // Save file to disk
-    fs.writeFileSync(filePath, file.buffer);
+  private async handleFileUpload(document: Document, file: any, userId: number): Promise<void> {
+    document.duplicates = await this.findDuplicateUploads(document, file.sha256, userId);
 
-    // Update document with file metadata
-    document.fileName = fileName;
+    // The upload engine has already streamed the file into storage. The
+    // previous file stays there because older versions still reference it.
+    document.fileName = file.filename;
     document.originalFileName = file.originalname;
-    document.filePath = filePath;
+    document.storageKey = await this.storeContentAddressed(file);
     document.fileSize = file.size;
     document.mimeType = file.mimetype;
+    document.checksum = file.sha256;
+    document.scanStatus = DocumentScanStatus.PENDING;
+    document.scanSignature = null;
+    document.scannedAt = null;
+  }
+
+  /**
+   * The user's other documents holding the same file. Depending on
+   * DUPLICATE_UPLOADS the upload is rejected ('reject') or the duplicates are
+   * returned as a warning ('warn', the default).
+   */
+  private async findDuplicateUploads(document: Document, checksum: string, userId: number) {
+    const duplicates = await this.documentsRepository.find({
+      where: {
+        createdById: userId,
+        checksum,
+        ...(document.id && { id: Not(document.id) })
+      },
+      select: ['id', 'title'],
+      order: { id: 'ASC' }
+    });
+
+    if (duplicates.length > 0 && this.configService.get('DUPLICATE_UPLOADS') === 'reject') {
+      throw new ConflictException(
+        `You already uploaded this file as document ${duplicates.map(duplicate => duplicate.id).join(', ')}`
+      );
+    }
+
+    return duplicates.map(({ id, title }) => ({ id, title }));
+  }
+
+  /**
+   * Move an upload to a key derived from its checksum, so identical files are stored once
+   */
+  private async storeContentAddressed(file: any): Promise<string> {
+    const storageKey = `blobs/${file.sha256.slice(0, 2)}/${file.sha256}`;
+
+    if (await this.storage.exists(storageKey)) {
+      await this.storage.delete(file.storageKey);
+    } else {
+      await this.storage.move(file.storageKey, storageKey);
+    }
+
+    return storageKey;
   }
 
   private canAccessDocument(document: Document, userId: number, userRoles: string[]): boolean {
@@ -303,7 +1303,13 @@ export class DocumentsService {
       return true;
     }
 
-    return false;
+    // Any authenticated user can read public documents
+    if (document.isPublic) {
+      return true;
+    }
+
+    // Any share grant allows viewing
+    return this.hasGrant(document, userId, DocumentPermissionLevel.VIEW);
   }
 
   private canEditDocument(document: Document, userId: number, userRoles: string[]): boolean {
@@ -317,7 +1323,7 @@ export class DocumentsService {
       return true;
     }
 
-    return false;
+    return this.hasGrant(document, userId, DocumentPermissionLevel.EDIT);
   }
 
   private canDeleteDocument(document: Document, userId: number, userRoles: string[]): boolean {
@@ -331,6 +1337,29 @@ export class DocumentsService {
       return true;
     }
 
-    return false;
+    return this.hasGrant(document, userId, DocumentPermissionLevel.MANAGE);
+  }
+
+  private canManageShares(document: Document, userId: number, userRoles: string[]): boolean {
+    // Same rule as deleting: admins, owners and users with a manage grant
+    return this.canDeleteDocument(document, userId, userRoles);
   }
-}
\ No newline at end of file
+
+  private hasGrant(document: Document, userId: number, level: DocumentPermissionLevel): boolean {
+    // A direct share and a share inherited from the folder tree both count
+    const grantedLevels = [document.folderAccessLevel];
+    if (document.accessGrant && document.accessGrant.userId === userId) {
+      grantedLevels.push(document.accessGrant.level);
+    }
+
+    return grantedLevels.some(granted => granted && PERMISSION_LEVEL_RANK[granted] >= PERMISSION_LEVEL_RANK[level]);
+  }
+
+  private async applyFolderAccess(documents: Document[], userId: number): Promise<void> {
+    const levels = await this.foldersService.findAccessLevels(documents.map(document => document.folderId), userId);
+    for (const document of documents) {
+      document.folderAccessLevel = levels.get(document.folderId);
+    }
+  }
+
+}
@@ -0,0 +1,24 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AddDocumentTagsDto {
+  @ApiProperty({
+    description:
+      'Tag names to add. Missing tags are created; names are case-insensitive',
+    example: ['invoice', 'q1-2024'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  tags: string[];
+}
@@ -1,5 +1,6 @@
-import { IsString, IsOptional, IsBoolean } from 'class-validator';
+import { IsString, IsOptional, IsBoolean, IsNumber } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
 
 export class CreateDocumentDto {
   @ApiProperty({
@@ -33,6 +34,19 @@ export class CreateDocumentDto {
     required: false
   })
   @IsOptional()
+  // Multipart form fields arrive as strings
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value), { toClassOnly: true })
   @IsBoolean()
   isPublic?: boolean;
-} 
\ No newline at end of file
+
+  @ApiProperty({
+    description: 'Folder to create the document in; omit for the top level',
+    example: 4,
+    required: false
+  })
+  @IsOptional()
+  // Multipart form fields arrive as strings
+  @Transform(({ value }) => (typeof value === 'string' ? parseInt(value) : value), { toClassOnly: true })
+  @IsNumber()
+  folderId?: number;
+}
@@ -0,0 +1,25 @@
+import { IsOptional, IsInt, IsBoolean, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateDownloadUrlDto {
+  @ApiProperty({
+    description:
+      'Seconds until the URL stops working (default 1 hour, at most 7 days)',
+    example: 3600,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  @Max(7 * 24 * 60 * 60)
+  expiresIn?: number;
+
+  @ApiProperty({
+    description: 'Whether the URL stops working after the first download',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  singleUse?: boolean;
+}
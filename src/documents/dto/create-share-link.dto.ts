@@ -0,0 +1,31 @@
+import {
+  IsOptional,
+  IsString,
+  IsDateString,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateShareLinkDto {
+  @ApiProperty({
+    description:
+      'When the link stops working; omit for a link that never expires',
+    example: '2024-12-31T23:59:59Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiProperty({
+    description: 'Password required to open the link',
+    example: 'correct-horse-battery',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(128)
+  password?: string;
+}
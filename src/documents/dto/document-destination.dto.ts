@@ -0,0 +1,14 @@
+import { IsNumber, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DocumentDestinationDto {
+  @ApiProperty({
+    description: 'Target folder ID; null or omitted for the top level',
+    example: 4,
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  folderId?: number | null;
+}
@@ -1,4 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { TagResponseDto } from '../../tags/dto/tag-response.dto';
+import { DocumentScanStatus } from '../entities/document.entity';
 
 export class DocumentResponseDto {
   @ApiProperty({ example: 1 })
@@ -16,12 +18,24 @@ export class DocumentResponseDto {
   @ApiProperty({ example: 'requirements.pdf' })
   originalFileName: string;
 
-  @ApiProperty({ example: '/uploads/documents/document_123.pdf' })
-  filePath: string;
+  @ApiProperty({ example: 'documents/document_123.pdf' })
+  storageKey: string;
 
   @ApiProperty({ example: 1024000 })
   fileSize: number;
 
+  @ApiProperty({ example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08' })
+  checksum: string;
+
+  @ApiProperty({ example: 'clean', enum: DocumentScanStatus, nullable: true })
+  scanStatus: DocumentScanStatus;
+
+  @ApiProperty({ example: null, nullable: true, description: 'Malware found by the scan, if any' })
+  scanSignature: string;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z', nullable: true })
+  scannedAt: Date;
+
   @ApiProperty({ example: 'application/pdf' })
   mimeType: string;
 
@@ -34,6 +48,9 @@ export class DocumentResponseDto {
   @ApiProperty({ example: false })
   isPublic: boolean;
 
+  @ApiProperty({ example: 3 })
+  currentVersion: number;
+
   @ApiProperty({ example: 1 })
   createdById: number;
 
@@ -48,4 +65,25 @@ export class DocumentResponseDto {
 
   @ApiProperty({ example: '2024-01-15T14:45:00Z' })
   updatedAt: Date;
-} 
\ No newline at end of file
+
+  @ApiProperty({ example: null, required: false, description: 'When the document was moved to the trash' })
+  deletedAt?: Date;
+
+  @ApiProperty({ example: null, required: false })
+  deletedById?: number;
+
+  @ApiProperty({ example: 0.42, required: false, description: 'Full-text relevance, present on search results only' })
+  searchRank?: number;
+
+  @ApiProperty({ example: 'Gathering <mark>requirements</mark> for the project', required: false, description: 'Matching snippet with <mark> highlights, present on search results only' })
+  searchHighlight?: string;
+
+  @ApiProperty({ example: 4, nullable: true, description: 'Containing folder; null at the top level' })
+  folderId: number;
+
+  @ApiProperty({ type: [TagResponseDto], required: false, description: 'Tags on the document' })
+  tags?: TagResponseDto[];
+
+  @ApiProperty({ example: [{ id: 3, title: 'Invoice March' }], required: false, description: 'Your earlier uploads of the same file, present after an upload that duplicates them' })
+  duplicates?: { id: number; title: string }[];
+}
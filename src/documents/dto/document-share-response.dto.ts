@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DocumentPermissionLevel } from '../entities/document-permission.entity';
+
+export class DocumentShareResponseDto {
+  @ApiProperty({ example: 4 })
+  id: number;
+
+  @ApiProperty({ example: 1 })
+  documentId: number;
+
+  @ApiProperty({ example: 2 })
+  userId: number;
+
+  @ApiProperty({ example: 'editor@example.com' })
+  userEmail: string;
+
+  @ApiProperty({
+    enum: DocumentPermissionLevel,
+    example: DocumentPermissionLevel.EDIT,
+  })
+  level: DocumentPermissionLevel;
+
+  @ApiProperty({ example: 1 })
+  grantedById: number;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  updatedAt: Date;
+}
@@ -0,0 +1,85 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DocumentVersionResponseDto {
+  @ApiProperty({ example: 12 })
+  id: number;
+
+  @ApiProperty({ example: 1 })
+  documentId: number;
+
+  @ApiProperty({ example: 3 })
+  versionNumber: number;
+
+  @ApiProperty({ example: 'Project Requirements Document' })
+  title: string;
+
+  @ApiProperty({ example: 'Detailed requirements for the new project' })
+  description: string;
+
+  @ApiProperty({
+    example: 'This document contains the project requirements...',
+    required: false,
+  })
+  content?: string;
+
+  @ApiProperty({ example: 'requirements.pdf' })
+  originalFileName: string;
+
+  @ApiProperty({ example: 1024000 })
+  fileSize: number;
+
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  checksum: string;
+
+  @ApiProperty({ example: 'application/pdf' })
+  mimeType: string;
+
+  @ApiProperty({ example: 'draft' })
+  status: string;
+
+  @ApiProperty({ example: 'Restored from version 2', required: false })
+  changeNote?: string;
+
+  @ApiProperty({ example: 1 })
+  createdById: number;
+
+  @ApiProperty({ example: '2024-01-15T14:45:00Z' })
+  createdAt: Date;
+}
+
+export class DocumentVersionDiffDto {
+  @ApiProperty({ example: 1 })
+  documentId: number;
+
+  @ApiProperty({ example: 2 })
+  from: number;
+
+  @ApiProperty({ example: 3 })
+  to: number;
+
+  @ApiProperty({
+    description: 'Changed metadata fields with their old and new values',
+    example: {
+      title: {
+        from: 'Draft requirements',
+        to: 'Project Requirements Document',
+      },
+    },
+  })
+  changes: Record<string, { from: any; to: any }>;
+
+  @ApiProperty({ example: false })
+  fileChanged: boolean;
+
+  @ApiProperty({ example: true })
+  contentChanged: boolean;
+
+  @ApiProperty({
+    description: 'Unified diff of the document content',
+    example:
+      '--- version-2\n+++ version-3\n@@ -1 +1 @@\n-old line\n+new line\n',
+  })
+  contentPatch: string;
+}
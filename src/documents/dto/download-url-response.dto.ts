@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DownloadUrlResponseDto {
+  @ApiProperty({
+    example:
+      '/public/documents/signed/2f1c7a3e-8d4b-4f0a-9c6e-1b2d3e4f5a6b?expires=1717171717&signature=Xq3...',
+  })
+  url: string;
+
+  @ApiProperty({ example: '2024-06-01T12:00:00Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: false })
+  singleUse: boolean;
+}
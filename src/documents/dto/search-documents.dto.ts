@@ -1,16 +1,14 @@
-import { IsOptional, IsString, IsBoolean, IsEnum, IsNumber, Min, Max } from 'class-validator';
+import { IsOptional, IsString, IsBoolean, IsEnum, IsNumber, IsIn, IsDateString, IsArray, Min } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { DocumentStatus } from '../entities/document.entity';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
 
-export enum DocumentStatus {
-  DRAFT = 'draft',
-  PUBLISHED = 'published',
-  ARCHIVED = 'archived'
-}
+export const DOCUMENT_SORT_FIELDS = ['createdAt', 'updatedAt', 'title', 'relevance'];
 
-export class SearchDocumentsDto {
+export class SearchDocumentsDto extends PaginationQueryDto {
   @ApiProperty({
-    description: 'Search term for title or description',
+    description: 'Full-text search term for title, description, content and extracted text. Supports "quoted phrases", OR and -exclusions',
     example: 'project requirements',
     required: false
   })
@@ -18,7 +16,6 @@ export class SearchDocumentsDto {
   @IsString()
   search?: string;
 
-
   @ApiProperty({
     description: 'Filter by creator ID',
     example: 1,
@@ -30,46 +27,171 @@ export class SearchDocumentsDto {
   createdById?: number;
 
   @ApiProperty({
-    description: 'Page number for pagination',
+    description: 'Deprecated alias for createdById',
     example: 1,
-    minimum: 1,
     required: false
   })
   @IsOptional()
   @Transform(({ value }) => parseInt(value))
   @IsNumber()
-  @Min(1)
-  page?: number = 1;
+  userId?: number;
 
   @ApiProperty({
-    description: 'Number of items per page',
-    example: 10,
-    minimum: 1,
-    maximum: 100,
+    description: 'Filter by the user who last updated the document',
+    example: 2,
     required: false
   })
   @IsOptional()
   @Transform(({ value }) => parseInt(value))
   @IsNumber()
-  @Min(1)
-  @Max(100)
-  limit?: number = 10;
+  updatedById?: number;
 
   @ApiProperty({
-    description: 'Sort field',
-    example: 'createdAt',
+    description: 'Filter by workflow status',
+    enum: DocumentStatus,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(DocumentStatus)
+  status?: DocumentStatus;
+
+  @ApiProperty({
+    description: 'Filter by MIME type. A trailing wildcard such as image/* matches the whole family',
+    example: 'application/pdf',
     required: false
   })
   @IsOptional()
   @IsString()
+  mimeType?: string;
+
+  @ApiProperty({
+    description: 'Minimum file size in bytes',
+    example: 1024,
+    required: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(0)
+  minSize?: number;
+
+  @ApiProperty({
+    description: 'Maximum file size in bytes',
+    example: 10485760,
+    required: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @Min(0)
+  maxSize?: number;
+
+  @ApiProperty({
+    description: 'Only documents created on or after this date (ISO 8601)',
+    example: '2024-01-01',
+    required: false
+  })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiProperty({
+    description: 'Only documents created on or before this date (ISO 8601). A plain date includes the whole day',
+    example: '2024-01-31',
+    required: false
+  })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @ApiProperty({
+    description: 'Only documents updated on or after this date (ISO 8601)',
+    example: '2024-01-01',
+    required: false
+  })
+  @IsOptional()
+  @IsDateString()
+  updatedFrom?: string;
+
+  @ApiProperty({
+    description: 'Only documents updated on or before this date (ISO 8601). A plain date includes the whole day',
+    example: '2024-01-31',
+    required: false
+  })
+  @IsOptional()
+  @IsDateString()
+  updatedTo?: string;
+
+  @ApiProperty({
+    description: 'true for documents with an uploaded file, false for text-only documents',
+    example: true,
+    required: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  hasFile?: boolean;
+
+  @ApiProperty({
+    description: 'Only documents in this folder',
+    example: 4,
+    required: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  folderId?: number;
+
+  @ApiProperty({
+    description: 'With folderId, also include documents in all subfolders',
+    example: false,
+    required: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  recursive?: boolean = false;
+
+  @ApiProperty({
+    description: 'Filter by tag names, comma-separated',
+    example: 'invoice,urgent',
+    required: false,
+    type: String
+  })
+  @IsOptional()
+  // Accept both tags=a,b and repeated tags=a&tags=b
+  @Transform(({ value }) => [].concat(value).flatMap(tag => String(tag).split(',')).filter(tag => tag.trim()))
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'any matches documents with at least one of the tags, all requires every tag',
+    enum: ['any', 'all'],
+    example: 'any',
+    required: false
+  })
+  @IsOptional()
+  @IsIn(['any', 'all'])
+  tagMode?: 'any' | 'all' = 'any';
+
+  @ApiProperty({
+    description: 'Sort field (relevance applies when searching)',
+    enum: DOCUMENT_SORT_FIELDS,
+    example: 'createdAt',
+    required: false
+  })
+  @IsOptional()
+  @IsIn(DOCUMENT_SORT_FIELDS)
   sortBy?: string = 'createdAt';
 
   @ApiProperty({
     description: 'Sort order',
+    enum: ['ASC', 'DESC'],
     example: 'DESC',
     required: false
   })
   @IsOptional()
-  @IsString()
+  @IsIn(['ASC', 'DESC'])
   sortOrder?: 'ASC' | 'DESC' = 'DESC';
-} 
\ No newline at end of file
+}
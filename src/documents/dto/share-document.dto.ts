@@ -0,0 +1,20 @@
+import { IsEnum, IsNumber } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { DocumentPermissionLevel } from '../entities/document-permission.entity';
+
+export class ShareDocumentDto {
+  @ApiProperty({
+    description: 'ID of the user to share the document with',
+    example: 2,
+  })
+  @IsNumber()
+  userId: number;
+
+  @ApiProperty({
+    description: 'Access level granted to the user',
+    enum: DocumentPermissionLevel,
+    example: DocumentPermissionLevel.EDIT,
+  })
+  @IsEnum(DocumentPermissionLevel)
+  level: DocumentPermissionLevel;
+}
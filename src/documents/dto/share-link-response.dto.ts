@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ShareLinkResponseDto {
+  @ApiProperty({ example: 3 })
+  id: number;
+
+  @ApiProperty({ example: 1 })
+  documentId: number;
+
+  @ApiProperty({ example: 'q4Zs0bX1c3cI8o0ZpC8bFq0l3Zg2N7xw' })
+  token: string;
+
+  @ApiProperty({
+    example: '/public/documents/q4Zs0bX1c3cI8o0ZpC8bFq0l3Zg2N7xw',
+  })
+  url: string;
+
+  @ApiProperty({ example: true })
+  passwordProtected: boolean;
+
+  @ApiProperty({ example: '2024-12-31T23:59:59Z', required: false })
+  expiresAt?: Date;
+
+  @ApiProperty({ example: null, required: false })
+  revokedAt?: Date;
+
+  @ApiProperty({ example: 12 })
+  accessCount: number;
+
+  @ApiProperty({ example: '2024-01-20T08:00:00Z', required: false })
+  lastAccessedAt?: Date;
+
+  @ApiProperty({ example: 1 })
+  createdById: number;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  createdAt: Date;
+}
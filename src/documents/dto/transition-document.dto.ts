@@ -0,0 +1,14 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TransitionDocumentDto {
+  @ApiProperty({
+    description: 'Optional comment recorded with the transition',
+    example: 'Looks good, approved for publication',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
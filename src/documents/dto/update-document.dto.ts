@@ -1,4 +1,5 @@
-import { PartialType } from '@nestjs/swagger';
+import { PartialType, OmitType } from '@nestjs/swagger';
 import { CreateDocumentDto } from './create-document.dto';
 
-export class UpdateDocumentDto extends PartialType(CreateDocumentDto) {} 
\ No newline at end of file
+// Documents change folders through POST /documents/:id/move, which checks the target folder
+export class UpdateDocumentDto extends PartialType(OmitType(CreateDocumentDto, ['folderId'] as const)) {}
@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Users } from '../../users/entities/user.entity';
+import { Document } from './document.entity';
+
+// A signed download URL; the signature covers the ID and expiry
+@Entity('document_download_urls')
+export class DocumentDownloadUrl {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Index()
+  @Column()
+  documentId: number;
+
+  // The URL grants the access its creator has, checked again on every use
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  createdBy: Users;
+
+  @Column()
+  createdById: number;
+
+  @Index()
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ default: false })
+  singleUse: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Users } from '../../users/entities/user.entity';
+import { Document } from './document.entity';
+
+export enum DocumentPermissionLevel {
+  VIEW = 'view', // Read and download
+  EDIT = 'edit', // VIEW plus update, restore versions and workflow actions
+  MANAGE = 'manage', // EDIT plus delete and managing shares
+}
+
+// Ordered so that a higher rank includes everything below it
+export const PERMISSION_LEVEL_RANK: Record<DocumentPermissionLevel, number> = {
+  [DocumentPermissionLevel.VIEW]: 1,
+  [DocumentPermissionLevel.EDIT]: 2,
+  [DocumentPermissionLevel.MANAGE]: 3,
+};
+
+// Grants are per user for now; a nullable group grantee can be added alongside
+// userId without changing how access levels are evaluated.
+@Entity('document_permissions')
+@Unique(['documentId', 'userId'])
+export class DocumentPermission {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Document, (document) => document.permissions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: number;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: Users;
+
+  @Column()
+  userId: number;
+
+  @Column({ type: 'varchar', length: 16 })
+  level: DocumentPermissionLevel;
+
+  @ManyToOne(() => Users, { nullable: true, onDelete: 'SET NULL' })
+  grantedBy: Users;
+
+  @Column({ nullable: true })
+  grantedById: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
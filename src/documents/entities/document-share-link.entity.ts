@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Users } from '../../users/entities/user.entity';
+import { Document } from './document.entity';
+
+@Entity('document_share_links')
+export class DocumentShareLink {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: number;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  token: string;
+
+  @Column({ type: 'varchar', nullable: true, select: false })
+  passwordHash: string;
+
+  @Column({ default: false })
+  passwordProtected: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date;
+
+  @Column({ type: 'int', default: 0 })
+  accessCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAccessedAt: Date;
+
+  @ManyToOne(() => Users, { nullable: true, onDelete: 'SET NULL' })
+  createdBy: Users;
+
+  @Column({ nullable: true })
+  createdById: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  JoinColumn,
+} from 'typeorm';
+import { Users } from '../../users/entities/user.entity';
+import { Document } from './document.entity';
+
+export enum DocumentAction {
+  SUBMIT = 'submit',
+  APPROVE = 'approve',
+  REJECT = 'reject',
+  ARCHIVE = 'archive',
+}
+
+@Entity('document_transitions')
+export class DocumentTransition {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: number;
+
+  @Column({ type: 'varchar', length: 32 })
+  action: DocumentAction;
+
+  @Column({ type: 'varchar', length: 32 })
+  fromStatus: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  toStatus: string;
+
+  @Column({ type: 'text', nullable: true })
+  comment: string;
+
+  @ManyToOne(() => Users, { nullable: true, onDelete: 'SET NULL' })
+  performedBy: Users;
+
+  @Column({ nullable: true })
+  performedById: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
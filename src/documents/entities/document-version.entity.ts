@@ -0,0 +1,74 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Users } from '../../users/entities/user.entity';
+import { Document } from './document.entity';
+
+@Entity('document_versions')
+@Unique(['documentId', 'versionNumber'])
+export class DocumentVersion {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Document, (document) => document.versions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: number;
+
+  @Column({ type: 'int' })
+  versionNumber: number;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  @Column({ type: 'text', nullable: true })
+  content: string;
+
+  @Column({ nullable: true })
+  fileName: string;
+
+  @Column({ nullable: true })
+  originalFileName: string;
+
+  // Key in the configured storage backend. The column keeps its old name so
+  // rows written before storage keys existed survive schema sync.
+  @Column({ name: 'filePath', nullable: true })
+  storageKey: string;
+
+  @Column({ length: 64, nullable: true })
+  checksum: string;
+
+  @Column({ nullable: true })
+  fileSize: number;
+
+  @Column({ nullable: true })
+  mimeType: string;
+
+  @Column({ nullable: true })
+  status: string;
+
+  @Column({ type: 'text', nullable: true })
+  changeNote: string; // e.g. "Restored from version 2"
+
+  @ManyToOne(() => Users, { nullable: true, onDelete: 'SET NULL' })
+  createdBy: Users;
+
+  @Column({ nullable: true })
+  createdById: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,5 +1,31 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, ManyToMany, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, JoinColumn, JoinTable, Index } from 'typeorm';
 import { Users } from '../../users/entities/user.entity';
+import { DocumentVersion } from './document-version.entity';
+import { DocumentPermission, DocumentPermissionLevel } from './document-permission.entity';
+import { Tag } from '../../tags/entities/tag.entity';
+import { Folder } from '../../folders/entities/folder.entity';
+
+export enum DocumentStatus {
+  DRAFT = 'draft',
+  IN_REVIEW = 'in_review',
+  PUBLISHED = 'published',
+  ARCHIVED = 'archived'
+}
+
+export enum DocumentScanStatus {
+  PENDING = 'pending',
+  CLEAN = 'clean',
+  INFECTED = 'infected',
+  ERROR = 'error'
+}
+
+// Weighted so title matches rank above description, content and extracted text
+const SEARCH_VECTOR_EXPRESSION = [
+  `setweight(to_tsvector('english', coalesce("title", '')), 'A')`,
+  `setweight(to_tsvector('english', coalesce("description", '')), 'B')`,
+  `setweight(to_tsvector('english', coalesce("content", '')), 'C')`,
+  `setweight(to_tsvector('english', coalesce("extractedText", '')), 'D')`,
+].join(' || ');
 
 @Entity()
 export class Document {
@@ -18,8 +44,27 @@ export class Document {
   @Column({ nullable: true })
   originalFileName: string;
 
+  // Key in the configured storage backend. The column keeps its old name so
+  // rows written before storage keys existed survive schema sync.
+  @Column({ name: 'filePath', nullable: true })
+  storageKey: string;
+
+  // SHA-256 of the file, hex encoded
+  @Index()
+  @Column({ length: 64, nullable: true })
+  checksum: string;
+
+  // Result of the malware scan of the current file, shared by every document
+  // storing the same file. Null for documents without a file.
+  @Index()
+  @Column({ type: 'varchar', length: 16, nullable: true })
+  scanStatus: DocumentScanStatus;
+
   @Column({ nullable: true })
-  filePath: string;
+  scanSignature: string; // Malware found by the scanner, if any
+
+  @Column({ type: 'timestamp', nullable: true })
+  scannedAt: Date;
 
   @Column({ nullable: true })
   fileSize: number;
@@ -30,8 +75,68 @@ export class Document {
   @Column({ type: 'text', nullable: true })
   content: string;
 
-  @Column({ default: 'draft' })
-  status: string; // draft, published, archived
+  // Text produced by OCR/text extraction ingestion jobs, indexed for search
+  @Column({ type: 'text', nullable: true, select: false })
+  extractedText: string;
+
+  // Maintained by Postgres on every write; the GIN index is created by
+  // DocumentsService.onModuleInit because TypeORM cannot declare GIN indexes
+  @Index('IDX_document_search_vector', { synchronize: false })
+  @Column({
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: SEARCH_VECTOR_EXPRESSION,
+  })
+  searchVector: string;
+
+  @Column({ default: DocumentStatus.DRAFT })
+  status: DocumentStatus; // Only changed through DocumentWorkflowService transitions
+
+  @Column({ default: false })
+  isPublic: boolean; // Readable by every authenticated user
+
+  @Column({ type: 'int', default: 1 })
+  currentVersion: number;
+
+  @OneToMany(() => DocumentVersion, version => version.document)
+  versions: DocumentVersion[];
+
+  @OneToMany(() => DocumentPermission, permission => permission.document)
+  permissions: DocumentPermission[];
+
+  @ManyToOne(() => Folder, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'folderId' })
+  folder: Folder;
+
+  @Index()
+  @Column({ nullable: true })
+  folderId: number; // Null for documents at the top level
+
+  // Access the requesting user inherits from the folder tree, set by DocumentsService (not a column)
+  folderAccessLevel?: DocumentPermissionLevel;
+
+  // Only changed through TagsService; loaded onto responses by TagsService.attachTags
+  @ManyToMany(() => Tag)
+  @JoinTable({
+    name: 'document_tags',
+    joinColumn: { name: 'documentId' },
+    inverseJoinColumn: { name: 'tagId' },
+  })
+  tags: Tag[];
+
+  // The requesting user's share grant, mapped by DocumentsService.findOne (not a column)
+  accessGrant?: DocumentPermission;
+
+  // Full-text search relevance and highlighted snippet, set on search results only
+  searchRank?: number;
+  searchHighlight?: string;
+
+  // Earlier uploads of the same file by the uploader, set when an upload duplicates them
+  duplicates?: { id: number; title: string }[];
 
   @ManyToOne(() => Users, { onDelete: 'CASCADE' })
   createdBy: Users;
@@ -50,4 +155,15 @@ export class Document {
 
   @UpdateDateColumn()
   updatedAt: Date;
+
+  // Set when the document is moved to the trash; soft-deleted rows are
+  // excluded from find() and query builders unless withDeleted() is used.
+  @DeleteDateColumn()
+  deletedAt: Date;
+
+  @ManyToOne(() => Users, { nullable: true, onDelete: 'SET NULL' })
+  deletedBy: Users;
+
+  @Column({ nullable: true })
+  deletedById: number;
 }
\ No newline at end of file
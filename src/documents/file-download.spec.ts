@@ -0,0 +1,107 @@
+import * as express from 'express';
+import * as request from 'supertest';
+import { Readable } from 'stream';
+import { FileDownload, sendFileDownload } from './file-download';
+
+describe('sendFileDownload', () => {
+  const content = '0123456789';
+  const lastModified = new Date('2024-03-01T12:00:00Z');
+  let download: FileDownload;
+  let app: express.Express;
+
+  beforeEach(() => {
+    download = {
+      fileName: 'report.pdf',
+      mimeType: 'application/pdf',
+      size: content.length,
+      etag: '"abc123"',
+      lastModified,
+      open: jest.fn(async (range) =>
+        Readable.from([
+          Buffer.from(
+            range ? content.slice(range.start, range.end + 1) : content,
+          ),
+        ]),
+      ),
+    };
+
+    app = express();
+    app.get('/download', (req, res) =>
+      sendFileDownload(req, res, download, req.query.inline === 'true'),
+    );
+  });
+
+  it('should send the whole file as an attachment with validators', async () => {
+    const response = await request(app).get('/download').expect(200);
+
+    expect(response.headers['content-type']).toBe('application/pdf');
+    expect(response.headers['content-disposition']).toBe(
+      'attachment; filename="report.pdf"',
+    );
+    expect(response.headers['content-length']).toBe('10');
+    expect(response.headers['accept-ranges']).toBe('bytes');
+    expect(response.headers['etag']).toBe('"abc123"');
+    expect(response.headers['last-modified']).toBe(lastModified.toUTCString());
+    expect(response.body.toString()).toBe(content);
+  });
+
+  it('should show the file inline when asked, except for active content', async () => {
+    const inline = await request(app).get('/download?inline=true');
+    expect(inline.headers['content-disposition']).toBe(
+      'inline; filename="report.pdf"',
+    );
+
+    download.mimeType = 'text/html';
+    const html = await request(app).get('/download?inline=true');
+    expect(html.headers['content-disposition']).toMatch(/^attachment/);
+  });
+
+  it('should send a single byte range as partial content', async () => {
+    const response = await request(app)
+      .get('/download')
+      .set('Range', 'bytes=2-5')
+      .expect(206);
+
+    expect(response.headers['content-range']).toBe('bytes 2-5/10');
+    expect(response.headers['content-length']).toBe('4');
+    expect(response.body.toString()).toBe('2345');
+    expect(download.open).toHaveBeenCalledWith({ start: 2, end: 5 });
+  });
+
+  it('should reject ranges outside the file', async () => {
+    const response = await request(app)
+      .get('/download')
+      .set('Range', 'bytes=20-30')
+      .expect(416);
+
+    expect(response.headers['content-range']).toBe('bytes */10');
+    expect(download.open).not.toHaveBeenCalled();
+  });
+
+  it('should send the whole file when If-Range no longer matches', async () => {
+    const response = await request(app)
+      .get('/download')
+      .set('Range', 'bytes=2-5')
+      .set('If-Range', '"outdated"')
+      .expect(200);
+
+    expect(response.body.toString()).toBe(content);
+  });
+
+  it('should answer matching conditional requests with 304', async () => {
+    await request(app)
+      .get('/download')
+      .set('If-None-Match', '"abc123"')
+      .expect(304);
+    await request(app)
+      .get('/download')
+      .set('If-Modified-Since', new Date('2024-03-02').toUTCString())
+      .expect(304);
+    await request(app)
+      .get('/download')
+      .set('If-None-Match', '"changed"')
+      .expect(200);
+
+    expect(download.open).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { ByteRange } from '../storage/storage-provider.interface';
+
+export interface FileDownload {
+  fileName: string;
+  mimeType: string;
+  size: number; // Null for files stored before sizes were recorded
+  etag: string; // Strong validator derived from the checksum, if known
+  lastModified: Date;
+  open: (range?: ByteRange) => Promise<Readable>;
+}
+
+// Types a browser would run scripts from, which are never shown inline
+const ACTIVE_CONTENT_TYPES = [
+  'text/html',
+  'application/xhtml+xml',
+  'image/svg+xml',
+  'application/xml',
+  'text/xml',
+];
+
+/**
+ * Stream a stored file to the client. Answers conditional requests
+ * (If-None-Match, If-Modified-Since) with 304 and single byte ranges with
+ * 206, so viewers can fetch large files piece by piece.
+ */
+export async function sendFileDownload(
+  req: Request,
+  res: Response,
+  download: FileDownload,
+  inline = false,
+): Promise<void> {
+  // Downloads are access controlled, so caches must revalidate every time
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  if (download.etag) {
+    res.setHeader('ETag', download.etag);
+  }
+  if (download.lastModified) {
+    res.setHeader('Last-Modified', download.lastModified.toUTCString());
+  }
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  const hasSize = download.size !== null && download.size !== undefined;
+  let range: ByteRange;
+
+  if (hasSize && req.headers.range && isRangeFresh(req, download)) {
+    const ranges = req.range(download.size, { combine: true });
+
+    if (ranges === -1) {
+      res.status(416).setHeader('Content-Range', `bytes */${download.size}`);
+      res.end();
+      return;
+    }
+
+    // Malformed and multi-part ranges get the whole file, which RFC 9110 allows
+    if (
+      Array.isArray(ranges) &&
+      ranges.type === 'bytes' &&
+      ranges.length === 1
+    ) {
+      range = ranges[0];
+    }
+  }
+
+  // Open the file before setting any more headers, so a missing file still
+  // gets a normal error response
+  const stream = req.method === 'HEAD' ? null : await download.open(range);
+
+  // res.attachment takes care of encoding non-ASCII file names
+  res.attachment(download.fileName);
+  if (inline && !ACTIVE_CONTENT_TYPES.includes(download.mimeType)) {
+    res.setHeader(
+      'Content-Disposition',
+      res.get('Content-Disposition').replace(/^attachment/, 'inline'),
+    );
+  }
+  res.type(download.mimeType || 'application/octet-stream');
+
+  if (hasSize) {
+    res.setHeader('Accept-Ranges', 'bytes');
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader(
+      'Content-Range',
+      `bytes ${range.start}-${range.end}/${download.size}`,
+    );
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else if (hasSize) {
+    res.setHeader('Content-Length', download.size);
+  }
+
+  if (!stream) {
+    res.end();
+    return;
+  }
+
+  // Headers are already sent by the time a storage read fails, so just drop the connection
+  stream.on('error', (error) => res.destroy(error));
+  stream.pipe(res);
+}
+
+/**
+ * A Range request with If-Range only gets partial content while the file
+ * still matches the given ETag or date; otherwise the whole file is sent
+ */
+function isRangeFresh(req: Request, download: FileDownload): boolean {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) {
+    return true;
+  }
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return !!download.etag && ifRange === download.etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return (
+    !!download.lastModified &&
+    !Number.isNaN(date) &&
+    Math.floor(download.lastModified.getTime() / 1000) * 1000 <= date
+  );
+}
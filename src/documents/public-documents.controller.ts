@@ -0,0 +1,144 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Req,
+  Res,
+  Headers,
+  Query,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiHeader,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { DocumentsService } from './documents.service';
+import { sendFileDownload } from './file-download';
+
+// Anonymous access through share links; deliberately not guarded by JwtAuthGuard
+@ApiTags('Public Documents')
+@Controller('public/documents')
+export class PublicDocumentsController {
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  @Get(':token')
+  @ApiOperation({ summary: 'Open a document through a share link' })
+  @ApiHeader({
+    name: 'X-Share-Password',
+    required: false,
+    description: 'Password for protected links',
+  })
+  @ApiQuery({
+    name: 'password',
+    required: false,
+    description: 'Password for protected links (prefer the header)',
+  })
+  @ApiResponse({ status: 200, description: 'Document details' })
+  @ApiResponse({ status: 401, description: 'Password missing or invalid' })
+  @ApiResponse({ status: 404, description: 'Share link not found or revoked' })
+  @ApiResponse({ status: 410, description: 'Share link has expired' })
+  async findOne(
+    @Param('token') token: string,
+    @Headers('x-share-password') passwordHeader?: string,
+    @Query('password') passwordQuery?: string,
+  ) {
+    return this.documentsService.findByShareToken(
+      token,
+      passwordHeader || passwordQuery,
+    );
+  }
+
+  @Get(':token/download')
+  @ApiOperation({ summary: 'Download a document file through a share link' })
+  @ApiHeader({
+    name: 'X-Share-Password',
+    required: false,
+    description: 'Password for protected links',
+  })
+  @ApiQuery({
+    name: 'password',
+    required: false,
+    description: 'Password for protected links (prefer the header)',
+  })
+  @ApiQuery({
+    name: 'inline',
+    required: false,
+    type: Boolean,
+    description: 'Show the file in the browser instead of downloading it',
+  })
+  @ApiResponse({ status: 200, description: 'File download' })
+  @ApiResponse({ status: 206, description: 'Requested byte range of the file' })
+  @ApiResponse({
+    status: 304,
+    description: 'File has not changed since the cached copy',
+  })
+  @ApiResponse({ status: 401, description: 'Password missing or invalid' })
+  @ApiResponse({ status: 403, description: 'File quarantined as malware' })
+  @ApiResponse({ status: 404, description: 'Share link or file not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'File has not passed the malware scan yet',
+  })
+  @ApiResponse({ status: 410, description: 'Share link has expired' })
+  @ApiResponse({
+    status: 416,
+    description: 'Requested range is outside the file',
+  })
+  async downloadFile(
+    @Param('token') token: string,
+    @Req() req: Request,
+    @Res() res: Response,
+    @Headers('x-share-password') passwordHeader?: string,
+    @Query('password') passwordQuery?: string,
+    @Query('inline', new ParseBoolPipe({ optional: true })) inline?: boolean,
+  ) {
+    const download = await this.documentsService.downloadSharedFile(
+      token,
+      passwordHeader || passwordQuery,
+    );
+
+    await sendFileDownload(req, res, download, inline);
+  }
+
+  @Get('signed/:id')
+  @ApiOperation({ summary: 'Download a document file through a signed URL' })
+  @ApiQuery({ name: 'expires', description: 'Expiry from the signed URL' })
+  @ApiQuery({ name: 'signature', description: 'Signature from the signed URL' })
+  @ApiQuery({
+    name: 'inline',
+    required: false,
+    type: Boolean,
+    description: 'Show the file in the browser instead of downloading it',
+  })
+  @ApiResponse({ status: 200, description: 'File download' })
+  @ApiResponse({ status: 206, description: 'Requested byte range of the file' })
+  @ApiResponse({
+    status: 404,
+    description: 'URL unknown, tampered with or revoked, or file not found',
+  })
+  @ApiResponse({
+    status: 410,
+    description: 'URL has expired or a single-use URL was already used',
+  })
+  async downloadSignedFile(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Query('inline', new ParseBoolPipe({ optional: true })) inline?: boolean,
+  ) {
+    const download = await this.documentsService.downloadSignedFile(
+      id,
+      expires,
+      signature,
+    );
+
+    await sendFileDownload(req, res, download, inline);
+  }
+}
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TrashPurgeScheduler } from './trash-purge.scheduler';
+import { DocumentsService } from './documents.service';
+
+describe('TrashPurgeScheduler', () => {
+  let scheduler: TrashPurgeScheduler;
+
+  const mockDocumentsService = {
+    purgeExpiredTrash: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const DAY = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrashPurgeScheduler,
+        { provide: DocumentsService, useValue: mockDocumentsService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    scheduler = module.get<TrashPurgeScheduler>(TrashPurgeScheduler);
+    jest.spyOn(Date, 'now').mockReturnValue(new Date('2024-03-31').getTime());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should purge documents trashed before the configured retention period', async () => {
+    mockConfigService.get.mockReturnValue('7');
+    mockDocumentsService.purgeExpiredTrash.mockResolvedValue(2);
+
+    const result = await scheduler.purgeExpiredTrash();
+
+    expect(mockDocumentsService.purgeExpiredTrash).toHaveBeenCalledWith(
+      new Date(new Date('2024-03-31').getTime() - 7 * DAY),
+    );
+    expect(result).toBe(2);
+  });
+
+  it('should fall back to a 30 day retention period', async () => {
+    mockConfigService.get.mockReturnValue(undefined);
+    mockDocumentsService.purgeExpiredTrash.mockResolvedValue(0);
+
+    await scheduler.purgeExpiredTrash();
+
+    expect(mockDocumentsService.purgeExpiredTrash).toHaveBeenCalledWith(
+      new Date(new Date('2024-03-31').getTime() - 30 * DAY),
+    );
+  });
+
+  it('should treat an empty retention period as unset', async () => {
+    mockConfigService.get.mockReturnValue('');
+    mockDocumentsService.purgeExpiredTrash.mockResolvedValue(0);
+
+    await scheduler.purgeExpiredTrash();
+
+    expect(mockDocumentsService.purgeExpiredTrash).toHaveBeenCalledWith(
+      new Date(new Date('2024-03-31').getTime() - 30 * DAY),
+    );
+  });
+
+  it('should not throw when purging fails', async () => {
+    mockConfigService.get.mockReturnValue('1');
+    mockDocumentsService.purgeExpiredTrash.mockRejectedValue(
+      new Error('db down'),
+    );
+
+    await expect(scheduler.purgeExpiredTrash()).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,47 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DocumentsService } from './documents.service';
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+@Injectable()
+export class TrashPurgeScheduler {
+  private readonly logger = new Logger(TrashPurgeScheduler.name);
+
+  constructor(
+    private documentsService: DocumentsService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Permanently remove documents that have been in the trash longer than
+   * TRASH_RETENTION_DAYS, together with their stored files
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredTrash(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - this.getRetentionDays() * 24 * 60 * 60 * 1000,
+    );
+
+    try {
+      const purged = await this.documentsService.purgeExpiredTrash(cutoff);
+      if (purged > 0) {
+        this.logger.log(`Purged ${purged} documents from the trash`);
+      }
+      return purged;
+    } catch (error) {
+      this.logger.error(`Failed to purge trash: ${error.message}`);
+      return 0;
+    }
+  }
+
+  private getRetentionDays(): number {
+    // Compose files often set variables to an empty string, which is not 0 days
+    const value = `${this.configService.get('TRASH_RETENTION_DAYS') ?? ''}`;
+    const days = Number(value);
+    return value.trim() !== '' && Number.isFinite(days) && days >= 0
+      ? days
+      : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
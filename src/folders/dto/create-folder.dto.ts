@@ -0,0 +1,28 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateFolderDto {
+  @ApiProperty({
+    description: 'Folder name, unique among its siblings',
+    example: 'Contracts',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'Parent folder ID; omit to create a top-level folder',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  parentId?: number;
+}
@@ -0,0 +1,80 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class FolderResponseDto {
+  @ApiProperty({ example: 4 })
+  id: number;
+
+  @ApiProperty({ example: 'Contracts' })
+  name: string;
+
+  @ApiProperty({ example: 1, nullable: true })
+  parentId: number;
+
+  @ApiProperty({ example: '/1/4/' })
+  path: string;
+
+  @ApiProperty({ example: 1 })
+  createdById: number;
+
+  @ApiProperty({
+    example: 'manage',
+    required: false,
+    description: "The requesting user's effective access",
+  })
+  accessLevel?: string;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T14:45:00Z' })
+  updatedAt: Date;
+}
+
+export class FolderBreadcrumbDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 'Legal' })
+  name: string;
+}
+
+export class FolderContentsDto {
+  @ApiProperty({ type: FolderResponseDto })
+  folder: FolderResponseDto;
+
+  @ApiProperty({
+    type: [FolderBreadcrumbDto],
+    description:
+      'Ancestors from the top level down to and including the folder',
+  })
+  breadcrumbs: FolderBreadcrumbDto[];
+
+  @ApiProperty({ type: [FolderResponseDto], description: 'Direct subfolders' })
+  folders: FolderResponseDto[];
+}
+
+export class FolderShareResponseDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 4 })
+  folderId: number;
+
+  @ApiProperty({ example: 2 })
+  userId: number;
+
+  @ApiProperty({ example: 'editor@example.com' })
+  userEmail: string;
+
+  @ApiProperty({ example: 'view', enum: ['view', 'edit', 'manage'] })
+  level: string;
+
+  @ApiProperty({ example: 1 })
+  grantedById: number;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  updatedAt: Date;
+}
@@ -0,0 +1,32 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateFolderDto {
+  @ApiProperty({
+    description: 'New folder name',
+    example: 'Signed contracts',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiProperty({
+    description:
+      'New parent folder ID to move the folder; null moves it to the top level',
+    example: 2,
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  parentId?: number | null;
+}
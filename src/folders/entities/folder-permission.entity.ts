@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Users } from '../../users/entities/user.entity';
+import { Folder } from './folder.entity';
+import { DocumentPermissionLevel } from '../../documents/entities/document-permission.entity';
+
+// A grant on a folder applies to every folder and document beneath it
+@Entity('folder_permissions')
+@Unique(['folderId', 'userId'])
+export class FolderPermission {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Folder, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'folderId' })
+  folder: Folder;
+
+  @Column()
+  folderId: number;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: Users;
+
+  @Column()
+  userId: number;
+
+  @Column({ type: 'varchar', length: 16 })
+  level: DocumentPermissionLevel;
+
+  @ManyToOne(() => Users, { nullable: true, onDelete: 'SET NULL' })
+  grantedBy: Users;
+
+  @Column({ nullable: true })
+  grantedById: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
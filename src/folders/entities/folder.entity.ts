@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Users } from '../../users/entities/user.entity';
+import { DocumentPermissionLevel } from '../../documents/entities/document-permission.entity';
+
+@Entity('folders')
+export class Folder {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @ManyToOne(() => Folder, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parentId' })
+  parent: Folder;
+
+  @Column({ nullable: true })
+  parentId: number;
+
+  // IDs from the root down to this folder, e.g. /1/4/9/, so a whole subtree
+  // can be selected with a prefix match on the path
+  @Index()
+  @Column({ default: '/' })
+  path: string;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'createdById' })
+  createdBy: Users;
+
+  @Column()
+  createdById: number;
+
+  // The requesting user's effective access, set by FoldersService (not a column)
+  accessLevel?: DocumentPermissionLevel;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @DeleteDateColumn()
+  deletedAt: Date;
+
+  @ManyToOne(() => Users, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'deletedById' })
+  deletedBy: Users;
+
+  @Column({ nullable: true })
+  deletedById: number;
+}
@@ -0,0 +1,223 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { FoldersService } from './folders.service';
+import { CreateFolderDto } from './dto/create-folder.dto';
+import { UpdateFolderDto } from './dto/update-folder.dto';
+import {
+  FolderResponseDto,
+  FolderContentsDto,
+  FolderShareResponseDto,
+} from './dto/folder-response.dto';
+import { ShareDocumentDto } from '../documents/dto/share-document.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../common/constants';
+
+@ApiTags('Folders')
+@Controller('folders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class FoldersController {
+  constructor(private readonly foldersService: FoldersService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Create a folder, optionally inside another folder',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Folder created successfully',
+    type: FolderResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Access denied to the parent folder',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A sibling folder has the same name',
+  })
+  async create(@Body() createFolderDto: CreateFolderDto, @Request() req) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.create(createFolderDto, userId, userRoles);
+  }
+
+  @Get()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'List your top-level folders and folders shared with you (all top-level folders for admins)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Folders ordered by name',
+    type: [FolderResponseDto],
+  })
+  async findRoots(@Request() req) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.findRoots(userId, userRoles);
+  }
+
+  @Get(':id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Get a folder with its breadcrumbs and subfolders. List its documents with GET /documents?folderId=',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Folder contents',
+    type: FolderContentsDto,
+  })
+  @ApiResponse({ status: 404, description: 'Folder not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findContents(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.findContents(id, userId, userRoles);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Rename a folder or move it under another parent' })
+  @ApiResponse({
+    status: 200,
+    description: 'Folder updated successfully',
+    type: FolderResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Cannot move a folder into its own subtree',
+  })
+  @ApiResponse({ status: 404, description: 'Folder not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({
+    status: 409,
+    description: 'A sibling folder has the same name',
+  })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateFolderDto: UpdateFolderDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.update(id, updateFolderDto, userId, userRoles);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Move a folder with all its subfolders and documents to the trash',
+  })
+  @ApiResponse({ status: 200, description: 'Folder moved to trash' })
+  @ApiResponse({ status: 404, description: 'Folder not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async remove(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.remove(id, userId, userRoles);
+  }
+
+  @Post(':id/restore')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Restore a trashed folder with the subfolders and documents trashed with it',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Folder restored',
+    type: FolderResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Folder not found in trash' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({
+    status: 409,
+    description: 'The parent folder is in the trash',
+  })
+  async restore(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.restore(id, userId, userRoles);
+  }
+
+  @Get(':id/shares')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List users a folder is shared with' })
+  @ApiResponse({
+    status: 200,
+    description: 'Share grants on the folder',
+    type: [FolderShareResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Folder not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findShares(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.findShares(id, userId, userRoles);
+  }
+
+  @Post(':id/shares')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Share a folder with a user; the grant applies to everything in the folder',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Share granted or updated',
+    type: FolderShareResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Cannot share with the owner' })
+  @ApiResponse({ status: 404, description: 'Folder or user not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async share(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() shareDto: ShareDocumentDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.share(id, shareDto, userId, userRoles);
+  }
+
+  @Delete(':id/shares/:userId')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Revoke a user's access to a folder" })
+  @ApiResponse({ status: 200, description: 'Share revoked' })
+  @ApiResponse({ status: 404, description: 'Folder or share not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async revokeShare(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) targetUserId: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.foldersService.revokeShare(id, targetUserId, userId, userRoles);
+  }
+}
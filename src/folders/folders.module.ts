@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FoldersService } from './folders.service';
+import { FoldersController } from './folders.controller';
+import { Folder } from './entities/folder.entity';
+import { FolderPermission } from './entities/folder-permission.entity';
+import { Users } from '../users/entities/user.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Folder, FolderPermission, Users])],
+  controllers: [FoldersController],
+  providers: [FoldersService],
+  exports: [FoldersService],
+})
+export class FoldersModule {}
@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { FoldersService } from './folders.service';
+import { Folder } from './entities/folder.entity';
+import { FolderPermission } from './entities/folder-permission.entity';
+import { DocumentPermissionLevel } from '../documents/entities/document-permission.entity';
+import { Users } from '../users/entities/user.entity';
+import { UserRole } from '../common/constants';
+
+describe('FoldersService', () => {
+  let service: FoldersService;
+
+  const mockFoldersRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+    manager: { transaction: jest.fn() },
+  };
+
+  const mockPermissionsRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  // /1/ owned by user 1, /1/2/ shared with user 2, /1/2/3/ nested below it
+  const folders = [
+    { id: 1, name: 'Projects', parentId: null, path: '/1/', createdById: 1 },
+    { id: 2, name: 'Reports', parentId: 1, path: '/1/2/', createdById: 1 },
+    { id: 3, name: 'Q1', parentId: 2, path: '/1/2/3/', createdById: 1 },
+  ] as Folder[];
+
+  const withIds = (ids: number[]) =>
+    folders.filter((folder) => ids.includes(folder.id));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FoldersService,
+        {
+          provide: getRepositoryToken(Folder),
+          useValue: mockFoldersRepository,
+        },
+        {
+          provide: getRepositoryToken(FolderPermission),
+          useValue: mockPermissionsRepository,
+        },
+        {
+          provide: getRepositoryToken(Users),
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = module.get<FoldersService>(FoldersService);
+
+    // find() is called with In(ids) for paths and with createdById for ownership
+    mockFoldersRepository.find.mockImplementation(async ({ where }) => {
+      const candidates = withIds(where.id.value);
+      return where.createdById
+        ? candidates.filter(
+            (folder) => folder.createdById === where.createdById,
+          )
+        : candidates;
+    });
+    mockFoldersRepository.findOne.mockImplementation(async ({ where }) =>
+      where.id ? { ...folders.find((folder) => folder.id === where.id) } : null,
+    );
+    mockPermissionsRepository.find.mockResolvedValue([
+      { folderId: 2, userId: 2, level: DocumentPermissionLevel.EDIT },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should inherit a folder share into nested folders', async () => {
+    const levels = await service.findAccessLevels([1, 2, 3], 2);
+
+    expect(levels.get(1)).toBeUndefined();
+    expect(levels.get(2)).toBe(DocumentPermissionLevel.EDIT);
+    expect(levels.get(3)).toBe(DocumentPermissionLevel.EDIT);
+  });
+
+  it('should give the owner of an ancestor full access', async () => {
+    const levels = await service.findAccessLevels([3], 1);
+
+    expect(levels.get(3)).toBe(DocumentPermissionLevel.MANAGE);
+  });
+
+  it('should forbid users without access from opening a folder', async () => {
+    mockPermissionsRepository.find.mockResolvedValue([]);
+
+    await expect(service.findOne(3, 2, [UserRole.EDITOR])).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should not move a folder into one of its subfolders', async () => {
+    await expect(
+      service.update(2, { parentId: 3 }, 1, [UserRole.EDITOR]),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockFoldersRepository.manager.transaction).not.toHaveBeenCalled();
+  });
+
+  it('should require manage access to move a folder', async () => {
+    await expect(
+      service.update(3, { parentId: null }, 2, [UserRole.EDITOR]),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject a name already used by a sibling', async () => {
+    mockFoldersRepository.findOne.mockImplementation(async ({ where }) =>
+      where.id
+        ? { ...folders.find((folder) => folder.id === where.id) }
+        : { id: 9, name: where.name, parentId: where.parentId },
+    );
+
+    await expect(
+      service.update(3, { name: 'Taken' }, 1, [UserRole.EDITOR]),
+    ).rejects.toThrow(ConflictException);
+  });
+});
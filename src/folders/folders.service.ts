@@ -0,0 +1,584 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull, Not } from 'typeorm';
+import { Folder } from './entities/folder.entity';
+import { FolderPermission } from './entities/folder-permission.entity';
+import { CreateFolderDto } from './dto/create-folder.dto';
+import { UpdateFolderDto } from './dto/update-folder.dto';
+import { Document } from '../documents/entities/document.entity';
+import {
+  DocumentPermissionLevel,
+  PERMISSION_LEVEL_RANK,
+} from '../documents/entities/document-permission.entity';
+import { ShareDocumentDto } from '../documents/dto/share-document.dto';
+import { Users } from '../users/entities/user.entity';
+
+@Injectable()
+export class FoldersService {
+  constructor(
+    @InjectRepository(Folder)
+    private foldersRepository: Repository<Folder>,
+    @InjectRepository(FolderPermission)
+    private permissionsRepository: Repository<FolderPermission>,
+    @InjectRepository(Users)
+    private usersRepository: Repository<Users>,
+  ) {}
+
+  async create(
+    createFolderDto: CreateFolderDto,
+    userId: number,
+    userRoles: string[],
+  ): Promise<Folder> {
+    let parent: Folder = null;
+    if (createFolderDto.parentId) {
+      parent = await this.findOne(createFolderDto.parentId, userId, userRoles);
+      this.assertAccess(
+        parent,
+        DocumentPermissionLevel.EDIT,
+        'You cannot add folders to this folder',
+      );
+    }
+
+    const name = createFolderDto.name.trim();
+    await this.assertNameAvailable(name, parent ? parent.id : null, userId);
+
+    // The path includes the folder's own ID, so it is set once the ID exists
+    const folder = await this.foldersRepository.manager.transaction(
+      async (manager) => {
+        const savedFolder = await manager.save(
+          manager.create(Folder, {
+            name,
+            parentId: parent ? parent.id : null,
+            createdById: userId,
+          }),
+        );
+        savedFolder.path = `${parent ? parent.path : '/'}${savedFolder.id}/`;
+        return manager.save(savedFolder);
+      },
+    );
+
+    folder.accessLevel = DocumentPermissionLevel.MANAGE;
+    return folder;
+  }
+
+  /**
+   * Top-level folders of the user plus folders shared directly with them
+   */
+  async findRoots(userId: number, userRoles: string[]): Promise<Folder[]> {
+    let folders: Folder[];
+
+    if (userRoles.includes('admin')) {
+      folders = await this.foldersRepository.find({
+        where: { parentId: IsNull() },
+        order: { name: 'ASC' },
+      });
+    } else {
+      const ownedFolders = await this.foldersRepository.find({
+        where: { parentId: IsNull(), createdById: userId },
+        order: { name: 'ASC' },
+      });
+      const grants = await this.permissionsRepository.find({
+        where: { userId },
+        relations: ['folder'],
+      });
+      const sharedFolders = grants
+        .map((grant) => grant.folder)
+        .filter(Boolean)
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      folders = [...ownedFolders, ...sharedFolders];
+    }
+
+    await this.applyAccessLevels(folders, userId, userRoles);
+    return folders;
+  }
+
+  async findOne(
+    id: number,
+    userId: number,
+    userRoles: string[],
+  ): Promise<Folder> {
+    const folder = await this.foldersRepository.findOne({ where: { id } });
+
+    if (!folder) {
+      throw new NotFoundException('Folder not found');
+    }
+
+    await this.applyAccessLevels([folder], userId, userRoles);
+
+    if (!folder.accessLevel) {
+      throw new ForbiddenException('Access denied to this folder');
+    }
+
+    return folder;
+  }
+
+  /**
+   * A folder with its breadcrumbs and direct subfolders. Its documents are
+   * listed through GET /documents?folderId=
+   */
+  async findContents(id: number, userId: number, userRoles: string[]) {
+    const folder = await this.findOne(id, userId, userRoles);
+
+    const ancestorIds = this.parsePath(folder.path);
+    const ancestors = await this.foldersRepository.find({
+      where: { id: In(ancestorIds) },
+      select: ['id', 'name'],
+    });
+    const ancestorsById = new Map(
+      ancestors.map((ancestor) => [ancestor.id, ancestor]),
+    );
+    const breadcrumbs = ancestorIds
+      .map((ancestorId) => ancestorsById.get(ancestorId))
+      .filter(Boolean)
+      .map((ancestor) => ({ id: ancestor.id, name: ancestor.name }));
+
+    const folders = await this.foldersRepository.find({
+      where: { parentId: folder.id },
+      order: { name: 'ASC' },
+    });
+    await this.applyAccessLevels(folders, userId, userRoles);
+
+    return { folder, breadcrumbs, folders };
+  }
+
+  /**
+   * Rename a folder and/or move it under another parent
+   */
+  async update(
+    id: number,
+    updateFolderDto: UpdateFolderDto,
+    userId: number,
+    userRoles: string[],
+  ): Promise<Folder> {
+    const folder = await this.findOne(id, userId, userRoles);
+
+    const moving =
+      updateFolderDto.parentId !== undefined &&
+      updateFolderDto.parentId !== folder.parentId;
+    const name =
+      updateFolderDto.name !== undefined
+        ? updateFolderDto.name.trim()
+        : folder.name;
+
+    if (name !== folder.name) {
+      this.assertAccess(
+        folder,
+        DocumentPermissionLevel.EDIT,
+        'You cannot rename this folder',
+      );
+    }
+
+    let newParent: Folder = null;
+    if (moving) {
+      this.assertAccess(
+        folder,
+        DocumentPermissionLevel.MANAGE,
+        'You cannot move this folder',
+      );
+
+      if (updateFolderDto.parentId !== null) {
+        newParent = await this.findOne(
+          updateFolderDto.parentId,
+          userId,
+          userRoles,
+        );
+        this.assertAccess(
+          newParent,
+          DocumentPermissionLevel.EDIT,
+          'You cannot move folders into the target folder',
+        );
+
+        if (newParent.path.startsWith(folder.path)) {
+          throw new BadRequestException(
+            'A folder cannot be moved into itself or one of its subfolders',
+          );
+        }
+      }
+    }
+
+    const parentId = moving
+      ? newParent
+        ? newParent.id
+        : null
+      : folder.parentId;
+    await this.assertNameAvailable(
+      name,
+      parentId,
+      folder.createdById,
+      folder.id,
+    );
+
+    await this.foldersRepository.manager.transaction(async (manager) => {
+      if (moving) {
+        // Re-root the paths of the folder and everything beneath it
+        const newPath = `${newParent ? newParent.path : '/'}${folder.id}/`;
+        await manager.query(
+          'UPDATE folders SET path = $1 || substring(path from $2) WHERE path LIKE $3',
+          [newPath, folder.path.length + 1, `${folder.path}%`],
+        );
+      }
+
+      await manager.update(Folder, folder.id, { name, parentId });
+    });
+
+    return this.findOne(id, userId, userRoles);
+  }
+
+  /**
+   * Move a folder, its subfolders and all documents in them to the trash
+   */
+  async remove(id: number, userId: number, userRoles: string[]): Promise<void> {
+    const folder = await this.findOne(id, userId, userRoles);
+    this.assertAccess(
+      folder,
+      DocumentPermissionLevel.MANAGE,
+      'You cannot delete this folder',
+    );
+
+    const deletedAt = new Date();
+    const subtree = `${folder.path}%`;
+
+    await this.foldersRepository.manager.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder()
+        .update(Folder)
+        .set({ deletedAt, deletedById: userId })
+        .where('path LIKE :subtree', { subtree })
+        .andWhere('"deletedAt" IS NULL')
+        .execute();
+
+      await manager
+        .createQueryBuilder()
+        .update(Document)
+        .set({ deletedAt, deletedById: userId })
+        .where(
+          '"folderId" IN (SELECT id FROM folders WHERE path LIKE :subtree)',
+          { subtree },
+        )
+        .andWhere('"deletedAt" IS NULL')
+        .execute();
+    });
+  }
+
+  /**
+   * Bring back a trashed folder together with the subfolders and documents
+   * that were trashed with it
+   */
+  async restore(
+    id: number,
+    userId: number,
+    userRoles: string[],
+  ): Promise<Folder> {
+    const folder = await this.foldersRepository.findOne({
+      where: { id, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+
+    if (!folder) {
+      throw new NotFoundException('Folder not found in trash');
+    }
+
+    await this.applyAccessLevels([folder], userId, userRoles);
+    this.assertAccess(
+      folder,
+      DocumentPermissionLevel.MANAGE,
+      'You cannot restore this folder',
+    );
+
+    if (folder.parentId && !(await this.isActive(folder.parentId))) {
+      throw new ConflictException('Restore the parent folder first');
+    }
+
+    const subtree = `${folder.path}%`;
+
+    await this.foldersRepository.manager.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder()
+        .update(Folder)
+        .set({ deletedAt: null, deletedById: null })
+        .where('path LIKE :subtree', { subtree })
+        .andWhere('"deletedAt" = :deletedAt', { deletedAt: folder.deletedAt })
+        .execute();
+
+      await manager
+        .createQueryBuilder()
+        .update(Document)
+        .set({ deletedAt: null, deletedById: null })
+        .where(
+          '"folderId" IN (SELECT id FROM folders WHERE path LIKE :subtree)',
+          { subtree },
+        )
+        .andWhere('"deletedAt" = :deletedAt', { deletedAt: folder.deletedAt })
+        .execute();
+    });
+
+    return this.findOne(id, userId, userRoles);
+  }
+
+  /**
+   * Permanently delete folders trashed before the cutoff. Their documents are
+   * purged by DocumentsService first, since they were trashed at the same time.
+   */
+  async purgeExpiredTrash(deletedBefore: Date): Promise<number> {
+    const result = await this.foldersRepository
+      .createQueryBuilder()
+      .delete()
+      .from(Folder)
+      .where('"deletedAt" < :deletedBefore', { deletedBefore })
+      .execute();
+
+    return result.affected || 0;
+  }
+
+  async findShares(id: number, userId: number, userRoles: string[]) {
+    const folder = await this.findOne(id, userId, userRoles);
+    this.assertAccess(
+      folder,
+      DocumentPermissionLevel.MANAGE,
+      'You cannot manage shares of this folder',
+    );
+
+    const permissions = await this.permissionsRepository.find({
+      where: { folderId: id },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    });
+
+    return permissions.map((permission) => this.formatShare(permission));
+  }
+
+  /**
+   * Grant a user access to a folder and everything in it, replacing any existing grant
+   */
+  async share(
+    id: number,
+    shareDto: ShareDocumentDto,
+    userId: number,
+    userRoles: string[],
+  ) {
+    const folder = await this.findOne(id, userId, userRoles);
+    this.assertAccess(
+      folder,
+      DocumentPermissionLevel.MANAGE,
+      'You cannot manage shares of this folder',
+    );
+
+    if (shareDto.userId === folder.createdById) {
+      throw new BadRequestException('The folder owner already has full access');
+    }
+
+    const user = await this.usersRepository.findOne({
+      where: { id: shareDto.userId },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    let permission = await this.permissionsRepository.findOne({
+      where: { folderId: id, userId: shareDto.userId },
+    });
+
+    if (permission) {
+      permission.level = shareDto.level;
+      permission.grantedById = userId;
+    } else {
+      permission = this.permissionsRepository.create({
+        folderId: id,
+        userId: shareDto.userId,
+        level: shareDto.level,
+        grantedById: userId,
+      });
+    }
+
+    const savedPermission = await this.permissionsRepository.save(permission);
+    savedPermission.user = user;
+
+    return this.formatShare(savedPermission);
+  }
+
+  async revokeShare(
+    id: number,
+    targetUserId: number,
+    userId: number,
+    userRoles: string[],
+  ): Promise<void> {
+    const folder = await this.findOne(id, userId, userRoles);
+    this.assertAccess(
+      folder,
+      DocumentPermissionLevel.MANAGE,
+      'You cannot manage shares of this folder',
+    );
+
+    const permission = await this.permissionsRepository.findOne({
+      where: { folderId: id, userId: targetUserId },
+    });
+
+    if (!permission) {
+      throw new NotFoundException('Share not found');
+    }
+
+    await this.permissionsRepository.remove(permission);
+  }
+
+  /**
+   * Throw unless the user may put documents into the folder
+   */
+  async assertCanAddDocuments(
+    folderId: number,
+    userId: number,
+    userRoles: string[],
+  ): Promise<void> {
+    const folder = await this.findOne(folderId, userId, userRoles);
+    this.assertAccess(
+      folder,
+      DocumentPermissionLevel.EDIT,
+      'You cannot add documents to this folder',
+    );
+  }
+
+  async isActive(folderId: number): Promise<boolean> {
+    return (
+      (await this.foldersRepository.count({ where: { id: folderId } })) > 0
+    );
+  }
+
+  /**
+   * The access each folder grants the user through ownership of, or a share
+   * on, the folder or any of its ancestors. Folders without access are absent.
+   */
+  async findAccessLevels(
+    folderIds: number[],
+    userId: number,
+  ): Promise<Map<number, DocumentPermissionLevel>> {
+    const levels = new Map<number, DocumentPermissionLevel>();
+    const ids = [...new Set(folderIds.filter(Boolean))];
+    if (ids.length === 0) {
+      return levels;
+    }
+
+    const folders = await this.foldersRepository.find({
+      where: { id: In(ids) },
+      select: ['id', 'path'],
+      withDeleted: true,
+    });
+    const ancestorIds = [
+      ...new Set(folders.flatMap((folder) => this.parsePath(folder.path))),
+    ];
+
+    const ownedIds = new Set(
+      (
+        await this.foldersRepository.find({
+          where: { id: In(ancestorIds), createdById: userId },
+          select: ['id'],
+          withDeleted: true,
+        })
+      ).map((folder) => folder.id),
+    );
+    const grants = await this.permissionsRepository.find({
+      where: { folderId: In(ancestorIds), userId },
+    });
+    const grantLevels = new Map(
+      grants.map((grant) => [grant.folderId, grant.level]),
+    );
+
+    for (const folder of folders) {
+      let best: DocumentPermissionLevel = null;
+
+      for (const ancestorId of this.parsePath(folder.path)) {
+        const level = ownedIds.has(ancestorId)
+          ? DocumentPermissionLevel.MANAGE
+          : grantLevels.get(ancestorId);
+
+        if (
+          level &&
+          (!best || PERMISSION_LEVEL_RANK[level] > PERMISSION_LEVEL_RANK[best])
+        ) {
+          best = level;
+        }
+      }
+
+      if (best) {
+        levels.set(folder.id, best);
+      }
+    }
+
+    return levels;
+  }
+
+  private async applyAccessLevels(
+    folders: Folder[],
+    userId: number,
+    userRoles: string[],
+  ): Promise<void> {
+    if (userRoles.includes('admin')) {
+      folders.forEach(
+        (folder) => (folder.accessLevel = DocumentPermissionLevel.MANAGE),
+      );
+      return;
+    }
+
+    const levels = await this.findAccessLevels(
+      folders.map((folder) => folder.id),
+      userId,
+    );
+    folders.forEach((folder) => (folder.accessLevel = levels.get(folder.id)));
+  }
+
+  private assertAccess(
+    folder: Folder,
+    level: DocumentPermissionLevel,
+    message: string,
+  ): void {
+    if (
+      !folder.accessLevel ||
+      PERMISSION_LEVEL_RANK[folder.accessLevel] < PERMISSION_LEVEL_RANK[level]
+    ) {
+      throw new ForbiddenException(message);
+    }
+  }
+
+  // Top-level folders are only unique per owner
+  private async assertNameAvailable(
+    name: string,
+    parentId: number | null,
+    ownerId: number,
+    excludeId?: number,
+  ): Promise<void> {
+    const sibling = await this.foldersRepository.findOne({
+      where:
+        parentId === null
+          ? { name, parentId: IsNull(), createdById: ownerId }
+          : { name, parentId },
+    });
+
+    if (sibling && sibling.id !== excludeId) {
+      throw new ConflictException(
+        `A folder named '${name}' already exists here`,
+      );
+    }
+  }
+
+  private parsePath(path: string): number[] {
+    return path.split('/').filter(Boolean).map(Number);
+  }
+
+  private formatShare(permission: FolderPermission) {
+    return {
+      id: permission.id,
+      folderId: permission.folderId,
+      userId: permission.userId,
+      userEmail: permission.user ? permission.user.email : null,
+      level: permission.level,
+      grantedById: permission.grantedById,
+      createdAt: permission.createdAt,
+      updatedAt: permission.updatedAt,
+    };
+  }
+}
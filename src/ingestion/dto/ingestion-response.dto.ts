@@ -1,5 +1,9 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IngestionStatus, IngestionType } from '../entities/ingestion-job.entity';
+import {
+  IngestionStatus,
+  IngestionType,
+} from '../entities/ingestion-job.entity';
+import { IngestionTaskStatus } from '../entities/ingestion-task.entity';
 
 export class IngestionJobResponseDto {
   @ApiProperty()
@@ -61,4 +65,38 @@ export class IngestionJobResponseDto {
 
   @ApiProperty()
   updatedAt: Date;
-} 
\ No newline at end of file
+}
+export class IngestionTaskResponseDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  jobId: number;
+
+  @ApiProperty()
+  documentId: number;
+
+  @ApiProperty({ enum: IngestionTaskStatus })
+  status: IngestionTaskStatus;
+
+  @ApiProperty({ description: 'Times the document has been processed' })
+  attempts: number;
+
+  @ApiProperty({ required: false })
+  errorMessage?: string;
+
+  @ApiProperty({ required: false })
+  outputData?: any;
+
+  @ApiProperty({ required: false })
+  startedAt?: Date;
+
+  @ApiProperty({ required: false })
+  completedAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
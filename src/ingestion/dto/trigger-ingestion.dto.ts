@@ -1,4 +1,4 @@
-import { IsString, IsEnum, IsArray, IsNumber, IsOptional, IsObject, Min, Max } from 'class-validator';
+import { IsString, IsEnum, IsArray, ArrayNotEmpty, IsNumber, IsOptional, IsObject, Min, Max } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { IngestionType } from '../entities/ingestion-job.entity';
 
@@ -35,11 +35,12 @@ export class TriggerIngestionDto {
     type: [Number]
   })
   @IsArray()
+  @ArrayNotEmpty()
   @IsNumber({}, { each: true })
   documentIds: number[];
 
   @ApiProperty({
-    description: 'Processing parameters',
+    description: 'Processing parameters. For document classification, applyTags: true tags each document with its predicted category',
     example: {
       language: 'en',
       confidence: 0.8,
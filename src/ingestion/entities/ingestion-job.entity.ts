@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn, Index } from 'typeorm';
 import { Users } from '../../users/entities/user.entity';
 
 export enum IngestionStatus {
@@ -6,7 +6,10 @@ export enum IngestionStatus {
   PROCESSING = 'processing',
   COMPLETED = 'completed',
   FAILED = 'failed',
-  RETRYING = 'retrying'
+  RETRYING = 'retrying',
+  DEAD_LETTER = 'dead_letter', // Failed on every allowed retry
+  PAUSED = 'paused', // Held back from workers until resumed
+  CANCELLED = 'cancelled'
 }
 
 export enum IngestionType {
@@ -17,6 +20,7 @@ export enum IngestionType {
 }
 
 @Entity('ingestion_jobs')
+@Index(['status', 'createdAt'])
 export class IngestionJob {
   @PrimaryGeneratedColumn()
   id: number;
@@ -74,6 +78,12 @@ export class IngestionJob {
   @Column({ type: 'timestamp', nullable: true })
   nextRetryAt: Date;
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  leaseOwner: string; // Worker currently processing the job
+
+  @Column({ type: 'timestamp', nullable: true })
+  leaseExpiresAt: Date; // Renewed by the worker's heartbeat
+
   @ManyToOne(() => Users, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'created_by_id' })
   createdBy: Users;
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { IngestionJob } from './ingestion-job.entity';
+
+export enum IngestionTaskStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  SKIPPED = 'skipped', // Document deleted or of a type the job cannot process
+}
+
+// The processing of one document of an ingestion job
+@Entity('ingestion_tasks')
+@Index(['jobId', 'documentId'], { unique: true })
+export class IngestionTask {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => IngestionJob, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'jobId' })
+  job: IngestionJob;
+
+  @Column()
+  jobId: number;
+
+  // No foreign key, so the task history outlives a purged document
+  @Column()
+  documentId: number;
+
+  @Column({
+    type: 'enum',
+    enum: IngestionTaskStatus,
+    default: IngestionTaskStatus.PENDING,
+  })
+  status: IngestionTaskStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string;
+
+  @Column({ type: 'json', nullable: true })
+  outputData: any; // Processing result for this document
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { EventEmitter } from 'events';
+import { firstValueFrom } from 'rxjs';
+import { IngestionEventsService } from './ingestion-events.service';
+import { IngestionStatus } from './entities/ingestion-job.entity';
+
+describe('IngestionEventsService', () => {
+  let service: IngestionEventsService;
+
+  // Stands in for the pg client held for LISTEN
+  const listenClient = Object.assign(new EventEmitter(), {
+    query: jest.fn(),
+  });
+  const release = jest.fn();
+
+  const mockDataSource = {
+    query: jest.fn(),
+    driver: {
+      obtainMasterConnection: jest.fn(),
+    },
+  };
+
+  const notify = (payload: object) =>
+    listenClient.emit('notification', { payload: JSON.stringify(payload) });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IngestionEventsService,
+        { provide: DataSource, useValue: mockDataSource },
+      ],
+    }).compile();
+
+    service = module.get<IngestionEventsService>(IngestionEventsService);
+
+    listenClient.query.mockResolvedValue(undefined);
+    mockDataSource.driver.obtainMasterConnection.mockResolvedValue([
+      listenClient,
+      release,
+    ]);
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    listenClient.removeAllListeners();
+    jest.clearAllMocks();
+  });
+
+  it('should publish status changes through pg_notify', async () => {
+    await service.publishStatus({
+      id: 4,
+      createdById: 2,
+      status: IngestionStatus.FAILED,
+      progress: 50,
+      errorMessage: 'Processing failed',
+    });
+
+    expect(mockDataSource.query).toHaveBeenCalledWith(
+      'SELECT pg_notify($1, $2)',
+      [
+        'ingestion_job_events',
+        JSON.stringify({
+          type: 'status',
+          jobId: 4,
+          userId: 2,
+          status: IngestionStatus.FAILED,
+          progress: 50,
+          error: 'Processing failed',
+        }),
+      ],
+    );
+  });
+
+  it('should not throw when publishing fails', async () => {
+    mockDataSource.query.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      service.publishProgress({ id: 4, createdById: 2 }, 50, 9),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should deliver notifications only to the owner of the job', async () => {
+    const received = firstValueFrom(service.forUser(2));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    notify({ type: 'status', jobId: 3, userId: 1, status: 'pending' });
+    notify({ type: 'status', jobId: 4, userId: 2, status: 'pending' });
+
+    await expect(received).resolves.toMatchObject({ jobId: 4, userId: 2 });
+    expect(listenClient.query).toHaveBeenCalledWith(
+      'LISTEN ingestion_job_events',
+    );
+    expect(mockDataSource.driver.obtainMasterConnection).toHaveBeenCalledTimes(
+      1,
+    );
+  });
+
+  it('should resolve listen once LISTEN is in place', async () => {
+    await service.listen();
+
+    expect(listenClient.query).toHaveBeenCalledWith(
+      'LISTEN ingestion_job_events',
+    );
+  });
+
+  it('should release the listening connection on shutdown', async () => {
+    service.forJob(4).subscribe();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await service.onModuleDestroy();
+
+    expect(listenClient.query).toHaveBeenCalledWith(
+      'UNLISTEN ingestion_job_events',
+    );
+    expect(release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver';
+import { Observable, Subject, filter } from 'rxjs';
+import { IngestionJob, IngestionStatus } from './entities/ingestion-job.entity';
+
+// Postgres NOTIFY channel shared by every API instance and worker
+const CHANNEL = 'ingestion_job_events';
+
+const RECONNECT_DELAY_MS = 5000;
+
+export interface IngestionJobEvent {
+  type: 'status' | 'progress';
+  jobId: number;
+  userId: number; // Owner of the job, who may receive the event
+  status: IngestionStatus;
+  progress: number;
+  documentId?: number; // Document just finished, on progress events
+  error?: string;
+}
+
+// Statuses after which a job never changes again
+export const FINAL_INGESTION_STATUSES = [
+  IngestionStatus.COMPLETED,
+  IngestionStatus.CANCELLED,
+  IngestionStatus.DEAD_LETTER,
+];
+
+export function toStatusEvent(
+  job: Pick<
+    IngestionJob,
+    'id' | 'createdById' | 'status' | 'progress' | 'errorMessage'
+  >,
+): IngestionJobEvent {
+  return {
+    type: 'status',
+    jobId: job.id,
+    userId: job.createdById,
+    status: job.status,
+    progress: job.progress,
+    ...(job.errorMessage && { error: job.errorMessage }),
+  };
+}
+
+/**
+ * Fans job updates out to every API instance through Postgres LISTEN/NOTIFY,
+ * so a client streaming from one instance sees updates written by workers and
+ * other instances. Instances only listen once a client subscribes.
+ */
+@Injectable()
+export class IngestionEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(IngestionEventsService.name);
+  private readonly events = new Subject<IngestionJobEvent>();
+  private listening: Promise<void> = null;
+  private connection: { client: any; release: (error?: Error) => void } = null;
+  private reconnectTimer: NodeJS.Timeout = null;
+  private destroyed = false;
+
+  constructor(private dataSource: DataSource) {}
+
+  async onModuleDestroy(): Promise<void> {
+    this.destroyed = true;
+    clearTimeout(this.reconnectTimer);
+    this.events.complete();
+
+    if (this.connection) {
+      const { client, release } = this.connection;
+      this.connection = null;
+      await client.query(`UNLISTEN ${CHANNEL}`).catch(() => undefined);
+      release();
+    }
+  }
+
+  /**
+   * Announce a change of a job's status
+   */
+  async publishStatus(
+    job: Pick<
+      IngestionJob,
+      'id' | 'createdById' | 'status' | 'progress' | 'errorMessage'
+    >,
+  ): Promise<void> {
+    await this.publish(toStatusEvent(job));
+  }
+
+  /**
+   * Announce that a running job finished one of its documents, with the error
+   * when that document failed
+   */
+  async publishProgress(
+    job: Pick<IngestionJob, 'id' | 'createdById'>,
+    progress: number,
+    documentId: number,
+    error?: string,
+  ): Promise<void> {
+    await this.publish({
+      type: 'progress',
+      jobId: job.id,
+      userId: job.createdById,
+      status: IngestionStatus.PROCESSING,
+      progress,
+      documentId,
+      ...(error && { error }),
+    });
+  }
+
+  forUser(userId: number): Observable<IngestionJobEvent> {
+    this.listen();
+    return this.events.pipe(filter((event) => event.userId === userId));
+  }
+
+  forJob(jobId: number): Observable<IngestionJobEvent> {
+    this.listen();
+    return this.events.pipe(filter((event) => event.jobId === jobId));
+  }
+
+  // Events are informational, so failing to send one never fails the job
+  private async publish(event: IngestionJobEvent): Promise<void> {
+    try {
+      await this.dataSource.query('SELECT pg_notify($1, $2)', [
+        CHANNEL,
+        JSON.stringify(event),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish event for ingestion job ${event.jobId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Start listening for notifications. Resolves once LISTEN is in place, or
+   * once the first attempt has failed and a reconnect is scheduled.
+   */
+  listen(): Promise<void> {
+    if (!this.listening) {
+      this.listening = this.connect();
+    }
+    return this.listening;
+  }
+
+  // LISTEN needs a connection of its own, held for as long as the app runs
+  private async connect(): Promise<void> {
+    try {
+      const driver = this.dataSource.driver as PostgresDriver;
+      const [client, release] = await driver.obtainMasterConnection();
+      this.connection = { client, release: (error) => release(error) };
+
+      client.on('notification', (message) => this.receive(message.payload));
+      client.on('error', (error: Error) => this.reconnect(error));
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      this.reconnect(error);
+    }
+  }
+
+  private reconnect(error: Error): void {
+    this.logger.error(
+      `Lost the ingestion event connection: ${error.message}; reconnecting`,
+    );
+
+    if (this.connection) {
+      // Passing the error makes the pool discard the client
+      this.connection.release(error);
+      this.connection = null;
+    }
+
+    if (!this.destroyed) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = setTimeout(
+        () => this.connect(),
+        RECONNECT_DELAY_MS,
+      );
+    }
+  }
+
+  private receive(payload: string): void {
+    try {
+      this.events.next(JSON.parse(payload));
+    } catch (error) {
+      this.logger.warn(`Ignoring malformed ingestion event: ${payload}`);
+    }
+  }
+}
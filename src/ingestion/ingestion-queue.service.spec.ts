@@ -0,0 +1,187 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IngestionQueueService } from './ingestion-queue.service';
+import { IngestionEventsService } from './ingestion-events.service';
+import { IngestionJob, IngestionStatus } from './entities/ingestion-job.entity';
+
+describe('IngestionQueueService', () => {
+  let service: IngestionQueueService;
+
+  const queryBuilder = {
+    setLock: jest.fn().mockReturnThis(),
+    setOnLocked: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    setParameter: jest.fn().mockReturnThis(),
+    returning: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+    execute: jest.fn(),
+  };
+
+  const mockManager = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+    update: jest.fn(),
+  };
+
+  const mockRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+    update: jest.fn(),
+    exists: jest.fn(),
+    manager: {
+      transaction: jest.fn((work) => work(mockManager)),
+    },
+  };
+
+  const mockEventsService = {
+    publishStatus: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IngestionQueueService,
+        {
+          provide: getRepositoryToken(IngestionJob),
+          useValue: mockRepository,
+        },
+        { provide: IngestionEventsService, useValue: mockEventsService },
+      ],
+    }).compile();
+
+    service = module.get<IngestionQueueService>(IngestionQueueService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('claim', () => {
+    it('should lease the oldest queued job, skipping jobs locked by other workers', async () => {
+      queryBuilder.getOne.mockResolvedValue({ id: 7, createdById: 1 });
+
+      const job = await service.claim('worker-1', 30000);
+
+      expect(queryBuilder.setLock).toHaveBeenCalledWith('pessimistic_write');
+      expect(queryBuilder.setOnLocked).toHaveBeenCalledWith('skip_locked');
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'job.status IN (:...statuses)',
+        { statuses: [IngestionStatus.PENDING, IngestionStatus.RETRYING] },
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('job.createdAt', 'ASC');
+      expect(mockManager.update).toHaveBeenCalledWith(
+        IngestionJob,
+        7,
+        expect.objectContaining({
+          status: IngestionStatus.PROCESSING,
+          leaseOwner: 'worker-1',
+          leaseExpiresAt: expect.any(Date),
+        }),
+      );
+      expect(job).toEqual(
+        expect.objectContaining({ id: 7, leaseOwner: 'worker-1' }),
+      );
+      expect(mockEventsService.publishStatus).toHaveBeenCalledWith(job);
+    });
+
+    it('should return null when no job is queued', async () => {
+      queryBuilder.getOne.mockResolvedValue(null);
+
+      await expect(service.claim('worker-1', 30000)).resolves.toBeNull();
+      expect(mockManager.update).not.toHaveBeenCalled();
+      expect(mockEventsService.publishStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('should only extend a lease the worker still holds', async () => {
+      mockRepository.update.mockResolvedValue({ affected: 0 });
+
+      const held = await service.heartbeat(
+        { id: 7, leaseOwner: 'worker-1' } as IngestionJob,
+        30000,
+      );
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        { id: 7, leaseOwner: 'worker-1', status: IngestionStatus.PROCESSING },
+        { leaseExpiresAt: expect.any(Date) },
+      );
+      expect(held).toBe(false);
+    });
+  });
+
+  describe('requeueDueRetries', () => {
+    it('should queue due failed jobs with retries left and announce them', async () => {
+      queryBuilder.execute.mockResolvedValue({
+        affected: 1,
+        raw: [{ id: 7, createdById: 1 }],
+      });
+
+      const requeued = await service.requeueDueRetries();
+
+      expect(queryBuilder.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: IngestionStatus.RETRYING,
+          nextRetryAt: null,
+        }),
+      );
+      expect(queryBuilder.where).toHaveBeenCalledWith('status = :status', {
+        status: IngestionStatus.FAILED,
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '"retryCount" < "maxRetries"',
+      );
+      expect(queryBuilder.returning).toHaveBeenCalledWith([
+        'id',
+        'createdById',
+      ]);
+      expect(mockEventsService.publishStatus).toHaveBeenCalledWith({
+        id: 7,
+        createdById: 1,
+        status: IngestionStatus.RETRYING,
+        progress: 0,
+        errorMessage: null,
+      });
+      expect(requeued).toBe(1);
+    });
+  });
+
+  describe('reclaimStale', () => {
+    it('should requeue jobs whose lease expired, dead-lettering those out of retries', async () => {
+      const rows = [
+        { id: 7, createdById: 1, status: IngestionStatus.PENDING },
+        { id: 8, createdById: 1, status: IngestionStatus.DEAD_LETTER },
+      ];
+      queryBuilder.execute.mockResolvedValue({ affected: 2, raw: rows });
+
+      const reclaimed = await service.reclaimStale();
+
+      const changes = queryBuilder.set.mock.calls[0][0];
+      expect(changes.status()).toBe(
+        `CASE WHEN "retryCount" < "maxRetries" THEN 'pending' ELSE 'dead_letter' END::ingestion_jobs_status_enum`,
+      );
+      expect(changes.retryCount()).toContain('"retryCount" + 1');
+      expect(changes).toEqual(
+        expect.objectContaining({ leaseOwner: null, leaseExpiresAt: null }),
+      );
+      expect(queryBuilder.where).toHaveBeenCalledWith('status = :status', {
+        status: IngestionStatus.PROCESSING,
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '("leaseExpiresAt" IS NULL OR "leaseExpiresAt" < :now)',
+        { now: expect.any(Date) },
+      );
+      expect(queryBuilder.setParameter).toHaveBeenCalledWith(
+        'reclaimError',
+        expect.any(String),
+      );
+      expect(mockEventsService.publishStatus).toHaveBeenCalledTimes(2);
+      expect(mockEventsService.publishStatus).toHaveBeenCalledWith(rows[1]);
+      expect(reclaimed).toBe(2);
+    });
+  });
+});
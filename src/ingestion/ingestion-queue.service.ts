@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { IngestionJob, IngestionStatus } from './entities/ingestion-job.entity';
+import { IngestionEventsService } from './ingestion-events.service';
+
+// Statuses a worker may pick a job up from
+const QUEUED_STATUSES = [IngestionStatus.PENDING, IngestionStatus.RETRYING];
+
+// Postgres type TypeORM creates for IngestionJob.status
+const STATUS_ENUM_TYPE = 'ingestion_jobs_status_enum';
+
+const RECLAIM_ERROR =
+  'The worker processing the job stopped responding on every attempt';
+
+/**
+ * Ingestion jobs queued in the ingestion_jobs table. A worker claims a job by
+ * writing its ID and a lease expiry onto the row, and must renew the lease
+ * while it works; jobs whose lease runs out are handed to another worker.
+ */
+@Injectable()
+export class IngestionQueueService {
+  constructor(
+    @InjectRepository(IngestionJob)
+    private ingestionJobRepository: Repository<IngestionJob>,
+    private ingestionEventsService: IngestionEventsService,
+  ) {}
+
+  /**
+   * Take the oldest queued job, or null when there is none. SKIP LOCKED lets
+   * concurrent workers claim different jobs without waiting on each other.
+   */
+  async claim(workerId: string, leaseMs: number): Promise<IngestionJob | null> {
+    const claimed = await this.ingestionJobRepository.manager.transaction(
+      async (manager) => {
+        const job = await manager
+          .createQueryBuilder(IngestionJob, 'job')
+          .setLock('pessimistic_write')
+          .setOnLocked('skip_locked')
+          .where('job.status IN (:...statuses)', { statuses: QUEUED_STATUSES })
+          .orderBy('job.createdAt', 'ASC')
+          .addOrderBy('job.id', 'ASC')
+          .limit(1)
+          .getOne();
+
+        if (!job) {
+          return null;
+        }
+
+        const lease = {
+          status: IngestionStatus.PROCESSING,
+          leaseOwner: workerId,
+          leaseExpiresAt: new Date(Date.now() + leaseMs),
+          startedAt: new Date(),
+          progress: 0,
+        };
+        await manager.update(IngestionJob, job.id, lease);
+
+        return Object.assign(job, lease);
+      },
+    );
+
+    if (claimed) {
+      await this.ingestionEventsService.publishStatus(claimed);
+    }
+    return claimed;
+  }
+
+  /**
+   * Extend the lease on a job. Returns false when the worker no longer holds
+   * it, e.g. because the lease expired and the job was reclaimed.
+   */
+  async heartbeat(job: IngestionJob, leaseMs: number): Promise<boolean> {
+    const result = await this.ingestionJobRepository.update(
+      {
+        id: job.id,
+        leaseOwner: job.leaseOwner,
+        status: IngestionStatus.PROCESSING,
+      },
+      { leaseExpiresAt: new Date(Date.now() + leaseMs) },
+    );
+    return result.affected > 0;
+  }
+
+  /**
+   * Whether the worker should carry on with a job: it still holds the lease
+   * and nobody has cancelled or paused the job
+   */
+  async isActive(job: IngestionJob): Promise<boolean> {
+    return this.ingestionJobRepository.exists({
+      where: {
+        id: job.id,
+        leaseOwner: job.leaseOwner,
+        status: IngestionStatus.PROCESSING,
+      },
+    });
+  }
+
+  /**
+   * Queue failed jobs whose nextRetryAt has passed for another attempt. The
+   * status check in the same statement keeps concurrent schedulers from
+   * counting one retry twice.
+   */
+  async requeueDueRetries(): Promise<number> {
+    const result = await this.ingestionJobRepository
+      .createQueryBuilder()
+      .update(IngestionJob)
+      .set({
+        status: IngestionStatus.RETRYING,
+        retryCount: () => '"retryCount" + 1',
+        nextRetryAt: null,
+        errorMessage: null,
+        progress: 0,
+      })
+      .where('status = :status', { status: IngestionStatus.FAILED })
+      .andWhere('"nextRetryAt" <= :now', { now: new Date() })
+      .andWhere('"retryCount" < "maxRetries"')
+      .returning(['id', 'createdById'])
+      .execute();
+
+    await this.publishRequeued(result.raw, IngestionStatus.RETRYING);
+    return result.affected || 0;
+  }
+
+  /**
+   * Put jobs whose worker stopped renewing its lease back in the queue. Jobs
+   * processing without any lease were started before the queue existed and
+   * are requeued as well. A reclaim counts as a retry, so a job that keeps
+   * crashing or hanging its worker is dead-lettered once its retries are used
+   * up instead of being reclaimed forever.
+   */
+  async reclaimStale(): Promise<number> {
+    const retriesLeft = '"retryCount" < "maxRetries"';
+    const result = await this.ingestionJobRepository
+      .createQueryBuilder()
+      .update(IngestionJob)
+      .set({
+        // Enum values need a cast to the status column's type inside CASE
+        status: () =>
+          `CASE WHEN ${retriesLeft} THEN '${IngestionStatus.PENDING}' ELSE '${IngestionStatus.DEAD_LETTER}' END::${STATUS_ENUM_TYPE}`,
+        retryCount: () =>
+          `CASE WHEN ${retriesLeft} THEN "retryCount" + 1 ELSE "retryCount" END`,
+        errorMessage: () =>
+          `CASE WHEN ${retriesLeft} THEN NULL ELSE :reclaimError END`,
+        completedAt: () =>
+          `CASE WHEN ${retriesLeft} THEN NULL ELSE CURRENT_TIMESTAMP END`,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      })
+      .where('status = :status', { status: IngestionStatus.PROCESSING })
+      .andWhere('("leaseExpiresAt" IS NULL OR "leaseExpiresAt" < :now)', {
+        now: new Date(),
+      })
+      .setParameter('reclaimError', RECLAIM_ERROR)
+      .returning(['id', 'createdById', 'status', 'progress', 'errorMessage'])
+      .execute();
+
+    for (const row of result.raw || []) {
+      await this.ingestionEventsService.publishStatus(row);
+    }
+    return result.affected || 0;
+  }
+
+  private async publishRequeued(
+    rows: { id: number; createdById: number }[],
+    status: IngestionStatus,
+  ): Promise<void> {
+    for (const row of rows || []) {
+      await this.ingestionEventsService.publishStatus({
+        id: row.id,
+        createdById: row.createdById,
+        status,
+        progress: 0,
+        errorMessage: null,
+      });
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { IngestionRetryScheduler } from './ingestion-retry.scheduler';
+import { IngestionQueueService } from './ingestion-queue.service';
+
+describe('IngestionRetryScheduler', () => {
+  let scheduler: IngestionRetryScheduler;
+
+  const mockQueueService = {
+    requeueDueRetries: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IngestionRetryScheduler,
+        { provide: IngestionQueueService, useValue: mockQueueService },
+      ],
+    }).compile();
+
+    scheduler = module.get<IngestionRetryScheduler>(IngestionRetryScheduler);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should requeue failed jobs that are due for a retry', async () => {
+    mockQueueService.requeueDueRetries.mockResolvedValue(3);
+
+    await expect(scheduler.requeueDueRetries()).resolves.toBe(3);
+  });
+
+  it('should not throw when requeueing fails', async () => {
+    mockQueueService.requeueDueRetries.mockRejectedValue(new Error('db down'));
+
+    await expect(scheduler.requeueDueRetries()).resolves.toBe(0);
+  });
+});
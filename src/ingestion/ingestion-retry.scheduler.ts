@@ -0,0 +1,30 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IngestionQueueService } from './ingestion-queue.service';
+
+@Injectable()
+export class IngestionRetryScheduler {
+  private readonly logger = new Logger(IngestionRetryScheduler.name);
+
+  constructor(private ingestionQueueService: IngestionQueueService) {}
+
+  /**
+   * Requeue failed ingestion jobs once their backoff has passed; workers pick
+   * them up like new jobs
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async requeueDueRetries(): Promise<number> {
+    try {
+      const requeued = await this.ingestionQueueService.requeueDueRetries();
+      if (requeued > 0) {
+        this.logger.log(`Requeued ${requeued} failed ingestion jobs for retry`);
+      }
+      return requeued;
+    } catch (error) {
+      this.logger.error(
+        `Failed to requeue ingestion retries: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  IngestionTasksService,
+  calculateJobProgress,
+} from './ingestion-tasks.service';
+import {
+  IngestionTask,
+  IngestionTaskStatus,
+} from './entities/ingestion-task.entity';
+import { IngestionJob } from './entities/ingestion-job.entity';
+
+describe('IngestionTasksService', () => {
+  let service: IngestionTasksService;
+
+  const mockRepository = {
+    create: jest.fn((task) => task),
+    save: jest.fn(async (tasks) => tasks),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IngestionTasksService,
+        {
+          provide: getRepositoryToken(IngestionTask),
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<IngestionTasksService>(IngestionTasksService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create one pending task per document', async () => {
+    const tasks = await service.createForJob(7, [1, 2, 2]);
+
+    expect(tasks).toEqual([
+      expect.objectContaining({
+        jobId: 7,
+        documentId: 1,
+        status: IngestionTaskStatus.PENDING,
+      }),
+      expect.objectContaining({ jobId: 7, documentId: 2 }),
+    ]);
+  });
+
+  it('should create tasks for jobs queued without them', async () => {
+    mockRepository.find.mockResolvedValue([]);
+
+    const tasks = await service.findOrCreateForJob({
+      id: 7,
+      inputData: { documentIds: [3, 4] },
+    } as IngestionJob);
+
+    expect(tasks.map((task) => task.documentId)).toEqual([3, 4]);
+  });
+
+  it('should reuse the existing tasks of a job', async () => {
+    const existing = [{ id: 1, jobId: 7, documentId: 3 }];
+    mockRepository.find.mockResolvedValue(existing);
+
+    await expect(
+      service.findOrCreateForJob({ id: 7 } as IngestionJob),
+    ).resolves.toBe(existing);
+    expect(mockRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should count an attempt each time a task starts', async () => {
+    const task = {
+      id: 1,
+      attempts: 1,
+      status: IngestionTaskStatus.FAILED,
+      errorMessage: 'corrupt file',
+    } as IngestionTask;
+
+    await service.start(task);
+
+    expect(mockRepository.update).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({
+        status: IngestionTaskStatus.PROCESSING,
+        attempts: 2,
+        errorMessage: null,
+      }),
+    );
+    expect(task.attempts).toBe(2);
+  });
+
+  describe('calculateJobProgress', () => {
+    it('should count completed and skipped tasks as done', () => {
+      const progress = calculateJobProgress([
+        { status: IngestionTaskStatus.COMPLETED },
+        { status: IngestionTaskStatus.SKIPPED },
+        { status: IngestionTaskStatus.FAILED },
+        { status: IngestionTaskStatus.PENDING },
+      ]);
+
+      expect(progress).toBe(50);
+    });
+
+    it('should report a job without documents as done', () => {
+      expect(calculateJobProgress([])).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { IngestionJob } from './entities/ingestion-job.entity';
+import {
+  IngestionTask,
+  IngestionTaskStatus,
+} from './entities/ingestion-task.entity';
+
+// Statuses of tasks that are done for good and skipped when a job is retried
+const SETTLED_TASK_STATUSES = [
+  IngestionTaskStatus.COMPLETED,
+  IngestionTaskStatus.SKIPPED,
+];
+
+export function isTaskSettled(task: Pick<IngestionTask, 'status'>): boolean {
+  return SETTLED_TASK_STATUSES.includes(task.status);
+}
+
+// Job progress is the share of its documents that are done
+export function calculateJobProgress(
+  tasks: Pick<IngestionTask, 'status'>[],
+): number {
+  if (tasks.length === 0) {
+    return 100;
+  }
+
+  const settled = tasks.filter((task) => isTaskSettled(task)).length;
+  return Math.round((settled * 100) / tasks.length);
+}
+
+/**
+ * The per-document tasks of ingestion jobs. Each document of a job succeeds or
+ * fails on its own, and a retried job only processes the tasks not yet done.
+ */
+@Injectable()
+export class IngestionTasksService {
+  constructor(
+    @InjectRepository(IngestionTask)
+    private ingestionTaskRepository: Repository<IngestionTask>,
+  ) {}
+
+  async createForJob(
+    jobId: number,
+    documentIds: number[],
+  ): Promise<IngestionTask[]> {
+    const tasks = [...new Set(documentIds)].map((documentId) =>
+      this.ingestionTaskRepository.create({
+        jobId,
+        documentId,
+        status: IngestionTaskStatus.PENDING,
+        attempts: 0,
+      }),
+    );
+
+    return this.ingestionTaskRepository.save(tasks);
+  }
+
+  async findForJob(jobId: number): Promise<IngestionTask[]> {
+    return this.ingestionTaskRepository.find({
+      where: { jobId },
+      order: { id: 'ASC' },
+    });
+  }
+
+  /**
+   * The tasks of a job, creating them for jobs queued before jobs had tasks
+   */
+  async findOrCreateForJob(job: IngestionJob): Promise<IngestionTask[]> {
+    const tasks = await this.findForJob(job.id);
+    if (tasks.length > 0) {
+      return tasks;
+    }
+
+    return this.createForJob(job.id, job.inputData?.documentIds || []);
+  }
+
+  async start(task: IngestionTask): Promise<void> {
+    await this.apply(task, {
+      status: IngestionTaskStatus.PROCESSING,
+      attempts: task.attempts + 1,
+      errorMessage: null,
+      startedAt: new Date(),
+      completedAt: null,
+    });
+  }
+
+  async complete(task: IngestionTask, outputData: any): Promise<void> {
+    await this.apply(task, {
+      status: IngestionTaskStatus.COMPLETED,
+      outputData,
+      completedAt: new Date(),
+    });
+  }
+
+  async fail(task: IngestionTask, errorMessage: string): Promise<void> {
+    await this.apply(task, {
+      status: IngestionTaskStatus.FAILED,
+      errorMessage,
+      completedAt: new Date(),
+    });
+  }
+
+  async skip(task: IngestionTask, reason: string): Promise<void> {
+    await this.apply(task, {
+      status: IngestionTaskStatus.SKIPPED,
+      errorMessage: reason,
+      completedAt: new Date(),
+    });
+  }
+
+  // Put a task interrupted part-way back, to be picked up when the job runs again
+  async requeue(task: IngestionTask): Promise<void> {
+    await this.apply(task, {
+      status: IngestionTaskStatus.PENDING,
+      startedAt: null,
+    });
+  }
+
+  private async apply(
+    task: IngestionTask,
+    changes: Partial<IngestionTask>,
+  ): Promise<void> {
+    await this.ingestionTaskRepository.update(task.id, changes);
+    Object.assign(task, changes);
+  }
+}
@@ -1,11 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
 import { IngestionController } from './ingestion.controller';
 import { IngestionService } from './ingestion.service';
 import { TriggerIngestionDto } from './dto/trigger-ingestion.dto';
 import { WebhookStatusUpdateDto } from './dto/webhook-status-update.dto';
 import { IngestionJob, IngestionStatus, IngestionType } from './entities/ingestion-job.entity';
-import { User } from '../users/entities/user.entity';
+import { Users } from '../users/entities/user.entity';
 
 describe('IngestionController', () => {
   let controller: IngestionController;
@@ -16,6 +16,9 @@ describe('IngestionController', () => {
     findAll: jest.fn(),
     findOne: jest.fn(),
     retryJob: jest.fn(),
+    cancelJob: jest.fn(),
+    pauseJob: jest.fn(),
+    resumeJob: jest.fn(),
     updateJobStatus: jest.fn(),
   };
 
@@ -45,7 +48,9 @@ describe('IngestionController', () => {
     startedAt: null,
     completedAt: null,
     nextRetryAt: null,
-    createdBy: {} as User,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    createdBy: {} as Users,
     createdById: 1,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -92,7 +97,7 @@ describe('IngestionController', () => {
       const result = await controller.triggerIngestion(triggerDto, mockRequest);
 
       // Assert
-      expect(service.triggerIngestion).toHaveBeenCalledWith(triggerDto, mockUser.userId);
+      expect(service.triggerIngestion).toHaveBeenCalledWith(triggerDto, mockUser.userId, mockUser.roles);
       expect(result).toEqual(mockIngestionJob);
     });
 
@@ -105,7 +110,7 @@ describe('IngestionController', () => {
       await expect(controller.triggerIngestion(triggerDto, mockRequest)).rejects.toThrow(
         BadRequestException
       );
-      expect(service.triggerIngestion).toHaveBeenCalledWith(triggerDto, mockUser.userId);
+      expect(service.triggerIngestion).toHaveBeenCalledWith(triggerDto, mockUser.userId, mockUser.roles);
     });
 
     it('should handle missing optional fields', async () => {
@@ -120,7 +125,7 @@ describe('IngestionController', () => {
       const result = await controller.triggerIngestion(minimalDto, mockRequest);
 
       // Assert
-      expect(service.triggerIngestion).toHaveBeenCalledWith(minimalDto, mockUser.userId);
+      expect(service.triggerIngestion).toHaveBeenCalledWith(minimalDto, mockUser.userId, mockUser.roles);
       expect(result).toEqual(mockIngestionJob);
     });
   });
@@ -143,10 +148,10 @@ describe('IngestionController', () => {
       mockIngestionService.findAll.mockResolvedValue(mockPaginatedResponse);
 
       // Act
-      const result = await controller.findAll(1, 10, mockRequest);
+      const result = await controller.findAll({ page: 1, limit: 10 }, mockRequest);
 
       // Assert
-      expect(service.findAll).toHaveBeenCalledWith(mockUser.userId, 1, 10);
+      expect(service.findAll).toHaveBeenCalledWith(mockUser.userId, { page: 1, limit: 10 });
       expect(result).toEqual(mockPaginatedResponse);
     });
 
@@ -155,10 +160,10 @@ describe('IngestionController', () => {
       mockIngestionService.findAll.mockResolvedValue(mockPaginatedResponse);
 
       // Act
-      const result = await controller.findAll(undefined, undefined, mockRequest);
+      const result = await controller.findAll({}, mockRequest);
 
       // Assert
-      expect(service.findAll).toHaveBeenCalledWith(mockUser.userId, 1, 10);
+      expect(service.findAll).toHaveBeenCalledWith(mockUser.userId, {});
       expect(result).toEqual(mockPaginatedResponse);
     });
 
@@ -168,10 +173,10 @@ describe('IngestionController', () => {
       mockIngestionService.findAll.mockRejectedValue(error);
 
       // Act & Assert
-      await expect(controller.findAll(1, 10, mockRequest)).rejects.toThrow(
+      await expect(controller.findAll({ page: 1, limit: 10 }, mockRequest)).rejects.toThrow(
         BadRequestException
       );
-      expect(service.findAll).toHaveBeenCalledWith(mockUser.userId, 1, 10);
+      expect(service.findAll).toHaveBeenCalledWith(mockUser.userId, { page: 1, limit: 10 });
     });
 
     it('should handle empty results', async () => {
@@ -186,10 +191,10 @@ describe('IngestionController', () => {
       mockIngestionService.findAll.mockResolvedValue(emptyResponse);
 
       // Act
-      const result = await controller.findAll(1, 10, mockRequest);
+      const result = await controller.findAll({ page: 1, limit: 10 }, mockRequest);
 
       // Assert
-      expect(service.findAll).toHaveBeenCalledWith(mockUser.userId, 1, 10);
+      expect(service.findAll).toHaveBeenCalledWith(mockUser.userId, { page: 1, limit: 10 });
       expect(result).toEqual(emptyResponse);
     });
   });
@@ -301,6 +306,59 @@ describe('IngestionController', () => {
     });
   });
 
+  describe('cancelJob, pauseJob and resumeJob', () => {
+    const mockRequest = {
+      user: mockUser,
+    };
+
+    it('should cancel a job', async () => {
+      // Arrange
+      const cancelledJob = { ...mockIngestionJob, status: IngestionStatus.CANCELLED };
+      mockIngestionService.cancelJob.mockResolvedValue(cancelledJob);
+
+      // Act
+      const result = await controller.cancelJob(1, mockRequest);
+
+      // Assert
+      expect(service.cancelJob).toHaveBeenCalledWith(1, mockUser.userId);
+      expect(result).toEqual(cancelledJob);
+    });
+
+    it('should pause a job', async () => {
+      // Arrange
+      const pausedJob = { ...mockIngestionJob, status: IngestionStatus.PAUSED };
+      mockIngestionService.pauseJob.mockResolvedValue(pausedJob);
+
+      // Act
+      const result = await controller.pauseJob(1, mockRequest);
+
+      // Assert
+      expect(service.pauseJob).toHaveBeenCalledWith(1, mockUser.userId);
+      expect(result).toEqual(pausedJob);
+    });
+
+    it('should resume a job', async () => {
+      // Arrange
+      mockIngestionService.resumeJob.mockResolvedValue(mockIngestionJob);
+
+      // Act
+      const result = await controller.resumeJob(1, mockRequest);
+
+      // Assert
+      expect(service.resumeJob).toHaveBeenCalledWith(1, mockUser.userId);
+      expect(result).toEqual(mockIngestionJob);
+    });
+
+    it('should handle a job that is still stopping', async () => {
+      // Arrange
+      const error = new ConflictException('The job is still finishing its current document');
+      mockIngestionService.resumeJob.mockRejectedValue(error);
+
+      // Act & Assert
+      await expect(controller.resumeJob(1, mockRequest)).rejects.toThrow(ConflictException);
+    });
+  });
+
   describe('updateJobStatus', () => {
     const statusUpdateDto: WebhookStatusUpdateDto = {
       externalJobId: 'ext_job_123',
@@ -8,22 +8,29 @@ import {
   Request,
   ParseIntPipe,
   Query,
+  ValidationPipe,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable, map } from 'rxjs';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
-  ApiQuery,
 } from '@nestjs/swagger';
 import { IngestionService } from './ingestion.service';
 import { TriggerIngestionDto } from './dto/trigger-ingestion.dto';
-import { IngestionJobResponseDto } from './dto/ingestion-response.dto';
+import {
+  IngestionJobResponseDto,
+  IngestionTaskResponseDto,
+} from './dto/ingestion-response.dto';
 import { WebhookStatusUpdateDto } from './dto/webhook-status-update.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { UserRole } from '../common/constants';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
 
 @ApiTags('Ingestion')
 @Controller('ingestion')
@@ -48,18 +55,17 @@ export class IngestionController {
     @Request() req,
   ) {
     const userId = req.user.userId;
-    return this.ingestionService.triggerIngestion(triggerDto, userId);
+    const userRoles = req.user.roles;
+    return this.ingestionService.triggerIngestion(triggerDto, userId, userRoles);
   }
 
   // Ingestion Management API - Get all jobs
   @Get()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get all ingestion jobs for the current user' })
-  @ApiQuery({ name: 'page', required: false, type: Number, minimum: 1, description: 'Page number' })
-  @ApiQuery({ name: 'limit', required: false, type: Number, minimum: 1, maximum: 100, description: 'Items per page' })
   @ApiResponse({
     status: 200,
-    description: 'List of ingestion jobs with pagination',
+    description: 'List of ingestion jobs. Cursor pages return nextCursor/prevCursor instead of page/totalPages; withTotal=false omits total',
     schema: {
       type: 'object',
       properties: {
@@ -70,17 +76,62 @@ export class IngestionController {
         total: { type: 'number' },
         page: { type: 'number' },
         limit: { type: 'number' },
-        totalPages: { type: 'number' }
+        totalPages: { type: 'number' },
+        hasMore: { type: 'boolean' },
+        nextCursor: { type: 'string', nullable: true },
+        prevCursor: { type: 'string', nullable: true }
       }
     }
   })
+  @ApiResponse({ status: 400, description: 'Invalid pagination parameters or cursor' })
   async findAll(
-    @Query('page') page?: number,
-    @Query('limit') limit?: number,
-    @Request() req?: any,
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) paginationQuery: PaginationQueryDto,
+    @Request() req,
   ) {
     const userId = req.user.userId;
-    return this.ingestionService.findAll(userId, page || 1, limit || 10);
+    return this.ingestionService.findAll(userId, paginationQuery);
+  }
+
+  // Live job updates
+  @Sse('events')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Stream updates of all ingestion jobs of the current user',
+    description: 'Server-Sent Events. Each message is a JSON object with type (status or progress), jobId, status, progress, and documentId on progress events or error on failures.',
+  })
+  @ApiResponse({ status: 200, description: 'text/event-stream of job updates' })
+  streamEvents(@Request() req): Observable<MessageEvent> {
+    const userId = req.user.userId;
+    return this.ingestionService.watchJobs(userId).pipe(map(event => ({ data: event })));
+  }
+
+  // Jobs that exhausted their retries
+  @Get('dead-letter')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List dead-lettered ingestion jobs of all users (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Jobs that failed on every allowed retry, most recent first',
+    schema: {
+      type: 'object',
+      properties: {
+        jobs: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/IngestionJobResponseDto' }
+        },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' }
+      }
+    }
+  })
+  @ApiResponse({ status: 403, description: 'Admin role required' })
+  async findDeadLetters(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) paginationQuery: PaginationQueryDto,
+  ) {
+    return this.ingestionService.findDeadLetters(paginationQuery);
   }
 
   // Ingestion Management API - Get specific job
@@ -102,6 +153,42 @@ export class IngestionController {
     return this.ingestionService.findOne(id, userId);
   }
 
+  @Get(':id/tasks')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get the per-document tasks of an ingestion job',
+    description: 'One task per document, with its own status, attempts, timings, error and output.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tasks of the job',
+    type: [IngestionTaskResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Ingestion job not found' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  async findTasks(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.ingestionService.findTasks(id, userId);
+  }
+
+  @Sse(':id/events')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Stream updates of an ingestion job',
+    description: 'Server-Sent Events. Starts with the current status and ends once the job is completed, cancelled or dead-lettered. An unknown job or one of another user ends the stream with an error event.',
+  })
+  @ApiResponse({ status: 200, description: 'text/event-stream of job updates' })
+  streamJobEvents(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ): Observable<MessageEvent> {
+    const userId = req.user.userId;
+    return this.ingestionService.watchJob(id, userId).pipe(map(event => ({ data: event })));
+  }
+
   // Retry failed job
   @Post(':id/retry')
   @ApiBearerAuth()
@@ -122,6 +209,71 @@ export class IngestionController {
     return this.ingestionService.retryJob(id, userId);
   }
 
+  // Job control
+  @Post(':id/cancel')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cancel an ingestion job',
+    description: 'A running job stops after the document it is working on. The documents it finished keep their output on their tasks (GET /ingestion/:id/tasks).',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Job cancelled',
+    type: IngestionJobResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Job has already finished' })
+  @ApiResponse({ status: 404, description: 'Ingestion job not found' })
+  async cancelJob(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.ingestionService.cancelJob(id, userId);
+  }
+
+  @Post(':id/pause')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Pause an ingestion job',
+    description: 'Workers leave a paused job alone. A running job stops after the document it is working on; when resumed, it carries on with the tasks that have not finished.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Job paused',
+    type: IngestionJobResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Job is not pending or running' })
+  @ApiResponse({ status: 404, description: 'Ingestion job not found' })
+  async pauseJob(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.ingestionService.pauseJob(id, userId);
+  }
+
+  @Post(':id/resume')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Queue a paused ingestion job again',
+    description: 'The job carries on with the tasks that have not finished.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Job queued',
+    type: IngestionJobResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Job is not paused' })
+  @ApiResponse({ status: 404, description: 'Ingestion job not found' })
+  @ApiResponse({ status: 409, description: 'Job is still finishing the document it was processing when paused' })
+  async resumeJob(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.ingestionService.resumeJob(id, userId);
+  }
+
   // Webhook endpoint for external service to update job status
   @Post('webhook/status-update')
   @ApiBearerAuth()
@@ -141,6 +293,7 @@ export class IngestionController {
   })
   @ApiResponse({ status: 400, description: 'Bad request - invalid parameters' })
   @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'Job is finished or being processed by an ingestion worker' })
   async updateJobStatus(
     @Body() statusUpdate: WebhookStatusUpdateDto,
   ) {
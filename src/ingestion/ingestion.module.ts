@@ -2,17 +2,34 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { IngestionController } from './ingestion.controller';
 import { IngestionService } from './ingestion.service';
+import { IngestionQueueService } from './ingestion-queue.service';
+import { IngestionEventsService } from './ingestion-events.service';
+import { IngestionTasksService } from './ingestion-tasks.service';
+import { IngestionWorker } from './ingestion.worker';
+import { IngestionRetryScheduler } from './ingestion-retry.scheduler';
 import { IngestionJob } from './entities/ingestion-job.entity';
+import { IngestionTask } from './entities/ingestion-task.entity';
 import { Document } from '../documents/entities/document.entity';
 import { ProcessingModule } from '../processing/processing.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { TagsModule } from '../tags/tags.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([IngestionJob, Document]),
+    TypeOrmModule.forFeature([IngestionJob, IngestionTask, Document]),
     ProcessingModule,
+    DocumentsModule,
+    TagsModule,
   ],
   controllers: [IngestionController],
-  providers: [IngestionService],
-  exports: [IngestionService],
+  providers: [
+    IngestionService,
+    IngestionQueueService,
+    IngestionEventsService,
+    IngestionTasksService,
+    IngestionWorker,
+    IngestionRetryScheduler,
+  ],
+  exports: [IngestionService, IngestionWorker],
 })
-export class IngestionModule {}
\ No newline at end of file
+export class IngestionModule {}
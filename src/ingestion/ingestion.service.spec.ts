@@ -1,23 +1,25 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository, In } from 'typeorm';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { In } from 'typeorm';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
 import { IngestionService } from './ingestion.service';
 import { IngestionController } from './ingestion.controller';
 import { IngestionJob, IngestionStatus, IngestionType } from './entities/ingestion-job.entity';
+import { IngestionTask, IngestionTaskStatus } from './entities/ingestion-task.entity';
 import { Document } from '../documents/entities/document.entity';
 import { ProcessingService, ProcessingType } from '../processing/processing.service';
+import { DocumentsService } from '../documents/documents.service';
+import { TagsService } from '../tags/tags.service';
+import { IngestionEventsService } from './ingestion-events.service';
+import { IngestionTasksService } from './ingestion-tasks.service';
 import { TriggerIngestionDto } from './dto/trigger-ingestion.dto';
 import { WebhookStatusUpdateDto } from './dto/webhook-status-update.dto';
-import { User } from '../users/entities/user.entity';
+import { Users } from '../users/entities/user.entity';
 import { validate } from 'class-validator';
 
 describe('Ingestion Module', () => {
   let service: IngestionService;
   let controller: IngestionController;
-  let ingestionJobRepository: Repository<IngestionJob>;
-  let documentRepository: Repository<Document>;
-  let processingService: ProcessingService;
 
   const mockIngestionJobRepository = {
     create: jest.fn(),
@@ -25,6 +27,14 @@ describe('Ingestion Module', () => {
     findOne: jest.fn(),
     findAndCount: jest.fn(),
     find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockIngestionTaskRepository = {
+    create: jest.fn((task) => task),
+    save: jest.fn(async (tasks) => tasks),
+    find: jest.fn(),
+    update: jest.fn(),
   };
 
   const mockDocumentRepository = {
@@ -32,24 +42,36 @@ describe('Ingestion Module', () => {
   };
 
   const mockProcessingService = {
-    processDocument: jest.fn(),
+    supports: jest.fn(),
+    processDocuments: jest.fn(),
+  };
+
+  const mockDocumentsService = {
+    findAccessibleDocuments: jest.fn(),
+    updateExtractedText: jest.fn(),
+  };
+
+  const mockTagsService = {
+    addToDocument: jest.fn(),
   };
 
-  const mockUser: User = {
+  const mockIngestionEventsService = {
+    publishStatus: jest.fn(),
+    publishProgress: jest.fn(),
+  };
+
+  const mockUser = {
     id: 1,
     email: 'test@example.com',
-    password: 'hashedPassword',
     roles: ['admin'],
-    createdDocuments: [],
-    updatedDocuments: []
-  };
+  } as Users;
 
   const mockDocument = {
     id: 1,
     title: 'Test Document',
     fileName: 'test.pdf',
     originalFileName: 'test.pdf',
-    filePath: '/uploads/test.pdf',
+    storageKey: 'documents/test.pdf',
     mimeType: 'application/pdf',
     fileSize: 1024,
     createdById: 1,
@@ -76,21 +98,49 @@ describe('Ingestion Module', () => {
     startedAt: null,
     completedAt: null,
     nextRetryAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
     createdBy: mockUser,
     createdById: 1,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
+  // A job claimed by a worker, whose lease the job writes of processJob are conditional on
+  const leasedJob = (changes: Partial<IngestionJob> = {}): IngestionJob => ({
+    ...mockIngestionJob,
+    type: IngestionType.TEXT_EXTRACTION,
+    status: IngestionStatus.PROCESSING,
+    leaseOwner: 'worker-1',
+    leaseExpiresAt: new Date(Date.now() + 30000),
+    inputData: { documentIds: [1, 2] },
+    ...changes,
+  });
+
+  const pendingTask = (id: number, documentId: number) => ({
+    id,
+    jobId: 1,
+    documentId,
+    status: IngestionTaskStatus.PENDING,
+    attempts: 0,
+  } as IngestionTask);
+
+  const lease = { id: 1, leaseOwner: 'worker-1', status: IngestionStatus.PROCESSING };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [IngestionController],
       providers: [
         IngestionService,
+        IngestionTasksService,
         {
           provide: getRepositoryToken(IngestionJob),
           useValue: mockIngestionJobRepository,
         },
+        {
+          provide: getRepositoryToken(IngestionTask),
+          useValue: mockIngestionTaskRepository,
+        },
         {
           provide: getRepositoryToken(Document),
           useValue: mockDocumentRepository,
@@ -99,14 +149,26 @@ describe('Ingestion Module', () => {
           provide: ProcessingService,
           useValue: mockProcessingService,
         },
+        {
+          provide: DocumentsService,
+          useValue: mockDocumentsService,
+        },
+        {
+          provide: TagsService,
+          useValue: mockTagsService,
+        },
+        {
+          provide: IngestionEventsService,
+          useValue: mockIngestionEventsService,
+        },
       ],
     }).compile();
 
     service = module.get<IngestionService>(IngestionService);
     controller = module.get<IngestionController>(IngestionController);
-    ingestionJobRepository = module.get<Repository<IngestionJob>>(getRepositoryToken(IngestionJob));
-    documentRepository = module.get<Repository<Document>>(getRepositoryToken(Document));
-    processingService = module.get<ProcessingService>(ProcessingService);
+
+    mockIngestionJobRepository.update.mockResolvedValue({ affected: 1 });
+    mockProcessingService.supports.mockReturnValue(true);
   });
 
   afterEach(() => {
@@ -124,21 +186,18 @@ describe('Ingestion Module', () => {
         maxRetries: 3,
       };
 
-      it('should successfully trigger an ingestion job', async () => {
+      it('should queue a pending job with one task per document', async () => {
         // Arrange
-        mockDocumentRepository.find.mockResolvedValue([mockDocument]);
-        mockIngestionJobRepository.create.mockReturnValue(mockIngestionJob);
-        mockIngestionJobRepository.save.mockResolvedValue(mockIngestionJob);
-        jest.spyOn(service as any, 'processJob').mockResolvedValue(undefined);
+        mockDocumentsService.findAccessibleDocuments.mockResolvedValue([mockDocument]);
+        mockIngestionJobRepository.create.mockReturnValue({ ...mockIngestionJob });
+        mockIngestionJobRepository.save.mockImplementation(async (job) => job);
         jest.spyOn(service, 'findOne').mockResolvedValue(mockIngestionJob);
 
         // Act
-        const result = await service.triggerIngestion(triggerDto, 1);
+        const result = await service.triggerIngestion(triggerDto, 1, ['editor']);
 
         // Assert
-        expect(mockDocumentRepository.find).toHaveBeenCalledWith({
-          where: { id: In([1]) },
-        });
+        expect(mockDocumentsService.findAccessibleDocuments).toHaveBeenCalledWith([1], 1, ['editor']);
         expect(mockIngestionJobRepository.create).toHaveBeenCalledWith(
           expect.objectContaining({
             name: 'Test OCR Job',
@@ -155,7 +214,7 @@ describe('Ingestion Module', () => {
                 expect.objectContaining({
                   id: 1,
                   title: 'Test Document',
-                  filePath: '/uploads/test.pdf',
+                  storageKey: 'documents/test.pdf',
                 }),
               ]),
             }),
@@ -163,32 +222,24 @@ describe('Ingestion Module', () => {
           })
         );
         expect(mockIngestionJobRepository.save).toHaveBeenCalledTimes(2);
-        expect(service['processJob']).toHaveBeenCalledWith(mockIngestionJob, [mockDocument]);
+        expect(mockIngestionTaskRepository.save).toHaveBeenCalledWith([
+          expect.objectContaining({ jobId: 1, documentId: 1, status: IngestionTaskStatus.PENDING }),
+        ]);
+        expect(mockIngestionEventsService.publishStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 1, status: IngestionStatus.PENDING })
+        );
         expect(result).toEqual(mockIngestionJob);
       });
 
-      it('should throw BadRequestException when documents not found', async () => {
+      it('should not create a job when the user cannot access the documents', async () => {
         // Arrange
-        mockDocumentRepository.find.mockResolvedValue([]);
-
-        // Act & Assert
-        await expect(service.triggerIngestion(triggerDto, 1)).rejects.toThrow(
-          BadRequestException
+        mockDocumentsService.findAccessibleDocuments.mockRejectedValue(
+          new ForbiddenException('Access denied to some documents')
         );
-        expect(mockDocumentRepository.find).toHaveBeenCalledWith({
-          where: { id: In([1]) },
-        });
-      });
-
-      it('should throw BadRequestException when user does not have access to documents', async () => {
-        // Arrange
-        const unauthorizedDocument = { ...mockDocument, createdById: 2 };
-        mockDocumentRepository.find.mockResolvedValue([unauthorizedDocument]);
 
         // Act & Assert
-        await expect(service.triggerIngestion(triggerDto, 1)).rejects.toThrow(
-          BadRequestException
-        );
+        await expect(service.triggerIngestion(triggerDto, 1)).rejects.toThrow(ForbiddenException);
+        expect(mockIngestionJobRepository.save).not.toHaveBeenCalled();
       });
 
       it('should use default values when optional fields are not provided', async () => {
@@ -197,10 +248,9 @@ describe('Ingestion Module', () => {
           type: IngestionType.OCR,
           documentIds: [1],
         };
-        mockDocumentRepository.find.mockResolvedValue([mockDocument]);
-        mockIngestionJobRepository.create.mockReturnValue(mockIngestionJob);
-        mockIngestionJobRepository.save.mockResolvedValue(mockIngestionJob);
-        jest.spyOn(service as any, 'processJob').mockResolvedValue(undefined);
+        mockDocumentsService.findAccessibleDocuments.mockResolvedValue([mockDocument]);
+        mockIngestionJobRepository.create.mockReturnValue({ ...mockIngestionJob });
+        mockIngestionJobRepository.save.mockImplementation(async (job) => job);
         jest.spyOn(service, 'findOne').mockResolvedValue(mockIngestionJob);
 
         // Act
@@ -224,7 +274,7 @@ describe('Ingestion Module', () => {
         mockIngestionJobRepository.findAndCount.mockResolvedValue([mockJobs, 1]);
 
         // Act
-        const result = await service.findAll(1, 1, 10);
+        const result = await service.findAll(1, { page: 1, limit: 10 });
 
         // Assert
         expect(mockIngestionJobRepository.findAndCount).toHaveBeenCalledWith({
@@ -295,30 +345,235 @@ describe('Ingestion Module', () => {
       });
     });
 
+    describe('processJob', () => {
+      it('should process each document and complete the job', async () => {
+        // Arrange
+        const job = leasedJob();
+        mockIngestionTaskRepository.find.mockResolvedValue([pendingTask(11, 1), pendingTask(12, 2)]);
+        mockDocumentRepository.find.mockResolvedValue([mockDocument, { ...mockDocument, id: 2 }]);
+        mockProcessingService.processDocuments.mockResolvedValue({ success: true, data: { pages: 1 } });
+
+        // Act
+        await service.processJob(job);
+
+        // Assert
+        expect(mockProcessingService.processDocuments).toHaveBeenCalledWith(
+          ProcessingType.TEXT_EXTRACTION,
+          [{ id: 1, storageKey: 'documents/test.pdf', fileName: 'test.pdf', mimeType: 'application/pdf' }],
+          job.parameters,
+          { signal: undefined }
+        );
+        expect(mockIngestionTaskRepository.update).toHaveBeenCalledWith(
+          11,
+          expect.objectContaining({ status: IngestionTaskStatus.COMPLETED, outputData: { pages: 1 } })
+        );
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(lease, { progress: 50 });
+        expect(mockIngestionEventsService.publishProgress).toHaveBeenCalledWith(job, 50, 1, undefined);
+        expect(mockIngestionJobRepository.update).toHaveBeenLastCalledWith(
+          lease,
+          expect.objectContaining({
+            status: IngestionStatus.COMPLETED,
+            progress: 100,
+            outputData: { total: 2, completed: 2, failed: 0, skipped: 0 },
+            completedAt: expect.any(Date),
+            leaseOwner: null,
+            leaseExpiresAt: null,
+          })
+        );
+      });
+
+      it('should only process the documents not done yet', async () => {
+        // Arrange
+        const doneTask = { ...pendingTask(11, 1), status: IngestionTaskStatus.COMPLETED };
+        mockIngestionTaskRepository.find.mockResolvedValue([doneTask, pendingTask(12, 2)]);
+        mockDocumentRepository.find.mockResolvedValue([{ ...mockDocument, id: 2 }]);
+        mockProcessingService.processDocuments.mockResolvedValue({ success: true, data: {} });
+
+        // Act
+        await service.processJob(leasedJob());
+
+        // Assert
+        expect(mockDocumentRepository.find).toHaveBeenCalledWith({ where: { id: In([2]) } });
+        expect(mockProcessingService.processDocuments).toHaveBeenCalledTimes(1);
+      });
+
+      it('should skip deleted documents and types the job cannot process', async () => {
+        // Arrange
+        mockIngestionTaskRepository.find.mockResolvedValue([pendingTask(11, 1), pendingTask(12, 2)]);
+        mockDocumentRepository.find.mockResolvedValue([mockDocument]);
+        mockProcessingService.supports.mockReturnValue(false);
+
+        // Act
+        await service.processJob(leasedJob());
+
+        // Assert
+        expect(mockProcessingService.processDocuments).not.toHaveBeenCalled();
+        expect(mockIngestionTaskRepository.update).toHaveBeenCalledWith(
+          11,
+          expect.objectContaining({ status: IngestionTaskStatus.SKIPPED, errorMessage: expect.stringContaining('application/pdf') })
+        );
+        expect(mockIngestionTaskRepository.update).toHaveBeenCalledWith(
+          12,
+          expect.objectContaining({ status: IngestionTaskStatus.SKIPPED, errorMessage: 'Document no longer exists' })
+        );
+        expect(mockIngestionJobRepository.update).toHaveBeenLastCalledWith(
+          lease,
+          expect.objectContaining({ status: IngestionStatus.COMPLETED })
+        );
+      });
+
+      it('should schedule a retry when documents fail', async () => {
+        // Arrange
+        mockIngestionTaskRepository.find.mockResolvedValue([pendingTask(11, 1)]);
+        mockDocumentRepository.find.mockResolvedValue([mockDocument]);
+        mockProcessingService.processDocuments.mockResolvedValue({ success: false, error: 'Corrupt file' });
+
+        // Act
+        await service.processJob(leasedJob({ inputData: { documentIds: [1] } }));
+
+        // Assert
+        expect(mockIngestionTaskRepository.update).toHaveBeenCalledWith(
+          11,
+          expect.objectContaining({ status: IngestionTaskStatus.FAILED, errorMessage: 'Corrupt file' })
+        );
+        expect(mockIngestionJobRepository.update).toHaveBeenLastCalledWith(
+          lease,
+          expect.objectContaining({
+            status: IngestionStatus.FAILED,
+            errorMessage: '1 of 1 documents failed to process',
+            nextRetryAt: expect.any(Date),
+            leaseOwner: null,
+          })
+        );
+      });
+
+      it('should dead-letter a failing job without retries left', async () => {
+        // Arrange
+        mockIngestionTaskRepository.find.mockResolvedValue([pendingTask(11, 1)]);
+        mockDocumentRepository.find.mockResolvedValue([mockDocument]);
+        mockProcessingService.processDocuments.mockResolvedValue({ success: false, error: 'Corrupt file' });
+
+        // Act
+        await service.processJob(leasedJob({ retryCount: 3, maxRetries: 3 }));
+
+        // Assert
+        expect(mockIngestionJobRepository.update).toHaveBeenLastCalledWith(
+          lease,
+          expect.objectContaining({ status: IngestionStatus.DEAD_LETTER, nextRetryAt: null })
+        );
+      });
+
+      it('should only store extracted text for the documents of the job', async () => {
+        // Arrange
+        mockIngestionTaskRepository.find.mockResolvedValue([pendingTask(11, 1)]);
+        mockDocumentRepository.find.mockResolvedValue([mockDocument]);
+        mockProcessingService.processDocuments.mockResolvedValue({
+          success: true,
+          data: {
+            extracted_text: [
+              { document_id: 1, text: 'Invoice 42' },
+              { document_id: 7, text: 'Not part of the job' },
+            ],
+          },
+        });
+
+        // Act
+        await service.processJob(leasedJob({ inputData: { documentIds: [1] } }));
+
+        // Assert
+        expect(mockDocumentsService.updateExtractedText).toHaveBeenCalledTimes(1);
+        expect(mockDocumentsService.updateExtractedText).toHaveBeenCalledWith(1, 'Invoice 42');
+      });
+
+      it('should only tag the documents of the job with their classification', async () => {
+        // Arrange
+        mockIngestionTaskRepository.find.mockResolvedValue([pendingTask(11, 1)]);
+        mockDocumentRepository.find.mockResolvedValue([mockDocument]);
+        mockProcessingService.processDocuments.mockResolvedValue({
+          success: true,
+          data: {
+            classifications: [
+              { document_id: 1, category: 'invoice' },
+              { document_id: 7, category: 'contract' },
+            ],
+          },
+        });
+
+        // Act
+        await service.processJob(leasedJob({
+          type: IngestionType.DOCUMENT_CLASSIFICATION,
+          parameters: { applyTags: true },
+          inputData: { documentIds: [1] },
+        }));
+
+        // Assert
+        expect(mockTagsService.addToDocument).toHaveBeenCalledTimes(1);
+        expect(mockTagsService.addToDocument).toHaveBeenCalledWith(1, ['invoice']);
+      });
+
+      it('should put an interrupted document back and keep the status set by whoever stopped the job', async () => {
+        // Arrange
+        mockIngestionTaskRepository.find.mockResolvedValue([pendingTask(11, 1), pendingTask(12, 2)]);
+        mockDocumentRepository.find.mockResolvedValue([mockDocument, { ...mockDocument, id: 2 }]);
+        mockProcessingService.processDocuments.mockResolvedValue({ success: false, aborted: true });
+
+        // Act
+        await service.processJob(leasedJob(), new AbortController().signal);
+
+        // Assert
+        expect(mockProcessingService.processDocuments).toHaveBeenCalledTimes(1);
+        expect(mockIngestionTaskRepository.update).toHaveBeenLastCalledWith(
+          11,
+          { status: IngestionTaskStatus.PENDING, startedAt: null }
+        );
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledTimes(1);
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          { id: 1, leaseOwner: 'worker-1' },
+          { outputData: expect.any(Object), leaseOwner: null, leaseExpiresAt: null }
+        );
+      });
+
+      it('should stop once the worker no longer holds the lease', async () => {
+        // Arrange
+        mockIngestionTaskRepository.find.mockResolvedValue([pendingTask(11, 1), pendingTask(12, 2)]);
+        mockDocumentRepository.find.mockResolvedValue([mockDocument, { ...mockDocument, id: 2 }]);
+        mockProcessingService.processDocuments.mockResolvedValue({ success: true, data: {} });
+        mockIngestionJobRepository.update.mockResolvedValue({ affected: 0 });
+
+        // Act
+        await service.processJob(leasedJob());
+
+        // Assert
+        expect(mockProcessingService.processDocuments).toHaveBeenCalledTimes(1);
+        expect(mockIngestionJobRepository.update).not.toHaveBeenCalledWith(
+          lease,
+          expect.objectContaining({ status: IngestionStatus.COMPLETED })
+        );
+        expect(mockIngestionEventsService.publishStatus).not.toHaveBeenCalled();
+      });
+    });
+
     describe('retryJob', () => {
-      it('should successfully retry a failed job', async () => {
+      it('should queue a failed job again', async () => {
         // Arrange
         const failedJob = { ...mockIngestionJob, status: IngestionStatus.FAILED, retryCount: 1 };
-        mockIngestionJobRepository.findOne.mockResolvedValue(failedJob);
-        mockDocumentRepository.find.mockResolvedValue([mockDocument]);
-        mockIngestionJobRepository.save.mockResolvedValue(failedJob);
-        jest.spyOn(service as any, 'processJob').mockResolvedValue(undefined);
         jest.spyOn(service, 'findOne').mockResolvedValue(failedJob);
 
         // Act
         const result = await service.retryJob(1, 1);
 
         // Assert
-        expect(mockIngestionJobRepository.save).toHaveBeenCalledWith(
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          { id: 1, status: IngestionStatus.FAILED },
           expect.objectContaining({
             status: IngestionStatus.RETRYING,
             progress: 0,
             errorMessage: null,
-            retryCount: 2,
+            retryCount: expect.any(Function),
             nextRetryAt: null,
           })
         );
-        expect(service['processJob']).toHaveBeenCalledWith(failedJob, [mockDocument]);
+        expect(mockIngestionEventsService.publishStatus).toHaveBeenCalledWith(failedJob);
         expect(result).toEqual(failedJob);
       });
 
@@ -329,29 +584,132 @@ describe('Ingestion Module', () => {
 
         // Act & Assert
         await expect(service.retryJob(1, 1)).rejects.toThrow(BadRequestException);
+        expect(mockIngestionJobRepository.update).not.toHaveBeenCalled();
       });
 
       it('should throw BadRequestException when max retries reached', async () => {
         // Arrange
-        const maxRetriesJob = { 
-          ...mockIngestionJob, 
-          status: IngestionStatus.FAILED, 
+        const maxRetriesJob = {
+          ...mockIngestionJob,
+          status: IngestionStatus.FAILED,
           retryCount: 3,
-          maxRetries: 3 
+          maxRetries: 3
         };
         mockIngestionJobRepository.findOne.mockResolvedValue(maxRetriesJob);
 
         // Act & Assert
         await expect(service.retryJob(1, 1)).rejects.toThrow(BadRequestException);
       });
+
+      it('should throw BadRequestException when the job was queued again meanwhile', async () => {
+        // Arrange
+        const failedJob = { ...mockIngestionJob, status: IngestionStatus.FAILED };
+        mockIngestionJobRepository.findOne.mockResolvedValue(failedJob);
+        mockIngestionJobRepository.update.mockResolvedValue({ affected: 0 });
+
+        // Act & Assert
+        await expect(service.retryJob(1, 1)).rejects.toThrow(BadRequestException);
+        expect(mockIngestionEventsService.publishStatus).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('cancelJob, pauseJob and resumeJob', () => {
+      it('should cancel a running job', async () => {
+        // Arrange
+        mockIngestionJobRepository.findOne.mockResolvedValue(leasedJob());
+
+        // Act
+        await service.cancelJob(1, 1);
+
+        // Assert
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          { id: 1, status: expect.anything() },
+          expect.objectContaining({ status: IngestionStatus.CANCELLED, completedAt: expect.any(Date) })
+        );
+        expect(mockIngestionEventsService.publishStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 1, status: IngestionStatus.CANCELLED })
+        );
+      });
+
+      it('should not cancel a completed job', async () => {
+        // Arrange
+        mockIngestionJobRepository.findOne.mockResolvedValue({ ...mockIngestionJob, status: IngestionStatus.COMPLETED });
+
+        // Act & Assert
+        await expect(service.cancelJob(1, 1)).rejects.toThrow(BadRequestException);
+        expect(mockIngestionJobRepository.update).not.toHaveBeenCalled();
+      });
+
+      it('should pause a pending job', async () => {
+        // Arrange
+        mockIngestionJobRepository.findOne.mockResolvedValue(mockIngestionJob);
+
+        // Act
+        await service.pauseJob(1, 1);
+
+        // Assert
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          { id: 1, status: expect.anything() },
+          { status: IngestionStatus.PAUSED }
+        );
+      });
+
+      it('should throw BadRequestException when the job finished meanwhile', async () => {
+        // Arrange
+        mockIngestionJobRepository.findOne.mockResolvedValue(leasedJob());
+        mockIngestionJobRepository.update.mockResolvedValue({ affected: 0 });
+
+        // Act & Assert
+        await expect(service.pauseJob(1, 1)).rejects.toThrow(BadRequestException);
+        expect(mockIngestionEventsService.publishStatus).not.toHaveBeenCalled();
+      });
+
+      it('should queue a paused job again once its worker let go of it', async () => {
+        // Arrange
+        mockIngestionJobRepository.findOne.mockResolvedValue({ ...mockIngestionJob, status: IngestionStatus.PAUSED });
+
+        // Act
+        await service.resumeJob(1, 1);
+
+        // Assert
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          { id: 1, status: expect.anything(), leaseExpiresAt: expect.anything() },
+          { status: IngestionStatus.PENDING, leaseOwner: null, leaseExpiresAt: null }
+        );
+      });
+
+      it('should not resume a job whose worker is still finishing a document', async () => {
+        // Arrange
+        mockIngestionJobRepository.findOne.mockResolvedValue(leasedJob({ status: IngestionStatus.PAUSED }));
+
+        // Act & Assert
+        await expect(service.resumeJob(1, 1)).rejects.toThrow(ConflictException);
+        expect(mockIngestionJobRepository.update).not.toHaveBeenCalled();
+      });
+
+      it('should resume a paused job whose worker stopped renewing its lease', async () => {
+        // Arrange
+        mockIngestionJobRepository.findOne.mockResolvedValue(leasedJob({
+          status: IngestionStatus.PAUSED,
+          leaseExpiresAt: new Date(Date.now() - 1000),
+        }));
+
+        // Act
+        await service.resumeJob(1, 1);
+
+        // Assert
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 1 }),
+          expect.objectContaining({ status: IngestionStatus.PENDING, leaseOwner: null })
+        );
+      });
     });
 
     describe('updateJobStatus', () => {
-      it('should update job status when job found', async () => {
+      it('should record progress without changing the status', async () => {
         // Arrange
         const jobToUpdate = { ...mockIngestionJob, externalJobId: 'ext_job_123' };
         mockIngestionJobRepository.findOne.mockResolvedValue(jobToUpdate);
-        mockIngestionJobRepository.save.mockResolvedValue(jobToUpdate);
 
         const statusUpdate = {
           status: 'processing',
@@ -367,9 +725,10 @@ describe('Ingestion Module', () => {
         expect(mockIngestionJobRepository.findOne).toHaveBeenCalledWith({
           where: { externalJobId: 'ext_job_123' },
         });
-        expect(mockIngestionJobRepository.save).toHaveBeenCalledWith(
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          { id: 1, status: expect.anything(), leaseOwner: expect.anything() },
           expect.objectContaining({
-            status: IngestionStatus.PROCESSING,
+            status: IngestionStatus.PENDING,
             progress: 50,
             startedAt: expect.any(Date),
           })
@@ -380,7 +739,6 @@ describe('Ingestion Module', () => {
         // Arrange
         const jobToUpdate = { ...mockIngestionJob, externalJobId: 'ext_job_123' };
         mockIngestionJobRepository.findOne.mockResolvedValue(jobToUpdate);
-        mockIngestionJobRepository.save.mockResolvedValue(jobToUpdate);
 
         const statusUpdate = {
           status: 'completed',
@@ -392,7 +750,8 @@ describe('Ingestion Module', () => {
         await service.updateJobStatus('ext_job_123', statusUpdate);
 
         // Assert
-        expect(mockIngestionJobRepository.save).toHaveBeenCalledWith(
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 1 }),
           expect.objectContaining({
             status: IngestionStatus.COMPLETED,
             progress: 100,
@@ -400,18 +759,45 @@ describe('Ingestion Module', () => {
             completedAt: expect.any(Date),
           })
         );
+        expect(mockIngestionEventsService.publishStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ status: IngestionStatus.COMPLETED })
+        );
+      });
+
+      it('should tag only the documents of the job and never store extracted text', async () => {
+        // Arrange
+        const jobToUpdate = { ...mockIngestionJob, parameters: { applyTags: true } };
+        mockIngestionJobRepository.findOne.mockResolvedValue(jobToUpdate);
+
+        const statusUpdate = {
+          status: 'completed',
+          output: {
+            classifications: [
+              { document_id: 1, category: 'invoice' },
+              { document_id: 7, category: 'contract' },
+            ],
+            extracted_text: [{ document_id: 1, text: 'Invoice 42' }],
+          },
+        };
+
+        // Act
+        await service.updateJobStatus('ext_job_123', statusUpdate);
+
+        // Assert
+        expect(mockTagsService.addToDocument).toHaveBeenCalledTimes(1);
+        expect(mockTagsService.addToDocument).toHaveBeenCalledWith(1, ['invoice']);
+        expect(mockDocumentsService.updateExtractedText).not.toHaveBeenCalled();
       });
 
       it('should handle failed status with retry scheduling', async () => {
         // Arrange
-        const jobToUpdate = { 
-          ...mockIngestionJob, 
+        const jobToUpdate = {
+          ...mockIngestionJob,
           externalJobId: 'ext_job_123',
           retryCount: 1,
           maxRetries: 3,
         };
         mockIngestionJobRepository.findOne.mockResolvedValue(jobToUpdate);
-        mockIngestionJobRepository.save.mockResolvedValue(jobToUpdate);
 
         const statusUpdate = {
           status: 'failed',
@@ -422,7 +808,8 @@ describe('Ingestion Module', () => {
         await service.updateJobStatus('ext_job_123', statusUpdate);
 
         // Assert
-        expect(mockIngestionJobRepository.save).toHaveBeenCalledWith(
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 1 }),
           expect.objectContaining({
             status: IngestionStatus.FAILED,
             errorMessage: 'Processing error',
@@ -431,16 +818,15 @@ describe('Ingestion Module', () => {
         );
       });
 
-      it('should not schedule retry when max retries reached', async () => {
+      it('should dead-letter the job when max retries reached', async () => {
         // Arrange
-        const jobToUpdate = { 
-          ...mockIngestionJob, 
+        const jobToUpdate = {
+          ...mockIngestionJob,
           externalJobId: 'ext_job_123',
           retryCount: 3,
           maxRetries: 3,
         };
         mockIngestionJobRepository.findOne.mockResolvedValue(jobToUpdate);
-        mockIngestionJobRepository.save.mockResolvedValue(jobToUpdate);
 
         const statusUpdate = {
           status: 'failed',
@@ -451,15 +837,30 @@ describe('Ingestion Module', () => {
         await service.updateJobStatus('ext_job_123', statusUpdate);
 
         // Assert
-        expect(mockIngestionJobRepository.save).toHaveBeenCalledWith(
+        expect(mockIngestionJobRepository.update).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 1 }),
           expect.objectContaining({
-            status: IngestionStatus.FAILED,
+            status: IngestionStatus.DEAD_LETTER,
             errorMessage: 'Processing error',
             nextRetryAt: null,
           })
         );
       });
 
+      it('should refuse updates to finished jobs and jobs held by a worker', async () => {
+        // Arrange
+        const jobToUpdate = { ...mockIngestionJob, status: IngestionStatus.CANCELLED, parameters: { applyTags: true } };
+        mockIngestionJobRepository.findOne.mockResolvedValue(jobToUpdate);
+        mockIngestionJobRepository.update.mockResolvedValue({ affected: 0 });
+
+        // Act & Assert
+        await expect(
+          service.updateJobStatus('ext_job_123', { status: 'completed', output: { classifications: [{ document_id: 1, category: 'invoice' }] } })
+        ).rejects.toThrow(ConflictException);
+        expect(mockTagsService.addToDocument).not.toHaveBeenCalled();
+        expect(mockIngestionEventsService.publishStatus).not.toHaveBeenCalled();
+      });
+
       it('should log warning when job not found', async () => {
         // Arrange
         mockIngestionJobRepository.findOne.mockResolvedValue(null);
@@ -475,35 +876,25 @@ describe('Ingestion Module', () => {
 
     describe('private helper methods', () => {
       describe('validateDocuments', () => {
-        it('should return documents when all are found and accessible', async () => {
+        it('should return the documents the user may process', async () => {
           // Arrange
-          mockDocumentRepository.find.mockResolvedValue([mockDocument]);
+          mockDocumentsService.findAccessibleDocuments.mockResolvedValue([mockDocument]);
 
           // Act
-          const result = await service['validateDocuments']([1], 1);
+          const result = await service['validateDocuments']([1], 1, ['editor']);
 
           // Assert
+          expect(mockDocumentsService.findAccessibleDocuments).toHaveBeenCalledWith([1], 1, ['editor']);
           expect(result).toEqual([mockDocument]);
         });
 
-        it('should throw BadRequestException when some documents not found', async () => {
-          // Arrange
-          mockDocumentRepository.find.mockResolvedValue([]);
-
-          // Act & Assert
-          await expect(service['validateDocuments']([1, 2], 1)).rejects.toThrow(
-            BadRequestException
-          );
-        });
-
-        it('should throw BadRequestException when user does not have access', async () => {
+        it('should throw NotFoundException when some documents not found', async () => {
           // Arrange
-          const unauthorizedDocument = { ...mockDocument, createdById: 2 };
-          mockDocumentRepository.find.mockResolvedValue([unauthorizedDocument]);
+          mockDocumentsService.findAccessibleDocuments.mockRejectedValue(new NotFoundException('Some documents not found'));
 
           // Act & Assert
-          await expect(service['validateDocuments']([1], 1)).rejects.toThrow(
-            BadRequestException
+          await expect(service['validateDocuments']([1, 2], 1, [])).rejects.toThrow(
+            NotFoundException
           );
         });
       });
@@ -532,8 +923,6 @@ describe('Ingestion Module', () => {
 
       describe('mapExternalStatus', () => {
         it('should map external status to internal status correctly', () => {
-          expect(service['mapExternalStatus']('pending')).toBe(IngestionStatus.PENDING);
-          expect(service['mapExternalStatus']('processing')).toBe(IngestionStatus.PROCESSING);
           expect(service['mapExternalStatus']('completed')).toBe(IngestionStatus.COMPLETED);
           expect(service['mapExternalStatus']('failed')).toBe(IngestionStatus.FAILED);
           expect(service['mapExternalStatus']('unknown')).toBe(IngestionStatus.FAILED);
@@ -541,21 +930,20 @@ describe('Ingestion Module', () => {
       });
 
       describe('calculateNextRetry', () => {
-        it('should calculate exponential backoff for retries', () => {
+        it('should wait between half and all of the exponential backoff', () => {
           const job = { ...mockIngestionJob, retryCount: 1 };
           const result = service['calculateNextRetry'](job);
-          
-          const expectedTime = new Date();
-          expectedTime.setMinutes(expectedTime.getMinutes() + 2); // 2^1 = 2 minutes
-          
-          expect(result.getTime()).toBeCloseTo(expectedTime.getTime(), -3); // Within 1 second
+
+          const delay = result.getTime() - Date.now();
+          expect(delay).toBeGreaterThan(55 * 1000); // 2^1 = 2 minutes, at least half of it
+          expect(delay).toBeLessThanOrEqual(2 * 60 * 1000);
         });
       });
 
       describe('formatJobResponse', () => {
         it('should format job response correctly', () => {
           const result = service['formatJobResponse'](mockIngestionJob);
-          
+
           expect(result).toEqual({
             id: 1,
             name: 'Test Ingestion Job',
@@ -573,7 +961,9 @@ describe('Ingestion Module', () => {
             startedAt: null,
             completedAt: null,
             nextRetryAt: null,
-            createdBy: expect.any(Object),
+            leaseOwner: null,
+            leaseExpiresAt: null,
+            createdBy: { id: 1, email: 'test@example.com' },
             createdById: 1,
             createdAt: expect.any(Date),
             updatedAt: expect.any(Date),
@@ -610,7 +1000,7 @@ describe('Ingestion Module', () => {
         const result = await controller.triggerIngestion(triggerDto, mockRequest);
 
         // Assert
-        expect(service.triggerIngestion).toHaveBeenCalledWith(triggerDto, mockRequest.user.userId);
+        expect(service.triggerIngestion).toHaveBeenCalledWith(triggerDto, mockRequest.user.userId, mockRequest.user.roles);
         expect(result).toEqual(mockIngestionJob);
       });
 
@@ -623,7 +1013,7 @@ describe('Ingestion Module', () => {
         await expect(controller.triggerIngestion(triggerDto, mockRequest)).rejects.toThrow(
           BadRequestException
         );
-        expect(service.triggerIngestion).toHaveBeenCalledWith(triggerDto, mockRequest.user.userId);
+        expect(service.triggerIngestion).toHaveBeenCalledWith(triggerDto, mockRequest.user.userId, mockRequest.user.roles);
       });
 
       it('should handle missing optional fields', async () => {
@@ -638,7 +1028,7 @@ describe('Ingestion Module', () => {
         const result = await controller.triggerIngestion(minimalDto, mockRequest);
 
         // Assert
-        expect(service.triggerIngestion).toHaveBeenCalledWith(minimalDto, mockRequest.user.userId);
+        expect(service.triggerIngestion).toHaveBeenCalledWith(minimalDto, mockRequest.user.userId, mockRequest.user.roles);
         expect(result).toEqual(mockIngestionJob);
       });
     });
@@ -657,10 +1047,10 @@ describe('Ingestion Module', () => {
         jest.spyOn(service, 'findAll').mockResolvedValue(mockPaginatedResponse);
 
         // Act
-        const result = await controller.findAll(1, 10, mockRequest);
+        const result = await controller.findAll({ page: 1, limit: 10 }, mockRequest);
 
         // Assert
-        expect(service.findAll).toHaveBeenCalledWith(mockRequest.user.userId, 1, 10);
+        expect(service.findAll).toHaveBeenCalledWith(mockRequest.user.userId, { page: 1, limit: 10 });
         expect(result).toEqual(mockPaginatedResponse);
       });
 
@@ -669,10 +1059,10 @@ describe('Ingestion Module', () => {
         jest.spyOn(service, 'findAll').mockResolvedValue(mockPaginatedResponse);
 
         // Act
-        const result = await controller.findAll(undefined, undefined, mockRequest);
+        const result = await controller.findAll({}, mockRequest);
 
         // Assert
-        expect(service.findAll).toHaveBeenCalledWith(mockRequest.user.userId, 1, 10);
+        expect(service.findAll).toHaveBeenCalledWith(mockRequest.user.userId, {});
         expect(result).toEqual(mockPaginatedResponse);
       });
 
@@ -682,10 +1072,10 @@ describe('Ingestion Module', () => {
         jest.spyOn(service, 'findAll').mockRejectedValue(error);
 
         // Act & Assert
-        await expect(controller.findAll(1, 10, mockRequest)).rejects.toThrow(
+        await expect(controller.findAll({ page: 1, limit: 10 }, mockRequest)).rejects.toThrow(
           BadRequestException
         );
-        expect(service.findAll).toHaveBeenCalledWith(mockRequest.user.userId, 1, 10);
+        expect(service.findAll).toHaveBeenCalledWith(mockRequest.user.userId, { page: 1, limit: 10 });
       });
 
       it('should handle empty results', async () => {
@@ -700,10 +1090,10 @@ describe('Ingestion Module', () => {
         jest.spyOn(service, 'findAll').mockResolvedValue(emptyResponse);
 
         // Act
-        const result = await controller.findAll(1, 10, mockRequest);
+        const result = await controller.findAll({ page: 1, limit: 10 }, mockRequest);
 
         // Assert
-        expect(service.findAll).toHaveBeenCalledWith(mockRequest.user.userId, 1, 10);
+        expect(service.findAll).toHaveBeenCalledWith(mockRequest.user.userId, { page: 1, limit: 10 });
         expect(result).toEqual(emptyResponse);
       });
     });
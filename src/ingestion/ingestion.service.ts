@@ -1,10 +1,18 @@
-import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
+import { Injectable, BadRequestException, ConflictException, NotFoundException, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In } from 'typeorm';
+import { Repository, In, Not, IsNull, LessThan, Or, FindOptionsWhere } from 'typeorm';
 import { IngestionJob, IngestionStatus, IngestionType } from './entities/ingestion-job.entity';
+import { IngestionTask, IngestionTaskStatus } from './entities/ingestion-task.entity';
 import { TriggerIngestionDto } from './dto/trigger-ingestion.dto';
 import { Document } from '../documents/entities/document.entity';
 import { ProcessingService, ProcessingType } from '../processing/processing.service';
+import { DocumentsService } from '../documents/documents.service';
+import { TagsService } from '../tags/tags.service';
+import { IngestionTasksService, calculateJobProgress, isTaskSettled } from './ingestion-tasks.service';
+import { IngestionEventsService, IngestionJobEvent, FINAL_INGESTION_STATUSES, toStatusEvent } from './ingestion-events.service';
+import { Observable, takeWhile } from 'rxjs';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { isCursorPagination, paginateByCursor } from '../common/pagination/cursor-pagination';
 
 @Injectable()
 export class IngestionService {
@@ -16,12 +24,16 @@ export class IngestionService {
     @InjectRepository(Document)
     private documentRepository: Repository<Document>,
     private processingService: ProcessingService,
+    private documentsService: DocumentsService,
+    private tagsService: TagsService,
+    private ingestionEventsService: IngestionEventsService,
+    private ingestionTasksService: IngestionTasksService,
   ) {}
 
   // Ingestion Trigger API
-  async triggerIngestion(triggerDto: TriggerIngestionDto, userId: number): Promise<IngestionJob> {
-    // Validate documents exist and belong to user
-    const documents = await this.validateDocuments(triggerDto.documentIds, userId);
+  async triggerIngestion(triggerDto: TriggerIngestionDto, userId: number, userRoles: string[] = []): Promise<IngestionJob> {
+    // Validate documents exist and are accessible to the user
+    const documents = await this.validateDocuments(triggerDto.documentIds, userId, userRoles);
 
     // Create ingestion job
     const ingestionJob = this.ingestionJobRepository.create({
@@ -38,7 +50,7 @@ export class IngestionService {
         documents: documents.map(doc => ({
           id: doc.id,
           title: doc.title,
-          filePath: doc.filePath,
+          storageKey: doc.storageKey,
           fileName: doc.originalFileName,
           mimeType: doc.mimeType,
         })),
@@ -53,22 +65,71 @@ export class IngestionService {
     savedJob.externalJobId = externalJobId;
     await this.ingestionJobRepository.save(savedJob);
 
-    // Trigger internal processing asynchronously
-    this.processJob(savedJob, documents).catch(error => {
-      this.logger.error(`Failed to process job ${savedJob.id}:`, error);
-    });
+    // One task per document, so each document succeeds or fails on its own
+    await this.ingestionTasksService.createForJob(savedJob.id, documents.map(doc => doc.id));
+    await this.ingestionEventsService.publishStatus(savedJob);
 
+    // The job stays pending until an ingestion worker claims it
     return this.findOne(savedJob.id, userId);
   }
 
   // Ingestion Management API - Get all jobs for user
-  async findAll(userId: number, page: number = 1, limit: number = 10): Promise<{
+  async findAll(userId: number, paginationQuery: PaginationQueryDto = {}): Promise<{
     jobs: IngestionJob[];
-    total: number;
-    page: number;
+    total?: number;
+    page?: number;
     limit: number;
-    totalPages: number;
+    totalPages?: number;
+    hasMore?: boolean;
+    nextCursor?: string | null;
+    prevCursor?: string | null;
   }> {
+    const { page = 1, limit = 10, withTotal = true } = paginationQuery;
+
+    if (isCursorPagination(paginationQuery)) {
+      const queryBuilder = this.ingestionJobRepository
+        .createQueryBuilder('job')
+        .leftJoinAndSelect('job.createdBy', 'createdBy')
+        .where('job.createdById = :userId', { userId });
+
+      const total = withTotal ? await queryBuilder.getCount() : undefined;
+      const { items, nextCursor, prevCursor } = await paginateByCursor(queryBuilder, {
+        alias: 'job',
+        sortName: 'createdAt',
+        sortExpression: 'job.createdAt',
+        sortOrder: 'DESC',
+        after: paginationQuery.after,
+        before: paginationQuery.before,
+        limit,
+      });
+
+      return {
+        jobs: items.map(job => this.formatJobResponse(job)),
+        limit,
+        nextCursor,
+        prevCursor,
+        ...(withTotal && { total }),
+      };
+    }
+
+    if (!withTotal) {
+      // Fetch one extra row to tell whether another page exists without counting
+      const jobs = await this.ingestionJobRepository.find({
+        where: { createdById: userId },
+        relations: ['createdBy'],
+        order: { createdAt: 'DESC', id: 'DESC' },
+        skip: (page - 1) * limit,
+        take: limit + 1,
+      });
+
+      return {
+        jobs: jobs.slice(0, limit).map(job => this.formatJobResponse(job)),
+        page,
+        limit,
+        hasMore: jobs.length > limit,
+      };
+    }
+
     const [jobs, total] = await this.ingestionJobRepository.findAndCount({
       where: { createdById: userId },
       relations: ['createdBy'],
@@ -104,7 +165,65 @@ export class IngestionService {
     return this.formatJobResponse(job);
   }
 
-  // Retry failed job
+  // Per-document tasks of a job, with the status and output of each document
+  async findTasks(id: number, userId: number): Promise<IngestionTask[]> {
+    await this.findOne(id, userId);
+    return this.ingestionTasksService.findForJob(id);
+  }
+
+  // Live updates of all jobs of a user
+  watchJobs(userId: number): Observable<IngestionJobEvent> {
+    return this.ingestionEventsService.forUser(userId);
+  }
+
+  // Live updates of one job, starting with its current state and ending once it is finished for good
+  watchJob(id: number, userId: number): Observable<IngestionJobEvent> {
+    return new Observable<IngestionJobEvent>(subscriber => {
+      // Listen before reading the current state so no change in between is lost;
+      // events arriving meanwhile are held back until the state is sent
+      let buffered: IngestionJobEvent[] = [];
+      const events = this.ingestionEventsService.forJob(id).subscribe({
+        next: event => (buffered ? buffered.push(event) : subscriber.next(event)),
+        error: error => subscriber.error(error),
+      });
+
+      this.ingestionEventsService.listen()
+        .then(() => this.findOne(id, userId))
+        .then(job => {
+          subscriber.next(toStatusEvent(job));
+          buffered.forEach(event => subscriber.next(event));
+          buffered = null;
+        })
+        .catch(error => subscriber.error(error));
+
+      return () => events.unsubscribe();
+    }).pipe(
+      takeWhile(event => !FINAL_INGESTION_STATUSES.includes(event.status), true)
+    );
+  }
+
+  // Jobs of all users that failed on every retry, for admins to investigate
+  async findDeadLetters(paginationQuery: PaginationQueryDto = {}) {
+    const { page = 1, limit = 10 } = paginationQuery;
+
+    const [jobs, total] = await this.ingestionJobRepository.findAndCount({
+      where: { status: IngestionStatus.DEAD_LETTER },
+      relations: ['createdBy'],
+      order: { completedAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      jobs: jobs.map(job => this.formatJobResponse(job)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // Retry failed job. Only the documents that failed are processed again
   async retryJob(id: number, userId: number): Promise<IngestionJob> {
     const job = await this.findOne(id, userId);
 
@@ -116,27 +235,75 @@ export class IngestionService {
       throw new BadRequestException('Maximum retry attempts reached');
     }
 
-    // Reset job for retry
-    job.status = IngestionStatus.RETRYING;
-    job.progress = 0;
-    job.errorMessage = null;
-    job.retryCount += 1;
-    job.nextRetryAt = null;
+    // Queued again for the next free worker. Conditional on the status, like the
+    // retry scheduler, so a retry racing it is only counted once
+    const { affected } = await this.ingestionJobRepository.update(
+      { id: job.id, status: IngestionStatus.FAILED },
+      {
+        status: IngestionStatus.RETRYING,
+        progress: 0,
+        errorMessage: null,
+        retryCount: () => '"retryCount" + 1',
+        nextRetryAt: null,
+      }
+    );
 
-    const updatedJob = await this.ingestionJobRepository.save(job);
+    if (!affected) {
+      throw new BadRequestException('Only failed jobs can be retried');
+    }
 
-    // Get documents for this job
-    const documentIds = job.inputData?.documentIds || [];
-    const documents = await this.documentRepository.find({
-      where: { id: In(documentIds) },
-    });
+    const updatedJob = await this.findOne(job.id, userId);
+    await this.ingestionEventsService.publishStatus(updatedJob);
 
-    // Retry processing
-    this.processJob(updatedJob, documents).catch(error => {
-      this.logger.error(`Failed to retry processing for job ${job.id}:`, error);
-    });
+    return updatedJob;
+  }
 
-    return this.findOne(updatedJob.id, userId);
+  // Stop a job for good. A running job stops at its next checkpoint and keeps the output of the documents it finished
+  async cancelJob(id: number, userId: number): Promise<IngestionJob> {
+    const job = await this.findOne(id, userId);
+
+    await this.changeStatus(
+      job,
+      [IngestionStatus.PENDING, IngestionStatus.RETRYING, IngestionStatus.PROCESSING, IngestionStatus.PAUSED, IngestionStatus.FAILED],
+      { status: IngestionStatus.CANCELLED, completedAt: new Date(), nextRetryAt: null },
+      'Only pending, running, paused or failed jobs can be cancelled'
+    );
+
+    return this.findOne(id, userId);
+  }
+
+  // Hold a job back from workers. A running job stops at its next checkpoint and carries on with the remaining documents when resumed
+  async pauseJob(id: number, userId: number): Promise<IngestionJob> {
+    const job = await this.findOne(id, userId);
+
+    await this.changeStatus(
+      job,
+      [IngestionStatus.PENDING, IngestionStatus.RETRYING, IngestionStatus.PROCESSING],
+      { status: IngestionStatus.PAUSED },
+      'Only pending or running jobs can be paused'
+    );
+
+    return this.findOne(id, userId);
+  }
+
+  async resumeJob(id: number, userId: number): Promise<IngestionJob> {
+    const job = await this.findOne(id, userId);
+
+    // A job paused while running is only queued again once its worker has let go of it,
+    // or its lease ran out, so two workers never process it at the same time
+    if (job.status === IngestionStatus.PAUSED && job.leaseExpiresAt > new Date()) {
+      throw new ConflictException('The job is still finishing its current document; resume it once it has stopped');
+    }
+
+    await this.changeStatus(
+      job,
+      [IngestionStatus.PAUSED],
+      { status: IngestionStatus.PENDING, leaseOwner: null, leaseExpiresAt: null },
+      'Only paused jobs can be resumed',
+      { leaseExpiresAt: Or(IsNull(), LessThan(new Date())) }
+    );
+
+    return this.findOne(id, userId);
   }
 
   // Webhook for external service to update job status (kept for compatibility)
@@ -150,8 +317,12 @@ export class IngestionService {
       return;
     }
 
-    // Update job status based on external service response
-    job.status = this.mapExternalStatus(statusUpdate.status);
+    // Update job status based on external service response. Progress reports
+    // leave the status alone: a job processing without a worker's lease would
+    // be taken for a stalled one and requeued
+    if (statusUpdate.status !== 'pending' && statusUpdate.status !== 'processing') {
+      job.status = this.mapExternalStatus(statusUpdate.status);
+    }
     job.progress = statusUpdate.progress || job.progress;
     job.errorMessage = statusUpdate.error || job.errorMessage;
     job.outputData = statusUpdate.output || job.outputData;
@@ -166,113 +337,278 @@ export class IngestionService {
     }
 
     if (statusUpdate.status === 'failed') {
-      job.errorMessage = statusUpdate.error || 'Processing failed';
-      
-      // Schedule retry if retries remaining
-      if (job.retryCount < job.maxRetries) {
-        job.nextRetryAt = this.calculateNextRetry(job);
-      }
+      this.markFailed(job, statusUpdate.error || 'Processing failed');
     }
 
-    await this.ingestionJobRepository.save(job);
-  }
-
-  // Private helper methods
-  private async validateDocuments(documentIds: number[], userId: number): Promise<Document[]> {
-    const documents = await this.documentRepository.find({
-      where: { id: In(documentIds) },
-    });
+    // Jobs that are over, or being run by one of our workers, are not the external service's to change
+    const { affected } = await this.ingestionJobRepository.update(
+      { id: job.id, status: Not(In(FINAL_INGESTION_STATUSES)), leaseOwner: IsNull() },
+      {
+        status: job.status,
+        progress: job.progress,
+        errorMessage: job.errorMessage,
+        outputData: job.outputData,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+        nextRetryAt: job.nextRetryAt,
+      }
+    );
 
-    if (documents.length !== documentIds.length) {
-      throw new BadRequestException('Some documents not found');
+    if (!affected) {
+      throw new ConflictException(`Job ${externalJobId} is finished or being processed and cannot be updated`);
     }
 
-    // Check if all documents belong to the user
-    const unauthorizedDocs = documents.filter(doc => doc.createdById !== userId);
-    if (unauthorizedDocs.length > 0) {
-      throw new BadRequestException('Access denied to some documents');
+    // Extracted text is only taken from our own workers; the webhook may tag the job's documents
+    if (job.status === IngestionStatus.COMPLETED && job.parameters?.applyTags) {
+      await this.applyClassificationTags(job, job.outputData || {});
     }
 
-    return documents;
+    await this.ingestionEventsService.publishStatus(job);
   }
 
-  private async processJob(job: IngestionJob, documents: Document[]): Promise<void> {
+  /**
+   * Run a job claimed from the queue, one task per document. Job writes are
+   * made only while the claiming worker still holds the lease and the job has
+   * not been cancelled or paused, so a job reclaimed from a stalled worker is
+   * not overwritten when that worker resumes. The worker aborts the signal
+   * when either happens, and the job stops after the current document.
+   */
+  async processJob(job: IngestionJob, signal?: AbortSignal): Promise<void> {
+    const lease = { id: job.id, leaseOwner: job.leaseOwner, status: IngestionStatus.PROCESSING };
+
     try {
       this.logger.log(`Starting processing for job ${job.id}`);
 
-      // Update job status to processing
-      job.status = IngestionStatus.PROCESSING;
-      job.startedAt = new Date();
-      await this.ingestionJobRepository.save(job);
+      // A retried or resumed job only processes the documents not done yet
+      const tasks = await this.ingestionTasksService.findOrCreateForJob(job);
+      const remainingTasks = tasks.filter(task => !isTaskSettled(task));
+
+      // Documents trashed or deleted since the job was queued are skipped
+      const documents = await this.documentRepository.find({
+        where: { id: In(remainingTasks.map(task => task.documentId)) },
+      });
+      const documentsById = new Map(documents.map(doc => [doc.id, doc]));
 
       // Map ingestion type to processing type
       const processingType = this.mapIngestionTypeToProcessingType(job.type);
 
-      // Prepare documents for processing
-      const documentInfos = documents.map(doc => ({
-        id: doc.id,
-        filePath: doc.filePath,
-        fileName: doc.originalFileName,
-        mimeType: doc.mimeType,
-      }));
-
-      // Process documents with progress updates
-      const totalSteps = 10;
-      for (let step = 0; step < totalSteps; step++) {
-        // Update progress
-        const progress = Math.round((step + 1) * 100 / totalSteps);
-        job.progress = progress;
-        await this.ingestionJobRepository.save(job);
-
-        // Simulate processing time
-        await this.delay(200);
+      let stopped = false;
+      for (const task of remainingTasks) {
+        stopped = signal?.aborted || !(await this.processTask(job, task, documentsById.get(task.documentId), processingType, signal));
+        if (stopped) {
+          break;
+        }
+
+        const progress = calculateJobProgress(tasks);
+        const { affected } = await this.ingestionJobRepository.update(lease, { progress });
+        if (!affected) {
+          stopped = true;
+          break;
+        }
+
+        const error = task.status === IngestionTaskStatus.FAILED ? task.errorMessage : undefined;
+        await this.ingestionEventsService.publishProgress(job, progress, task.documentId, error);
       }
 
-      // Perform actual processing
-      const result = await this.processingService.processDocuments(
-        processingType,
-        documentInfos,
-        job.parameters
-      );
+      job.progress = calculateJobProgress(tasks);
+      job.outputData = this.summarizeTasks(tasks);
+
+      if (stopped) {
+        await this.stopJob(job, job.outputData);
+        return;
+      }
 
-      if (result.success) {
+      const failedTasks = tasks.filter(task => task.status === IngestionTaskStatus.FAILED);
+      if (failedTasks.length === 0) {
         // Mark as completed
         job.status = IngestionStatus.COMPLETED;
-        job.progress = 100;
-        job.outputData = result.data;
         job.completedAt = new Date();
-        
+
         this.logger.log(`Job ${job.id} completed successfully`);
       } else {
-        // Mark as failed
-        job.status = IngestionStatus.FAILED;
-        job.errorMessage = result.error || 'Processing failed';
-        job.completedAt = new Date();
-        
-        // Schedule retry if retries remaining
-        if (job.retryCount < job.maxRetries) {
-          job.nextRetryAt = this.calculateNextRetry(job);
-        }
-        
-        this.logger.error(`Job ${job.id} failed: ${result.error}`);
+        this.markFailed(job, `${failedTasks.length} of ${tasks.length} documents failed to process`);
+        this.logger.error(`Job ${job.id} failed: ${job.errorMessage}`);
       }
 
-      await this.ingestionJobRepository.save(job);
+      await this.finishJob(lease, job);
 
     } catch (error) {
       this.logger.error(`Error processing job ${job.id}:`, error);
-      
-      // Mark as failed
-      job.status = IngestionStatus.FAILED;
-      job.errorMessage = error.message || 'Processing failed';
-      job.completedAt = new Date();
-      
-      // Schedule retry if retries remaining
-      if (job.retryCount < job.maxRetries) {
-        job.nextRetryAt = this.calculateNextRetry(job);
+
+      this.markFailed(job, error.message || 'Processing failed');
+      await this.finishJob(lease, job);
+    }
+  }
+
+  // Private helper methods
+  private async changeStatus(
+    job: IngestionJob,
+    allowedStatuses: IngestionStatus[],
+    changes: Partial<IngestionJob>,
+    errorMessage: string,
+    criteria: FindOptionsWhere<IngestionJob> = {}
+  ): Promise<void> {
+    // Conditional on the status so a worker finishing the job at the same moment wins cleanly
+    const { affected } = allowedStatuses.includes(job.status)
+      ? await this.ingestionJobRepository.update({ ...criteria, id: job.id, status: In(allowedStatuses) }, changes)
+      : { affected: 0 };
+
+    if (!affected) {
+      throw new BadRequestException(errorMessage);
+    }
+
+    await this.ingestionEventsService.publishStatus({ ...job, ...changes });
+  }
+
+  // Process one document of a job. Returns false when the job was aborted part-way through it
+  private async processTask(
+    job: IngestionJob,
+    task: IngestionTask,
+    document: Document | undefined,
+    processingType: ProcessingType,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    if (!document) {
+      await this.ingestionTasksService.skip(task, 'Document no longer exists');
+      return true;
+    }
+
+    if (!this.processingService.supports(processingType, document.mimeType)) {
+      await this.ingestionTasksService.skip(task, `${document.mimeType} documents cannot be processed with ${processingType}`);
+      return true;
+    }
+
+    await this.ingestionTasksService.start(task);
+
+    const result = await this.processingService.processDocuments(
+      processingType,
+      [{
+        id: document.id,
+        storageKey: document.storageKey,
+        fileName: document.originalFileName,
+        mimeType: document.mimeType,
+      }],
+      job.parameters,
+      { signal }
+    );
+
+    if (result.aborted) {
+      await this.ingestionTasksService.requeue(task);
+      return false;
+    }
+
+    if (result.success) {
+      await this.ingestionTasksService.complete(task, result.data);
+      await this.applyResults(job, result.data);
+    } else {
+      await this.ingestionTasksService.fail(task, result.error || 'Processing failed');
+      this.logger.warn(`Document ${task.documentId} of job ${job.id} failed: ${result.error}`);
+    }
+
+    return true;
+  }
+
+  // The job output counts its tasks by outcome; each document's output is kept on its task
+  private summarizeTasks(tasks: IngestionTask[]): any {
+    const count = (status: IngestionTaskStatus) => tasks.filter(task => task.status === status).length;
+
+    return {
+      total: tasks.length,
+      completed: count(IngestionTaskStatus.COMPLETED),
+      failed: count(IngestionTaskStatus.FAILED),
+      skipped: count(IngestionTaskStatus.SKIPPED),
+    };
+  }
+
+  private async validateDocuments(documentIds: number[], userId: number, userRoles: string[]): Promise<Document[]> {
+    // Owners, admins and users the documents are shared with may process them
+    return this.documentsService.findAccessibleDocuments(documentIds, userId, userRoles);
+  }
+
+  // Record the outcome of a job and release its lease
+  private async finishJob(lease: { id: number; leaseOwner: string; status: IngestionStatus }, job: IngestionJob): Promise<void> {
+    const { affected } = await this.ingestionJobRepository.update(lease, {
+      status: job.status,
+      progress: job.progress,
+      outputData: job.outputData,
+      errorMessage: job.errorMessage,
+      completedAt: job.completedAt,
+      nextRetryAt: job.nextRetryAt,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    });
+
+    // Cancelled or paused just before finishing; the output is still worth keeping
+    if (!affected) {
+      await this.stopJob(job, job.outputData);
+      return;
+    }
+
+    await this.ingestionEventsService.publishStatus(job);
+  }
+
+  // Keep the task summary of a job stopped part-way and release its lease, leaving the status set by whoever stopped it
+  private async stopJob(job: IngestionJob, outputData: any): Promise<void> {
+    const { affected } = await this.ingestionJobRepository.update(
+      { id: job.id, leaseOwner: job.leaseOwner },
+      { outputData, leaseOwner: null, leaseExpiresAt: null }
+    );
+
+    if (affected) {
+      this.logger.log(`Job ${job.id} was stopped before finishing`);
+    } else {
+      this.logger.warn(`Lost the lease on job ${job.id}; abandoning it`);
+    }
+  }
+
+  // Feed processing output back into the source documents
+  private async applyResults(job: IngestionJob, output: any): Promise<void> {
+    await this.storeExtractedText(job, output || {});
+
+    if (job.parameters?.applyTags) {
+      await this.applyClassificationTags(job, output || {});
+    }
+  }
+
+  // Make OCR and text extraction output searchable on the source documents
+  private async storeExtractedText(job: IngestionJob, output: any): Promise<void> {
+    const entries = [
+      ...(output.extracted_text || []).map(item => ({ documentId: item.document_id, text: item.text })),
+      ...(output.extracted_content || []).map(item => ({ documentId: item.document_id, text: item.content })),
+    ];
+
+    for (const entry of entries) {
+      if (!this.isJobDocument(job, entry.documentId) || typeof entry.text !== 'string') {
+        continue;
+      }
+
+      try {
+        await this.documentsService.updateExtractedText(entry.documentId, entry.text);
+      } catch (error) {
+        this.logger.error(`Failed to store extracted text for document ${entry.documentId}: ${error.message}`);
+      }
+    }
+  }
+
+  // Output is only applied to the documents the job was started on, which its creator was allowed to process
+  private isJobDocument(job: IngestionJob, documentId: any): boolean {
+    return (job.inputData?.documentIds || []).includes(Number(documentId));
+  }
+
+  // Tag each classified document with its predicted category
+  private async applyClassificationTags(job: IngestionJob, output: any): Promise<void> {
+    const classifications = output.classifications || [];
+
+    for (const classification of classifications) {
+      if (!this.isJobDocument(job, classification.document_id) || !classification.category) {
+        continue;
       }
 
-      await this.ingestionJobRepository.save(job);
+      try {
+        await this.tagsService.addToDocument(classification.document_id, [classification.category]);
+      } catch (error) {
+        this.logger.error(`Failed to tag document ${classification.document_id}: ${error.message}`);
+      }
     }
   }
 
@@ -293,8 +629,6 @@ export class IngestionService {
 
   private mapExternalStatus(externalStatus: string): IngestionStatus {
     const statusMap = {
-      'pending': IngestionStatus.PENDING,
-      'processing': IngestionStatus.PROCESSING,
       'completed': IngestionStatus.COMPLETED,
       'failed': IngestionStatus.FAILED,
     };
@@ -302,13 +636,32 @@ export class IngestionService {
     return statusMap[externalStatus] || IngestionStatus.FAILED;
   }
 
+  // Schedule an automatic retry, or dead-letter the job once its retries are used up
+  private markFailed(job: IngestionJob, errorMessage: string): void {
+    job.errorMessage = errorMessage;
+    job.completedAt = new Date();
+
+    if (job.retryCount < job.maxRetries) {
+      job.status = IngestionStatus.FAILED;
+      job.nextRetryAt = this.calculateNextRetry(job);
+    } else {
+      job.status = IngestionStatus.DEAD_LETTER;
+      job.nextRetryAt = null;
+      this.logger.warn(`Job ${job.id} exhausted its ${job.maxRetries} retries and was dead-lettered`);
+    }
+  }
+
   private calculateNextRetry(job: IngestionJob): Date {
     // Exponential backoff: 2^retryCount minutes
     const delayMinutes = Math.pow(2, job.retryCount);
     const maxDelayMinutes = 60; // Cap at 1 hour
     const actualDelayMinutes = Math.min(delayMinutes, maxDelayMinutes);
-    
-    return new Date(Date.now() + actualDelayMinutes * 60 * 1000);
+
+    // Jitter: wait between half and all of the backoff, so jobs that failed
+    // together (e.g. during an outage) do not all retry at the same moment
+    const jitteredDelayMinutes = actualDelayMinutes * (0.5 + Math.random() * 0.5);
+
+    return new Date(Date.now() + jitteredDelayMinutes * 60 * 1000);
   }
 
   private formatJobResponse(job: IngestionJob): any {
@@ -320,8 +673,4 @@ export class IngestionService {
       } : null,
     };
   }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 } 
\ No newline at end of file
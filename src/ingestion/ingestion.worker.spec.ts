@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { IngestionWorker } from './ingestion.worker';
+import { IngestionQueueService } from './ingestion-queue.service';
+import { IngestionService } from './ingestion.service';
+import { IngestionJob } from './entities/ingestion-job.entity';
+
+describe('IngestionWorker', () => {
+  let worker: IngestionWorker;
+
+  const mockQueueService = {
+    claim: jest.fn(),
+    heartbeat: jest.fn(),
+    isActive: jest.fn(),
+    reclaimStale: jest.fn(),
+  };
+
+  const mockIngestionService = {
+    processJob: jest.fn(),
+  };
+
+  const config: Record<string, string> = {
+    INGESTION_WORKER_ENABLED: 'false',
+    INGESTION_POLL_INTERVAL_MS: '5',
+    INGESTION_LEASE_MS: '30',
+  };
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IngestionWorker,
+        { provide: IngestionQueueService, useValue: mockQueueService },
+        { provide: IngestionService, useValue: mockIngestionService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    worker = module.get<IngestionWorker>(IngestionWorker);
+
+    mockQueueService.claim.mockResolvedValue(null);
+    mockQueueService.heartbeat.mockResolvedValue(true);
+    mockQueueService.isActive.mockResolvedValue(true);
+    mockQueueService.reclaimStale.mockResolvedValue(0);
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    jest.clearAllMocks();
+  });
+
+  it('should not start when disabled', () => {
+    worker.onApplicationBootstrap();
+
+    expect(mockQueueService.claim).not.toHaveBeenCalled();
+  });
+
+  it('should reclaim stale jobs before claiming any', async () => {
+    worker.start();
+    await waitFor(() => mockQueueService.claim.mock.calls.length > 0);
+
+    expect(mockQueueService.reclaimStale).toHaveBeenCalledTimes(1);
+    expect(
+      mockQueueService.reclaimStale.mock.invocationCallOrder[0],
+    ).toBeLessThan(mockQueueService.claim.mock.invocationCallOrder[0]);
+  });
+
+  it('should process claimed jobs and renew their lease meanwhile', async () => {
+    const job = { id: 7, leaseOwner: 'worker' } as IngestionJob;
+    mockQueueService.claim.mockResolvedValueOnce(job);
+    mockIngestionService.processJob.mockImplementation(
+      () => new Promise((resolve) => setTimeout(resolve, 50)),
+    );
+
+    worker.start();
+    await waitFor(() => mockIngestionService.processJob.mock.calls.length > 0);
+    await worker.stop();
+
+    expect(mockQueueService.claim).toHaveBeenCalledWith(expect.any(String), 30);
+    expect(mockIngestionService.processJob).toHaveBeenCalledWith(
+      job,
+      expect.any(AbortSignal),
+    );
+    expect(mockQueueService.heartbeat).toHaveBeenCalledWith(job, 30);
+  });
+
+  it('should abort a job that was cancelled or paused', async () => {
+    let signal: AbortSignal;
+    mockQueueService.claim.mockResolvedValueOnce({ id: 7 } as IngestionJob);
+    mockQueueService.isActive.mockResolvedValue(false);
+    mockIngestionService.processJob.mockImplementation(
+      (job, jobSignal: AbortSignal) => {
+        signal = jobSignal;
+        return new Promise((resolve) =>
+          jobSignal.addEventListener('abort', resolve),
+        );
+      },
+    );
+
+    worker.start();
+    await waitFor(() => signal?.aborted);
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should keep polling after a failed claim', async () => {
+    mockQueueService.claim.mockRejectedValueOnce(new Error('connection lost'));
+
+    worker.start();
+    await waitFor(() => mockQueueService.claim.mock.calls.length > 1);
+
+    expect(mockQueueService.claim.mock.calls.length).toBeGreaterThan(1);
+  });
+});
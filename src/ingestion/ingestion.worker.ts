@@ -0,0 +1,192 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { IngestionQueueService } from './ingestion-queue.service';
+import { IngestionService } from './ingestion.service';
+import { IngestionJob } from './entities/ingestion-job.entity';
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_LEASE_MS = 60000;
+
+// How often an idle worker looks for jobs abandoned by crashed workers
+const RECLAIM_INTERVAL_MS = 60000;
+
+/**
+ * Claims queued ingestion jobs and runs them, renewing each job's lease until
+ * it finishes. Runs inside the API unless INGESTION_WORKER_ENABLED=false; the
+ * standalone worker process (`npm run start:worker`) always runs it.
+ */
+@Injectable()
+export class IngestionWorker
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(IngestionWorker.name);
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly running = new Set<Promise<void>>();
+  private loop: Promise<void> | null = null;
+  private stopping = false;
+  private lastReclaimAt = 0;
+
+  constructor(
+    private ingestionQueueService: IngestionQueueService,
+    private ingestionService: IngestionService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (this.configService.get('INGESTION_WORKER_ENABLED') !== 'false') {
+      this.start();
+    }
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.stop();
+  }
+
+  start(): void {
+    if (this.loop) {
+      return;
+    }
+
+    this.stopping = false;
+    this.logger.log(`Ingestion worker ${this.workerId} started`);
+    this.loop = this.run();
+  }
+
+  /**
+   * Stop claiming jobs and wait for the ones in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await this.loop;
+    await Promise.all(this.running);
+    this.loop = null;
+  }
+
+  private async run(): Promise<void> {
+    while (!this.stopping) {
+      try {
+        await this.reclaimIfDue();
+
+        if (this.running.size < this.getConcurrency()) {
+          const job = await this.ingestionQueueService.claim(
+            this.workerId,
+            this.getLeaseMs(),
+          );
+          if (job) {
+            this.track(this.runJob(job));
+            continue;
+          }
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to poll the ingestion queue: ${error.message}`,
+        );
+      }
+
+      await this.delay(this.getPollIntervalMs());
+    }
+  }
+
+  private async runJob(job: IngestionJob): Promise<void> {
+    const leaseMs = this.getLeaseMs();
+    const controller = new AbortController();
+
+    // Renew well before expiry so one slow heartbeat does not lose the job
+    const heartbeat = setInterval(() => {
+      this.ingestionQueueService
+        .heartbeat(job, leaseMs)
+        .then((held) => {
+          if (!held) {
+            controller.abort();
+          }
+        })
+        .catch((error) =>
+          this.logger.error(
+            `Heartbeat for ingestion job ${job.id} failed: ${error.message}`,
+          ),
+        );
+    }, leaseMs / 3);
+
+    // Cancelling or pausing a job only changes its row, so look for that often
+    const control = setInterval(() => {
+      this.ingestionQueueService
+        .isActive(job)
+        .then((active) => {
+          if (!active) {
+            controller.abort();
+          }
+        })
+        .catch((error) =>
+          this.logger.error(
+            `Status check for ingestion job ${job.id} failed: ${error.message}`,
+          ),
+        );
+    }, this.getPollIntervalMs());
+
+    try {
+      await this.ingestionService.processJob(job, controller.signal);
+    } catch (error) {
+      this.logger.error(`Ingestion job ${job.id} crashed: ${error.message}`);
+    } finally {
+      clearInterval(heartbeat);
+      clearInterval(control);
+    }
+  }
+
+  /**
+   * Requeue stale jobs on startup and then once a minute, so jobs of a worker
+   * that died are picked up without waiting for a restart
+   */
+  private async reclaimIfDue(): Promise<void> {
+    if (Date.now() - this.lastReclaimAt < RECLAIM_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastReclaimAt = Date.now();
+    const reclaimed = await this.ingestionQueueService.reclaimStale();
+    if (reclaimed > 0) {
+      this.logger.log(
+        `Reclaimed ${reclaimed} ingestion jobs with expired leases`,
+      );
+    }
+  }
+
+  private track(task: Promise<void>): void {
+    this.running.add(task);
+    task.finally(() => this.running.delete(task));
+  }
+
+  private getConcurrency(): number {
+    const concurrency = Number(
+      this.configService.get('INGESTION_WORKER_CONCURRENCY'),
+    );
+    return Number.isInteger(concurrency) && concurrency > 0
+      ? concurrency
+      : DEFAULT_CONCURRENCY;
+  }
+
+  private getPollIntervalMs(): number {
+    return (
+      Number(this.configService.get('INGESTION_POLL_INTERVAL_MS')) ||
+      DEFAULT_POLL_INTERVAL_MS
+    );
+  }
+
+  private getLeaseMs(): number {
+    return (
+      Number(this.configService.get('INGESTION_LEASE_MS')) || DEFAULT_LEASE_MS
+    );
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -7,6 +7,8 @@ import 'dotenv/config';
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
   app.useGlobalPipes(new ValidationPipe({ whitelist: true }));
+  // Lets ingestion jobs running in this process finish on shutdown
+  app.enableShutdownHooks();
 
   const config = new DocumentBuilder()
     .setTitle('User Document Backend')
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ThumbnailRenderer } from './thumbnail-renderer';
+
+@Module({
+  providers: [ThumbnailRenderer],
+  exports: [ThumbnailRenderer],
+})
+export class PreviewsModule {}
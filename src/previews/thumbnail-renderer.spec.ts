@@ -0,0 +1,70 @@
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+import { THUMBNAIL_SIZES, ThumbnailRenderer } from './thumbnail-renderer';
+
+describe('ThumbnailRenderer', () => {
+  const renderer = (values: Record<string, string> = {}) =>
+    new ThumbnailRenderer({
+      get: (key: string) => values[key],
+    } as ConfigService);
+
+  it('should render images in every size, keeping the aspect ratio', async () => {
+    const image = await sharp({
+      create: {
+        width: 1000,
+        height: 500,
+        channels: 3,
+        background: '#336699',
+      },
+    })
+      .png()
+      .toBuffer();
+
+    const thumbnails = await renderer().render(
+      Readable.from([image]),
+      'image/png',
+    );
+
+    expect([...thumbnails.keys()]).toEqual(THUMBNAIL_SIZES);
+    const metadata = await sharp(thumbnails.get(256)).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.width).toBe(256);
+    expect(metadata.height).toBe(128);
+  });
+
+  it('should refuse images above the pixel limit', async () => {
+    const image = await sharp({
+      create: { width: 200, height: 200, channels: 3, background: '#fff' },
+    })
+      .png()
+      .toBuffer();
+
+    await expect(
+      renderer({ THUMBNAIL_MAX_PIXELS: '10000' }).render(
+        Readable.from([image]),
+        'image/png',
+      ),
+    ).rejects.toThrow(/pixel limit/);
+  });
+
+  it('should not render types it does not support', async () => {
+    await expect(
+      renderer().render(Readable.from([Buffer.from('text')]), 'text/plain'),
+    ).resolves.toBeNull();
+  });
+
+  it('should skip PDFs when no renderer is installed', async () => {
+    const withoutPdfRenderer = renderer({
+      PDF_RENDERER: '/nonexistent/pdftoppm',
+    });
+
+    await expect(
+      withoutPdfRenderer.render(
+        Readable.from([Buffer.from('%PDF-1.7')]),
+        'application/pdf',
+      ),
+    ).resolves.toBeNull();
+    expect(withoutPdfRenderer.canRender('application/pdf')).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+
+// Longest edge of the generated thumbnails, in pixels
+export const THUMBNAIL_SIZES = [128, 256, 512];
+export const DEFAULT_THUMBNAIL_SIZE = 256;
+
+export const THUMBNAIL_MIME_TYPE = 'image/webp';
+
+// PDF pages are rasterised at this size and then scaled down like images
+const PDF_RENDER_SIZE = Math.max(...THUMBNAIL_SIZES) * 2;
+
+// Largest image decoded for thumbnails, unless THUMBNAIL_MAX_PIXELS overrides it
+const DEFAULT_MAX_INPUT_PIXELS = 50_000_000;
+
+/**
+ * Renders thumbnails of images with sharp and of the first page of PDFs with
+ * poppler's pdftoppm, when it is installed (PDF_RENDERER overrides the path).
+ */
+@Injectable()
+export class ThumbnailRenderer {
+  private readonly logger = new Logger(ThumbnailRenderer.name);
+  private pdfRendererMissing = false;
+
+  constructor(private configService: ConfigService) {}
+
+  canRender(mimeType: string): boolean {
+    return (
+      (mimeType || '').startsWith('image/') ||
+      (mimeType === 'application/pdf' && !this.pdfRendererMissing)
+    );
+  }
+
+  /**
+   * Render WebP thumbnails of a file in every size. Returns null when the
+   * file's type cannot be rendered here.
+   */
+  async render(
+    file: Readable,
+    mimeType: string,
+  ): Promise<Map<number, Buffer> | null> {
+    if (!this.canRender(mimeType)) {
+      file.destroy();
+      return null;
+    }
+
+    const options = { limitInputPixels: this.getMaxInputPixels() };
+    let input: sharp.Sharp;
+
+    if (mimeType === 'application/pdf') {
+      const page = await this.renderFirstPage(file);
+      if (!page) {
+        return null;
+      }
+      input = sharp(page, options);
+    } else {
+      // Images are streamed into sharp rather than read into memory first
+      input = sharp(options);
+    }
+
+    const resized = Promise.all(
+      THUMBNAIL_SIZES.map((size) =>
+        input
+          .clone()
+          .rotate() // Apply the EXIF orientation of photos
+          .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+          .webp()
+          .toBuffer(),
+      ),
+    );
+
+    if (mimeType === 'application/pdf') {
+      return this.toSizeMap(await resized);
+    }
+
+    // sharp does not see errors of its source stream, so fail on those here
+    const readFailed = new Promise<never>((resolve, reject) =>
+      file.once('error', reject),
+    );
+    file.pipe(input);
+
+    try {
+      return this.toSizeMap(await Promise.race([resized, readFailed]));
+    } finally {
+      file.destroy();
+    }
+  }
+
+  private toSizeMap(buffers: Buffer[]): Map<number, Buffer> {
+    return new Map(
+      THUMBNAIL_SIZES.map((size, index) => [size, buffers[index]]),
+    );
+  }
+
+  private async renderFirstPage(file: Readable): Promise<Buffer | null> {
+    const renderer = this.configService.get('PDF_RENDERER') || 'pdftoppm';
+    const child = spawn(renderer, [
+      '-png',
+      '-singlefile',
+      '-f',
+      '1',
+      '-l',
+      '1',
+      '-scale-to',
+      String(PDF_RENDER_SIZE),
+      '-',
+    ]);
+
+    const exit = new Promise<number>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', resolve);
+    });
+    // The renderer may stop reading early, e.g. for a broken file
+    child.stdin.on('error', () => undefined);
+    file.on('error', () => child.kill());
+    file.pipe(child.stdin);
+
+    try {
+      const [output, code] = await Promise.all([
+        this.readAll(child.stdout),
+        exit,
+      ]);
+      if (code !== 0) {
+        throw new Error(`${renderer} exited with code ${code}`);
+      }
+      return output;
+    } catch (error) {
+      file.destroy();
+      if (error.code === 'ENOENT') {
+        this.logger.warn(
+          `${renderer} is not installed; PDF thumbnails are disabled`,
+        );
+        this.pdfRendererMissing = true;
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private getMaxInputPixels(): number {
+    return (
+      Number(this.configService.get('THUMBNAIL_MAX_PIXELS')) ||
+      DEFAULT_MAX_INPUT_PIXELS
+    );
+  }
+
+  private async readAll(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,55 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ProcessingService, ProcessingType } from './processing.service';
+
+describe('ProcessingService', () => {
+  let service: ProcessingService;
+
+  const documents = [
+    { id: 1, storageKey: 'a', fileName: 'a.pdf', mimeType: 'application/pdf' },
+    { id: 2, storageKey: 'b', fileName: 'b.pdf', mimeType: 'application/pdf' },
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ProcessingService, { provide: ConfigService, useValue: {} }],
+    }).compile();
+
+    service = module.get<ProcessingService>(ProcessingService);
+  });
+
+  it('should return the documents processed before the signal was aborted', async () => {
+    const controller = new AbortController();
+    // Classification spends 500ms on each of the two documents
+    setTimeout(() => controller.abort(), 700);
+
+    const result = await service.processDocuments(
+      ProcessingType.DOCUMENT_CLASSIFICATION,
+      documents,
+      {},
+      { signal: controller.signal },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.aborted).toBe(true);
+    expect(result.data.classifications.map((item) => item.document_id)).toEqual(
+      [1],
+    );
+  });
+
+  it('should not start processing when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await service.processDocuments(
+      ProcessingType.OCR,
+      documents,
+      {},
+      { signal: controller.signal },
+    );
+
+    expect(result.aborted).toBe(true);
+    expect(result.data.extracted_text).toEqual([]);
+    expect(result.processingTime).toBeLessThan(100);
+  });
+});
@@ -13,17 +13,40 @@ export interface ProcessingResult {
   success: boolean;
   data?: any;
   error?: string;
+  aborted?: boolean; // Stopped through the abort signal; data holds the documents processed so far
   processingTime: number;
   metadata?: any;
 }
 
 export interface DocumentInfo {
   id: number;
-  filePath: string;
+  storageKey: string;
   fileName: string;
   mimeType: string;
 }
 
+export interface ProcessingOptions {
+  signal?: AbortSignal; // Stops processing between documents
+}
+
+const OFFICE_MIME_TYPES = [
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.*'
+];
+
+/**
+ * MIME types each processing type can handle. Uploads store the type detected
+ * from the file content, so these can be trusted for routing.
+ */
+const SUPPORTED_MIME_TYPES: Record<ProcessingType, string[]> = {
+  [ProcessingType.OCR]: ['application/pdf', 'image/*'],
+  [ProcessingType.TEXT_EXTRACTION]: ['application/pdf', 'text/*', ...OFFICE_MIME_TYPES],
+  [ProcessingType.DOCUMENT_CLASSIFICATION]: ['*'],
+  [ProcessingType.DATA_EXTRACTION]: ['*']
+};
+
 @Injectable()
 export class ProcessingService {
   private readonly logger = new Logger(ProcessingService.name);
@@ -31,13 +54,16 @@ export class ProcessingService {
   constructor(private configService: ConfigService) {}
 
   /**
-   * Process documents based on the specified type
+   * Process documents based on the specified type. Processing stops between
+   * documents once the signal is aborted, returning what was done so far.
    */
   async processDocuments(
     type: ProcessingType,
     documents: DocumentInfo[],
-    parameters: any = {}
+    parameters: any = {},
+    options: ProcessingOptions = {}
   ): Promise<ProcessingResult> {
+    const { signal } = options;
     const startTime = Date.now();
     
     try {
@@ -47,23 +73,36 @@ export class ProcessingService {
 
       switch (type) {
         case ProcessingType.OCR:
-          result = await this.processOCR(documents, parameters);
+          result = await this.processOCR(documents, parameters, options);
           break;
         case ProcessingType.TEXT_EXTRACTION:
-          result = await this.processTextExtraction(documents, parameters);
+          result = await this.processTextExtraction(documents, parameters, options);
           break;
         case ProcessingType.DOCUMENT_CLASSIFICATION:
-          result = await this.processDocumentClassification(documents, parameters);
+          result = await this.processDocumentClassification(documents, parameters, options);
           break;
         case ProcessingType.DATA_EXTRACTION:
-          result = await this.processDataExtraction(documents, parameters);
+          result = await this.processDataExtraction(documents, parameters, options);
           break;
         default:
           throw new Error(`Unknown processing type: ${type}`);
       }
 
       const processingTime = Date.now() - startTime;
-      
+
+      if (signal?.aborted) {
+        this.logger.log(`Aborted ${type} processing after ${processingTime}ms`);
+
+        return {
+          type,
+          success: false,
+          aborted: true,
+          data: result,
+          error: 'Processing was aborted',
+          processingTime
+        };
+      }
+
       this.logger.log(`Completed ${type} processing in ${processingTime}ms`);
 
       return {
@@ -90,14 +129,23 @@ export class ProcessingService {
     }
   }
 
+  /**
+   * Check whether a processing type can handle a MIME type
+   */
+  supports(type: ProcessingType, mimeType: string): boolean {
+    return (SUPPORTED_MIME_TYPES[type] || []).some(pattern =>
+      pattern === '*' ||
+      pattern === mimeType ||
+      (pattern.endsWith('*') && (mimeType || '').startsWith(pattern.slice(0, -1)))
+    );
+  }
+
   /**
    * Process OCR (Optical Character Recognition)
    */
-  private async processOCR(documents: DocumentInfo[], parameters: any): Promise<any> {
+  private async processOCR(documents: DocumentInfo[], parameters: any, options: ProcessingOptions): Promise<any> {
     // Simulate OCR processing with delays
-    await this.simulateProcessing(2000);
-
-    const extractedText = documents.map(doc => ({
+    const extractedText = await this.mapDocuments(documents, 2000, options, doc => ({
       document_id: doc.id,
       fileName: doc.fileName,
       text: this.generateOCRText(doc.fileName),
@@ -124,11 +172,9 @@ export class ProcessingService {
   /**
    * Process text extraction
    */
-  private async processTextExtraction(documents: DocumentInfo[], parameters: any): Promise<any> {
+  private async processTextExtraction(documents: DocumentInfo[], parameters: any, options: ProcessingOptions): Promise<any> {
     // Simulate text extraction processing
-    await this.simulateProcessing(1500);
-
-    const extractedContent = documents.map(doc => ({
+    const extractedContent = await this.mapDocuments(documents, 1500, options, doc => ({
       document_id: doc.id,
       fileName: doc.fileName,
       content: this.generateExtractedContent(doc.fileName),
@@ -153,14 +199,12 @@ export class ProcessingService {
   /**
    * Process document classification
    */
-  private async processDocumentClassification(documents: DocumentInfo[], parameters: any): Promise<any> {
-    // Simulate classification processing
-    await this.simulateProcessing(1000);
-
+  private async processDocumentClassification(documents: DocumentInfo[], parameters: any, options: ProcessingOptions): Promise<any> {
     const categories = parameters.categories || ["invoice", "receipt", "contract", "report"];
     const confidenceThreshold = parameters.confidenceThreshold || 0.7;
 
-    const classifications = documents.map(doc => {
+    // Simulate classification processing
+    const classifications = await this.mapDocuments(documents, 1000, options, doc => {
       const category = this.getRandomCategory(categories);
       const confidence = this.getRandomConfidence(confidenceThreshold, 0.99);
       
@@ -187,14 +231,12 @@ export class ProcessingService {
   /**
    * Process data extraction
    */
-  private async processDataExtraction(documents: DocumentInfo[], parameters: any): Promise<any> {
-    // Simulate data extraction processing
-    await this.simulateProcessing(1800);
-
+  private async processDataExtraction(documents: DocumentInfo[], parameters: any, options: ProcessingOptions): Promise<any> {
     const fields = parameters.fields || ["invoice_number", "amount", "date", "vendor"];
     const validateData = parameters.validateData || true;
 
-    const extractedData = documents.map(doc => ({
+    // Simulate data extraction processing
+    const extractedData = await this.mapDocuments(documents, 1800, options, doc => ({
       document_id: doc.id,
       fileName: doc.fileName,
       extracted_fields: this.generateExtractedFields(fields, doc.id),
@@ -213,10 +255,47 @@ export class ProcessingService {
   }
 
   /**
-   * Simulate processing time
+   * Process documents one at a time, spreading the simulated processing time
+   * across them, until all are done or the signal is aborted
    */
-  private async simulateProcessing(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async mapDocuments<T>(
+    documents: DocumentInfo[],
+    totalMs: number,
+    { signal }: ProcessingOptions,
+    processDocument: (doc: DocumentInfo) => T
+  ): Promise<T[]> {
+    const results: T[] = [];
+
+    for (const doc of documents) {
+      await this.simulateProcessing(totalMs / documents.length, signal);
+      if (signal?.aborted) {
+        break;
+      }
+      results.push(processDocument(doc));
+    }
+
+    return results;
+  }
+
+  /**
+   * Simulate processing time, ending early when the signal is aborted
+   */
+  private async simulateProcessing(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return;
+    }
+
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
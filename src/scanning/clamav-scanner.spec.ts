@@ -0,0 +1,106 @@
+import { ConfigService } from '@nestjs/config';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { ClamavScanner } from './clamav-scanner';
+
+describe('ClamavScanner', () => {
+  let server: net.Server;
+  let scanner: ClamavScanner;
+  let received: Buffer;
+  let reply: (content: Buffer) => string;
+
+  // Minimal stand-in for clamd: collects the INSTREAM chunks and answers
+  // once the terminating zero-length chunk arrives
+  const handleConnection = (socket: net.Socket) => {
+    let data = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      data = Buffer.concat([data, chunk]);
+      const command = 'zINSTREAM\0';
+      if (data.length < command.length) {
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let offset = command.length;
+      while (offset + 4 <= data.length) {
+        const length = data.readUInt32BE(offset);
+        if (length === 0) {
+          received = Buffer.concat(chunks);
+          socket.end(reply(received));
+          return;
+        }
+        if (offset + 4 + length > data.length) {
+          return;
+        }
+        chunks.push(data.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+    });
+  };
+
+  beforeEach(async () => {
+    server = net.createServer(handleConnection);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+
+    const values = {
+      SCAN_ENABLED: 'true',
+      CLAMAV_HOST: '127.0.0.1',
+      CLAMAV_PORT: String((server.address() as AddressInfo).port),
+    };
+    scanner = new ClamavScanner({
+      get: (key: string) => values[key],
+    } as ConfigService);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should stream the file and report clean files', async () => {
+    reply = () => 'stream: OK\0';
+
+    const result = await scanner.scan(
+      Readable.from([Buffer.from('hello '), Buffer.from('world')]),
+    );
+
+    expect(result).toEqual({ infected: false });
+    expect(received.toString()).toBe('hello world');
+  });
+
+  it('should report the signature of infected files', async () => {
+    reply = () => 'stream: Eicar-Test-Signature FOUND\0';
+
+    await expect(
+      scanner.scan(Readable.from([Buffer.from('X5O!P%@AP')])),
+    ).resolves.toEqual({
+      infected: true,
+      signature: 'Eicar-Test-Signature',
+    });
+  });
+
+  it('should fail when the daemon reports an error', async () => {
+    reply = () => 'INSTREAM size limit exceeded. ERROR\0';
+
+    await expect(
+      scanner.scan(Readable.from([Buffer.from('data')])),
+    ).rejects.toThrow('INSTREAM size limit exceeded');
+  });
+
+  it('should fail when the daemon cannot be reached', async () => {
+    const port = (server.address() as AddressInfo).port;
+    await new Promise((resolve) => server.close(resolve));
+    server = net.createServer().listen(0);
+    const unreachable = new ClamavScanner({
+      get: (key: string) =>
+        ({ CLAMAV_HOST: '127.0.0.1', CLAMAV_PORT: String(port) })[key],
+    } as ConfigService);
+
+    await expect(
+      unreachable.scan(Readable.from([Buffer.from('data')])),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { once } from 'events';
+import * as net from 'net';
+import { Readable } from 'stream';
+
+const DEFAULT_CLAMAV_PORT = 3310;
+const DEFAULT_CLAMAV_TIMEOUT_MS = 60000;
+
+export interface ScanResult {
+  infected: boolean;
+  signature?: string; // Name of the detected malware
+}
+
+/**
+ * Client for a ClamAV daemon (clamd) or anything speaking its INSTREAM
+ * protocol. Scanning is off unless SCAN_ENABLED=true.
+ */
+@Injectable()
+export class ClamavScanner {
+  constructor(private configService: ConfigService) {}
+
+  isEnabled(): boolean {
+    return this.configService.get('SCAN_ENABLED') === 'true';
+  }
+
+  /**
+   * Stream a file to the daemon and wait for its verdict. Fails when the
+   * daemon cannot be reached or reports an error, e.g. a file over its
+   * StreamMaxLength.
+   */
+  async scan(stream: Readable): Promise<ScanResult> {
+    const socket = this.connect();
+    socket.setTimeout(
+      Number(this.configService.get('CLAMAV_TIMEOUT_MS')) ||
+        DEFAULT_CLAMAV_TIMEOUT_MS,
+      () => socket.destroy(new Error('Timed out waiting for the scanner')),
+    );
+
+    const reply = this.readReply(socket);
+    // Awaited below; a failure while still sending is reported from there
+    reply.catch(() => undefined);
+
+    try {
+      await once(socket, 'connect');
+      await this.write(socket, Buffer.from('zINSTREAM\0'));
+
+      // Each chunk is prefixed with its length; a zero length ends the stream
+      for await (const chunk of stream) {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length);
+        await this.write(socket, Buffer.concat([length, chunk]));
+      }
+      await this.write(socket, Buffer.alloc(4));
+    } catch (error) {
+      socket.destroy();
+      stream.destroy();
+      throw error;
+    }
+
+    return this.parseReply(await reply);
+  }
+
+  private connect(): net.Socket {
+    const socketPath = this.configService.get('CLAMAV_SOCKET');
+    if (socketPath) {
+      return net.createConnection(socketPath);
+    }
+
+    return net.createConnection(
+      Number(this.configService.get('CLAMAV_PORT')) || DEFAULT_CLAMAV_PORT,
+      this.configService.get('CLAMAV_HOST') || 'localhost',
+    );
+  }
+
+  private async write(socket: net.Socket, data: Buffer): Promise<void> {
+    if (!socket.write(data)) {
+      await once(socket, 'drain');
+    }
+  }
+
+  private readReply(socket: net.Socket): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let reply = '';
+      socket.setEncoding('utf8');
+      socket.on('data', (data) => (reply += data));
+      socket.on('error', reject);
+      socket.on('end', () => {
+        socket.end();
+        resolve(reply);
+      });
+    });
+  }
+
+  /**
+   * Replies look like `stream: OK`, `stream: Eicar-Signature FOUND` or
+   * `<message> ERROR`, terminated by a NUL byte
+   */
+  private parseReply(reply: string): ScanResult {
+    const verdict = reply.replace(/\0/g, '').trim();
+
+    if (verdict.endsWith(' OK')) {
+      return { infected: false };
+    }
+
+    const found = verdict.match(/^stream: (.+) FOUND$/);
+    if (found) {
+      return { infected: true, signature: found[1] };
+    }
+
+    throw new Error(`Scanner error: ${verdict || 'no reply'}`);
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ClamavScanner } from './clamav-scanner';
+
+@Module({
+  providers: [ClamavScanner],
+  exports: [ClamavScanner],
+})
+export class ScanningModule {}
@@ -0,0 +1,66 @@
+import 'dotenv/config';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { createStorageProvider } from './storage.module';
+
+const logger = new Logger('CopyStorage');
+
+/**
+ * Copy every stored file referenced by documents or versions from one storage
+ * driver to another, e.g. `npm run storage:copy -- local s3`. Run it before
+ * switching STORAGE_DRIVER; files already present in the target are skipped.
+ */
+async function copyStorage(from: string, to: string) {
+  const configService = new ConfigService();
+  const source = createStorageProvider(configService, from);
+  const target = createStorageProvider(configService, to);
+
+  // Same connection settings as AppModule
+  const dataSource = new DataSource({
+    type: 'postgres',
+    host: process.env.DB_HOST,
+    port: +process.env.DB_PORT,
+    username: process.env.DB_USER,
+    // password: process.env.DB_PASS,
+    database: process.env.DB_NAME,
+  });
+  await dataSource.initialize();
+
+  const rows: { key: string }[] = await dataSource.query(
+    'SELECT "filePath" AS key FROM "document" WHERE "filePath" IS NOT NULL UNION SELECT "filePath" FROM "document_versions" WHERE "filePath" IS NOT NULL',
+  );
+  await dataSource.destroy();
+
+  let copied = 0;
+  let missing = 0;
+  for (const { key } of rows) {
+    if (await target.exists(key)) {
+      continue;
+    }
+
+    if (!(await source.exists(key))) {
+      logger.warn(`Missing in ${from} storage: ${key}`);
+      missing++;
+      continue;
+    }
+
+    await target.put(key, await source.get(key));
+    copied++;
+  }
+
+  logger.log(
+    `Copied ${copied} of ${rows.length} files from ${from} to ${to} storage (${missing} missing)`,
+  );
+}
+
+const [from, to] = process.argv.slice(2);
+if (!from || !to) {
+  logger.error('Usage: npm run storage:copy -- <from-driver> <to-driver>');
+  process.exit(1);
+}
+
+copyStorage(from, to).catch((error) => {
+  logger.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable, catchError, from, mergeMap, throwError } from 'rxjs';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from './storage-provider.interface';
+
+/**
+ * Streamed uploads reach storage before validation and access checks run.
+ * Place after FileInterceptor so a failed request does not leave the file behind.
+ */
+@Injectable()
+export class DiscardUploadOnErrorInterceptor implements NestInterceptor {
+  constructor(@Inject(STORAGE_PROVIDER) private storage: StorageProvider) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+
+    return next.handle().pipe(
+      catchError((error) => {
+        const storageKey = request.file?.storageKey;
+        if (!storageKey) {
+          return throwError(() => error);
+        }
+
+        return from(
+          this.storage.delete(storageKey).catch(() => undefined),
+        ).pipe(mergeMap(() => throwError(() => error)));
+      }),
+    );
+  }
+}
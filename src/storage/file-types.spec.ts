@@ -0,0 +1,86 @@
+import { detectFileType } from './file-types';
+
+describe('detectFileType', () => {
+  const zipWith = (name: string) =>
+    Buffer.concat([
+      Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+      Buffer.alloc(26),
+      Buffer.from(name, 'latin1'),
+    ]);
+
+  it('should recognise files by their signature regardless of name', () => {
+    expect(detectFileType(Buffer.from('%PDF-1.7\n'), 'scan.bin').mimeType).toBe(
+      'application/pdf',
+    );
+    expect(
+      detectFileType(
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        'photo.png',
+      ).mimeType,
+    ).toBe('image/png');
+  });
+
+  it('should tell office documents apart from plain zip archives', () => {
+    expect(
+      detectFileType(zipWith('word/document.xml'), 'report.docx').mimeType,
+    ).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    );
+    expect(detectFileType(zipWith('data.csv'), 'archive.zip').mimeType).toBe(
+      'application/zip',
+    );
+  });
+
+  it('should trust an office extension on a zip whose parts lie beyond the head', () => {
+    expect(detectFileType(zipWith('docProps/app.xml'), 'large.xlsx')).toEqual(
+      expect.objectContaining({
+        mimeType:
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extensions: ['.xlsx'],
+      }),
+    );
+  });
+
+  it('should tell ISO media files apart by their brand', () => {
+    const ftyp = (brand: string) =>
+      Buffer.concat([
+        Buffer.from([0, 0, 0, 0x18]),
+        Buffer.from(`ftyp${brand}`),
+      ]);
+
+    expect(detectFileType(ftyp('heic'), 'IMG_0001.heic').mimeType).toBe(
+      'image/heic',
+    );
+    expect(detectFileType(ftyp('avif'), 'photo.avif').mimeType).toBe(
+      'image/avif',
+    );
+    expect(detectFileType(ftyp('M4A '), 'memo.m4a').mimeType).toBe('audio/mp4');
+    expect(detectFileType(ftyp('isom'), 'clip.mp4').mimeType).toBe('video/mp4');
+  });
+
+  it('should name legacy office files after their extension', () => {
+    const ole = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+    expect(detectFileType(ole, 'budget.xls').mimeType).toBe(
+      'application/vnd.ms-excel',
+    );
+  });
+
+  it('should fall back to text or octet-stream when no signature matches', () => {
+    expect(detectFileType(Buffer.from('a,b\n1,2\n'), 'data.csv')).toEqual(
+      expect.objectContaining({ mimeType: 'text/csv' }),
+    );
+    expect(detectFileType(Buffer.from('level=info\n'), 'app.log')).toEqual(
+      expect.objectContaining({
+        mimeType: 'text/plain',
+        extensions: expect.arrayContaining(['.log']),
+      }),
+    );
+    expect(
+      detectFileType(Buffer.from('not a pdf'), 'fake.pdf').extensions,
+    ).not.toContain('.pdf');
+    expect(
+      detectFileType(Buffer.from([0x00, 0x01, 0x02, 0xff]), 'blob.dat'),
+    ).toEqual({ mimeType: 'application/octet-stream', extensions: [] });
+  });
+});
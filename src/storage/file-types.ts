@@ -0,0 +1,231 @@
+import * as path from 'path';
+
+// Enough of the file to recognise every signature below, including the
+// part names near the start of an OOXML zip
+export const FILE_TYPE_HEAD_BYTES = 4100;
+
+interface FileSignature {
+  mimeType: string;
+  extensions: string[];
+  matches: (head: Buffer) => boolean;
+}
+
+const startsWith = (head: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, index) => head[offset + index] === byte);
+
+const ascii = (head: Buffer, text: string, offset = 0) =>
+  head.toString('latin1', offset, offset + text.length) === text;
+
+const zipContains = (head: Buffer, name: string) =>
+  startsWith(head, [0x50, 0x4b, 0x03, 0x04]) &&
+  head.includes(Buffer.from(name, 'latin1'));
+
+// ISO media files (MP4, QuickTime, HEIF, ...) name their flavour in the brand
+// following the ftyp box type
+const ftypBrand = (head: Buffer, brands: string[]) =>
+  ascii(head, 'ftyp', 4) && brands.includes(head.toString('latin1', 8, 12));
+
+// More specific signatures come before the generic ones they overlap with
+const SIGNATURES: FileSignature[] = [
+  {
+    mimeType: 'application/pdf',
+    extensions: ['.pdf'],
+    matches: (head) => ascii(head, '%PDF-'),
+  },
+  {
+    mimeType: 'image/png',
+    extensions: ['.png'],
+    matches: (head) =>
+      startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    mimeType: 'image/jpeg',
+    extensions: ['.jpg', '.jpeg'],
+    matches: (head) => startsWith(head, [0xff, 0xd8, 0xff]),
+  },
+  {
+    mimeType: 'image/gif',
+    extensions: ['.gif'],
+    matches: (head) => ascii(head, 'GIF87a') || ascii(head, 'GIF89a'),
+  },
+  {
+    mimeType: 'image/webp',
+    extensions: ['.webp'],
+    matches: (head) => ascii(head, 'RIFF') && ascii(head, 'WEBP', 8),
+  },
+  {
+    mimeType: 'image/tiff',
+    extensions: ['.tif', '.tiff'],
+    matches: (head) =>
+      startsWith(head, [0x49, 0x49, 0x2a, 0x00]) ||
+      startsWith(head, [0x4d, 0x4d, 0x00, 0x2a]),
+  },
+  {
+    mimeType: 'image/bmp',
+    extensions: ['.bmp'],
+    matches: (head) => ascii(head, 'BM') && startsWith(head, [0, 0, 0, 0], 6),
+  },
+  {
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extensions: ['.docx'],
+    matches: (head) => zipContains(head, 'word/'),
+  },
+  {
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extensions: ['.xlsx'],
+    matches: (head) => zipContains(head, 'xl/'),
+  },
+  {
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    extensions: ['.pptx'],
+    matches: (head) => zipContains(head, 'ppt/'),
+  },
+  {
+    mimeType: 'application/zip',
+    extensions: ['.zip'],
+    matches: (head) => startsWith(head, [0x50, 0x4b, 0x03, 0x04]),
+  },
+  {
+    // Legacy Office formats share one container format
+    mimeType: 'application/x-ole-storage',
+    extensions: ['.doc', '.xls', '.ppt', '.msg'],
+    matches: (head) =>
+      startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+  },
+  {
+    mimeType: 'application/gzip',
+    extensions: ['.gz', '.tgz'],
+    matches: (head) => startsWith(head, [0x1f, 0x8b]),
+  },
+  {
+    mimeType: 'audio/mpeg',
+    extensions: ['.mp3'],
+    matches: (head) => ascii(head, 'ID3') || startsWith(head, [0xff, 0xfb]),
+  },
+  {
+    mimeType: 'audio/wav',
+    extensions: ['.wav'],
+    matches: (head) => ascii(head, 'RIFF') && ascii(head, 'WAVE', 8),
+  },
+  {
+    mimeType: 'image/heic',
+    extensions: ['.heic', '.heif'],
+    matches: (head) =>
+      ftypBrand(head, ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis']),
+  },
+  {
+    mimeType: 'image/avif',
+    extensions: ['.avif'],
+    matches: (head) => ftypBrand(head, ['avif', 'avis']),
+  },
+  {
+    // Generic HEIF brands, used by HEIC and AVIF images alike
+    mimeType: 'image/heif',
+    extensions: ['.heif', '.heic', '.avif'],
+    matches: (head) => ftypBrand(head, ['mif1', 'msf1']),
+  },
+  {
+    mimeType: 'audio/mp4',
+    extensions: ['.m4a', '.m4b'],
+    matches: (head) => ftypBrand(head, ['M4A ', 'M4B ', 'M4P ']),
+  },
+  {
+    mimeType: 'video/quicktime',
+    extensions: ['.mov'],
+    matches: (head) => ftypBrand(head, ['qt  ']),
+  },
+  {
+    mimeType: 'video/mp4',
+    extensions: ['.mp4', '.m4v', '.mov'],
+    matches: (head) => ascii(head, 'ftyp', 4),
+  },
+];
+
+const OOXML_SIGNATURES = SIGNATURES.filter((signature) =>
+  signature.mimeType.startsWith('application/vnd.openxmlformats'),
+);
+
+// Extensions of binary formats, which a text file must not claim to be
+const BINARY_EXTENSIONS = new Set(
+  SIGNATURES.flatMap((signature) => signature.extensions),
+);
+
+// Text has no signature, so its exact type comes from the extension
+const TEXT_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+};
+
+const LEGACY_OFFICE_TYPES: Record<string, string> = {
+  '.doc': 'application/msword',
+  '.xls': 'application/vnd.ms-excel',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.msg': 'application/vnd.ms-outlook',
+};
+
+export interface DetectedFileType {
+  mimeType: string;
+  extensions: string[]; // Extensions consistent with the content
+}
+
+/**
+ * Work out the real type of a file from its first bytes. Files that match no
+ * signature are text when they decode as UTF-8 without control characters,
+ * and application/octet-stream otherwise. Text files may have any extension
+ * not taken by a binary format; those not listed in TEXT_TYPES are text/plain.
+ */
+export function detectFileType(
+  head: Buffer,
+  fileName: string,
+): DetectedFileType {
+  const extension = path.extname(fileName).toLowerCase();
+  const signature = SIGNATURES.find((candidate) => candidate.matches(head));
+
+  if (signature) {
+    if (signature.mimeType === 'application/x-ole-storage') {
+      return {
+        mimeType: LEGACY_OFFICE_TYPES[extension] || signature.mimeType,
+        extensions: signature.extensions,
+      };
+    }
+
+    // The part names of a large Office document may lie beyond the head
+    const ooxml = OOXML_SIGNATURES.find((candidate) =>
+      candidate.extensions.includes(extension),
+    );
+    if (signature.mimeType === 'application/zip' && ooxml) {
+      return { mimeType: ooxml.mimeType, extensions: ooxml.extensions };
+    }
+
+    return { mimeType: signature.mimeType, extensions: signature.extensions };
+  }
+
+  if (isText(head)) {
+    const extensions = Object.keys(TEXT_TYPES);
+    if (extension && !BINARY_EXTENSIONS.has(extension)) {
+      extensions.push(extension);
+    }
+
+    return {
+      mimeType: TEXT_TYPES[extension] || 'text/plain',
+      extensions: [...new Set(extensions)],
+    };
+  }
+
+  return { mimeType: 'application/octet-stream', extensions: [] };
+}
+
+function isText(head: Buffer): boolean {
+  // A multi-byte character may be cut off at the end of the head
+  const text = head.toString('utf8').replace(/�{1,3}$/, '');
+  // eslint-disable-next-line no-control-regex
+  return !text.includes('�') && !/[\x00-\x08\x0e-\x1a\x1c-\x1f]/.test(text);
+}
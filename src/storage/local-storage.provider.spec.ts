@@ -0,0 +1,84 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageProvider } from './local-storage.provider';
+
+describe('LocalStorageProvider', () => {
+  let root: string;
+  let provider: LocalStorageProvider;
+
+  const readAll = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString();
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    provider = new LocalStorageProvider(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should store buffers and streams under their key', async () => {
+    await provider.put('documents/a.txt', Buffer.from('buffer'));
+    await provider.put('documents/b.txt', Readable.from(['str', 'eam']));
+
+    expect(await readAll(await provider.get('documents/a.txt'))).toBe('buffer');
+    expect(await readAll(await provider.get('documents/b.txt'))).toBe('stream');
+    expect(fs.existsSync(path.join(root, 'documents', 'a.txt'))).toBe(true);
+  });
+
+  it('should copy and delete objects', async () => {
+    await provider.put('documents/a.txt', Buffer.from('content'));
+    await provider.copy('documents/a.txt', 'documents/copy.txt');
+    await provider.delete('documents/a.txt');
+
+    expect(await provider.exists('documents/a.txt')).toBe(false);
+    expect(await readAll(await provider.get('documents/copy.txt'))).toBe(
+      'content',
+    );
+  });
+
+  it('should move objects to a new key', async () => {
+    await provider.put('documents/a.txt', Buffer.from('content'));
+    await provider.move('documents/a.txt', 'blobs/ab/abc');
+
+    expect(await provider.exists('documents/a.txt')).toBe(false);
+    expect(await readAll(await provider.get('blobs/ab/abc'))).toBe('content');
+  });
+
+  it('should read a byte range of an object', async () => {
+    await provider.put('documents/a.txt', Buffer.from('0123456789'));
+
+    expect(
+      await readAll(
+        await provider.get('documents/a.txt', { start: 2, end: 5 }),
+      ),
+    ).toBe('2345');
+  });
+
+  it('should ignore deleting a missing object', async () => {
+    await expect(
+      provider.delete('documents/missing.txt'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should throw NotFoundException for missing objects', async () => {
+    await expect(provider.get('documents/missing.txt')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should reject keys outside the storage root', async () => {
+    await expect(
+      provider.put('../escape.txt', Buffer.from('x')),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
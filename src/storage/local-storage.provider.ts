@@ -0,0 +1,83 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  ByteRange,
+  StorageDriver,
+  StorageProvider,
+} from './storage-provider.interface';
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly driver = StorageDriver.LOCAL;
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(filePath, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(filePath));
+    }
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.resolve(key);
+    if (!(await this.exists(key))) {
+      throw new NotFoundException('File not found');
+    }
+
+    return fs.createReadStream(filePath, range);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async copy(sourceKey: string, targetKey: string): Promise<void> {
+    if (!(await this.exists(sourceKey))) {
+      throw new NotFoundException('File not found');
+    }
+
+    const targetPath = this.resolve(targetKey);
+    await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.promises.copyFile(this.resolve(sourceKey), targetPath);
+  }
+
+  async move(sourceKey: string, targetKey: string): Promise<void> {
+    if (!(await this.exists(sourceKey))) {
+      throw new NotFoundException('File not found');
+    }
+
+    const targetPath = this.resolve(targetKey);
+    await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.promises.rename(this.resolve(sourceKey), targetPath);
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    // Keys come from the database, but never let one escape the storage root
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new BadRequestException('Invalid storage key');
+    }
+
+    return filePath;
+  }
+}
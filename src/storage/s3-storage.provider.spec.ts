@@ -0,0 +1,110 @@
+import { NotFoundException } from '@nestjs/common';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { S3StorageProvider } from './s3-storage.provider';
+
+describe('S3StorageProvider', () => {
+  let provider: S3StorageProvider;
+
+  const mockClient = {
+    send: jest.fn(),
+  };
+
+  const notFound = Object.assign(new Error('Not Found'), {
+    name: 'NotFound',
+    $metadata: { httpStatusCode: 404 },
+  });
+
+  beforeEach(() => {
+    provider = new S3StorageProvider(
+      { bucket: 'documents' },
+      mockClient as unknown as S3Client,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should stream objects from the bucket', async () => {
+    const body = Readable.from(['content']);
+    mockClient.send.mockResolvedValue({ Body: body });
+
+    await expect(provider.get('documents/a.pdf')).resolves.toBe(body);
+
+    const command = mockClient.send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(GetObjectCommand);
+    expect(command.input).toEqual({
+      Bucket: 'documents',
+      Key: 'documents/a.pdf',
+    });
+  });
+
+  it('should request byte ranges from the bucket', async () => {
+    mockClient.send.mockResolvedValue({ Body: Readable.from(['2345']) });
+
+    await provider.get('documents/a.pdf', { start: 2, end: 5 });
+
+    expect(mockClient.send.mock.calls[0][0].input.Range).toBe('bytes=2-5');
+  });
+
+  it('should map missing objects to NotFoundException', async () => {
+    mockClient.send.mockRejectedValue(
+      Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey' }),
+    );
+
+    await expect(provider.get('documents/missing.pdf')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should report whether an object exists', async () => {
+    mockClient.send.mockResolvedValueOnce({}).mockRejectedValueOnce(notFound);
+
+    expect(await provider.exists('documents/a.pdf')).toBe(true);
+    expect(await provider.exists('documents/missing.pdf')).toBe(false);
+    expect(mockClient.send.mock.calls[0][0]).toBeInstanceOf(HeadObjectCommand);
+  });
+
+  it('should copy within the bucket', async () => {
+    mockClient.send.mockResolvedValue({});
+
+    await provider.copy('documents/a b.pdf', 'documents/c.pdf');
+
+    const command = mockClient.send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(CopyObjectCommand);
+    expect(command.input).toEqual({
+      Bucket: 'documents',
+      Key: 'documents/c.pdf',
+      CopySource: 'documents/documents%2Fa%20b.pdf',
+    });
+  });
+
+  it('should move objects by copying and deleting', async () => {
+    mockClient.send.mockResolvedValue({});
+
+    await provider.move('documents/a.pdf', 'blobs/ab/abc');
+
+    expect(mockClient.send.mock.calls[0][0]).toBeInstanceOf(CopyObjectCommand);
+    expect(mockClient.send.mock.calls[1][0].input).toEqual({
+      Bucket: 'documents',
+      Key: 'documents/a.pdf',
+    });
+  });
+
+  it('should delete objects', async () => {
+    mockClient.send.mockResolvedValue({});
+
+    await provider.delete('documents/a.pdf');
+
+    expect(mockClient.send.mock.calls[0][0]).toBeInstanceOf(
+      DeleteObjectCommand,
+    );
+  });
+});
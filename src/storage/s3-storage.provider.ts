@@ -0,0 +1,141 @@
+import { NotFoundException } from '@nestjs/common';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client,
+  S3ClientConfig,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { Readable } from 'stream';
+import {
+  ByteRange,
+  StorageDriver,
+  StorageProvider,
+} from './storage-provider.interface';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region?: string;
+  endpoint?: string; // Set for S3-compatible services such as MinIO
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly driver = StorageDriver.S3;
+  private readonly bucket: string;
+
+  constructor(
+    options: S3StorageOptions,
+    private readonly client: S3Client = S3StorageProvider.createClient(options),
+  ) {
+    this.bucket = options.bucket;
+  }
+
+  async put(
+    key: string,
+    body: Buffer | Readable,
+    contentType?: string,
+  ): Promise<void> {
+    // Upload switches to a multipart upload for streams of unknown length
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      },
+    }).done();
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }),
+      );
+      return response.Body as Readable;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        throw new NotFoundException('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 treats deleting a missing key as success
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  async copy(sourceKey: string, targetKey: string): Promise<void> {
+    try {
+      await this.client.send(
+        new CopyObjectCommand({
+          Bucket: this.bucket,
+          Key: targetKey,
+          CopySource: `${this.bucket}/${encodeURIComponent(sourceKey)}`,
+        }),
+      );
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        throw new NotFoundException('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async move(sourceKey: string, targetKey: string): Promise<void> {
+    // S3 has no rename
+    await this.copy(sourceKey, targetKey);
+    await this.delete(sourceKey);
+  }
+
+  private isNotFound(error: any): boolean {
+    return (
+      error?.name === 'NoSuchKey' ||
+      error?.name === 'NotFound' ||
+      error?.$metadata?.httpStatusCode === 404
+    );
+  }
+
+  private static createClient(options: S3StorageOptions): S3Client {
+    const config: S3ClientConfig = {
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+    };
+
+    if (options.accessKeyId && options.secretAccessKey) {
+      config.credentials = {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      };
+    }
+
+    return new S3Client(config);
+  }
+}
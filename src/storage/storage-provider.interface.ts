@@ -0,0 +1,48 @@
+import { Readable } from 'stream';
+
+export const STORAGE_PROVIDER = 'STORAGE_PROVIDER';
+
+export enum StorageDriver {
+  LOCAL = 'local',
+  S3 = 's3',
+}
+
+/**
+ * Inclusive byte offsets, as in an HTTP Range header
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where uploaded files live. Keys are relative, slash-separated paths such as
+ * `documents/<uuid>.pdf` and mean the same thing on every backend, so files
+ * can be copied between backends without touching the database.
+ */
+export interface StorageProvider {
+  readonly driver: StorageDriver;
+
+  put(
+    key: string,
+    body: Buffer | Readable,
+    contentType?: string,
+  ): Promise<void>;
+
+  /**
+   * Open a stream over the object, or over part of it when a range is given.
+   * Throws NotFoundException if it does not exist.
+   */
+  get(key: string, range?: ByteRange): Promise<Readable>;
+
+  exists(key: string): Promise<boolean>;
+
+  /**
+   * Remove the object. Removing a missing object is not an error.
+   */
+  delete(key: string): Promise<void>;
+
+  copy(sourceKey: string, targetKey: string): Promise<void>;
+
+  move(sourceKey: string, targetKey: string): Promise<void>;
+}
@@ -0,0 +1,52 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LocalStorageProvider } from './local-storage.provider';
+import { S3StorageProvider } from './s3-storage.provider';
+import {
+  STORAGE_PROVIDER,
+  StorageDriver,
+  StorageProvider,
+} from './storage-provider.interface';
+
+/**
+ * Build the provider for a driver from STORAGE_* / S3_* settings
+ */
+export function createStorageProvider(
+  configService: ConfigService,
+  driver: string = configService.get('STORAGE_DRIVER') || StorageDriver.LOCAL,
+): StorageProvider {
+  switch (driver) {
+    case StorageDriver.LOCAL:
+      return new LocalStorageProvider(
+        configService.get('STORAGE_LOCAL_ROOT') || 'uploads',
+      );
+    case StorageDriver.S3:
+      if (!configService.get('S3_BUCKET')) {
+        throw new Error('S3_BUCKET must be set to use the s3 storage driver');
+      }
+
+      return new S3StorageProvider({
+        bucket: configService.get('S3_BUCKET'),
+        region: configService.get('S3_REGION'),
+        endpoint: configService.get('S3_ENDPOINT'),
+        forcePathStyle: configService.get('S3_FORCE_PATH_STYLE') === 'true',
+        accessKeyId: configService.get('S3_ACCESS_KEY_ID'),
+        secretAccessKey: configService.get('S3_SECRET_ACCESS_KEY'),
+      });
+    default:
+      throw new Error(`Unknown storage driver '${driver}'`);
+  }
+}
+
+@Module({
+  providers: [
+    {
+      provide: STORAGE_PROVIDER,
+      useFactory: (configService: ConfigService) =>
+        createStorageProvider(configService),
+      inject: [ConfigService],
+    },
+  ],
+  exports: [STORAGE_PROVIDER],
+})
+export class StorageModule {}
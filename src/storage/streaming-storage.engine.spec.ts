@@ -0,0 +1,89 @@
+import {
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageProvider } from './local-storage.provider';
+import { StreamingStorageEngine } from './streaming-storage.engine';
+
+describe('StreamingStorageEngine', () => {
+  let root: string;
+  let engine: StreamingStorageEngine;
+
+  const handleFile = (content: string) =>
+    new Promise<any>((resolve, reject) => {
+      const file = {
+        originalname: 'scan.pdf',
+        mimetype: 'application/pdf',
+        stream: Readable.from([Buffer.from(content)]),
+      } as any;
+
+      engine._handleFile({} as any, file, (error, info) =>
+        error ? reject(error) : resolve(info),
+      );
+    });
+
+  const storedFiles = () => fs.readdirSync(path.join(root, 'documents'));
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+    engine = new StreamingStorageEngine(new LocalStorageProvider(root), {
+      keyPrefix: 'documents',
+      maxFileSize: () => 10,
+      inspect: (req, file, head) => {
+        if (head.toString().startsWith('MZ')) {
+          throw new UnsupportedMediaTypeException();
+        }
+        return 'text/plain';
+      },
+    });
+    fs.mkdirSync(path.join(root, 'documents'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should stream the file into storage with its size and hash', async () => {
+    const info = await handleFile('hello');
+
+    expect(info.filename).toMatch(/\.pdf$/);
+    expect(info.storageKey).toBe(`documents/${info.filename}`);
+    expect(info.size).toBe(5);
+    expect(info.mimetype).toBe('text/plain');
+    expect(info.sha256).toBe(
+      createHash('sha256').update('hello').digest('hex'),
+    );
+    expect(fs.readFileSync(path.join(root, info.storageKey), 'utf8')).toBe(
+      'hello',
+    );
+  });
+
+  it('should reject files over the limit and remove the partial upload', async () => {
+    await expect(handleFile('more than ten bytes')).rejects.toThrow(
+      PayloadTooLargeException,
+    );
+    expect(storedFiles()).toEqual([]);
+  });
+
+  it('should reject files that fail inspection before storing them', async () => {
+    await expect(handleFile('MZ\x90')).rejects.toThrow(
+      UnsupportedMediaTypeException,
+    );
+    expect(storedFiles()).toEqual([]);
+  });
+
+  it('should delete stored files when multer removes them', async () => {
+    const info = await handleFile('hello');
+
+    await new Promise((resolve) =>
+      engine._removeFile({} as any, info, resolve),
+    );
+
+    expect(storedFiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+import { PayloadTooLargeException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { StorageEngine } from 'multer';
+import * as path from 'path';
+import { Transform, TransformCallback } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { StorageProvider } from './storage-provider.interface';
+import { FILE_TYPE_HEAD_BYTES } from './file-types';
+
+export interface StreamingStorageOptions {
+  keyPrefix: string;
+  maxFileSize: (req: Request) => number;
+  /**
+   * Check the first FILE_TYPE_HEAD_BYTES of the file before any of it is
+   * stored. Throw to reject the upload; a returned string replaces `mimetype`.
+   */
+  inspect?: (
+    req: Request,
+    file: Express.Multer.File,
+    head: Buffer,
+  ) => string | void;
+}
+
+/**
+ * Multer engine that streams each uploaded file straight into the storage
+ * provider instead of buffering it, measuring and hashing it on the way.
+ * Files are available to handlers as `filename`, `storageKey`, `size` and `sha256`.
+ */
+export class StreamingStorageEngine implements StorageEngine {
+  constructor(
+    private readonly storage: StorageProvider,
+    private readonly options: StreamingStorageOptions,
+  ) {}
+
+  _handleFile(
+    req: Request,
+    file: Express.Multer.File,
+    callback: (error?: any, info?: Partial<Express.Multer.File>) => void,
+  ): void {
+    const filename = `${uuidv4()}${path.extname(file.originalname)}`;
+    const storageKey = `${this.options.keyPrefix}/${filename}`;
+    const meter = new UploadMeter(this.options.maxFileSize(req));
+    let mimetype = file.mimetype;
+    const inspector = new HeadInspector(FILE_TYPE_HEAD_BYTES, (head) => {
+      if (this.options.inspect) {
+        mimetype = this.options.inspect(req, file, head) || mimetype;
+      }
+    });
+
+    file.stream.on('error', (error) => inspector.destroy(error));
+    inspector.on('error', (error) => meter.destroy(error));
+    // The provider may attach its own listeners only after some async setup,
+    // and the failure is reported through inspector.error/meter.error anyway
+    meter.on('error', () => undefined);
+
+    this.storage
+      .put(storageKey, file.stream.pipe(inspector).pipe(meter), file.mimetype)
+      .then(() =>
+        callback(null, {
+          filename,
+          storageKey,
+          mimetype,
+          size: meter.size,
+          sha256: meter.digest(),
+        } as Partial<Express.Multer.File>),
+      )
+      .catch(async (error) => {
+        // Drop whatever part of the file made it into storage
+        await this.storage.delete(storageKey).catch(() => undefined);
+        callback(inspector.error || meter.error || error);
+      });
+  }
+
+  _removeFile(
+    req: Request,
+    file: Express.Multer.File & { storageKey?: string },
+    callback: (error: Error | null) => void,
+  ): void {
+    if (!file.storageKey) {
+      callback(null);
+      return;
+    }
+
+    this.storage
+      .delete(file.storageKey)
+      .then(() => callback(null))
+      .catch(callback);
+  }
+}
+
+/**
+ * Pass-through stream that counts and hashes bytes, failing once the limit is exceeded
+ */
+export class UploadMeter extends Transform {
+  size = 0;
+  error: Error = null;
+  private readonly hash = createHash('sha256');
+
+  constructor(private readonly maxSize: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, encoding: string, callback: TransformCallback) {
+    this.size += chunk.length;
+
+    if (this.size > this.maxSize) {
+      this.error = new PayloadTooLargeException(
+        `File exceeds the maximum upload size of ${this.maxSize} bytes`,
+      );
+      callback(this.error);
+      return;
+    }
+
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+
+  digest(): string {
+    return this.hash.digest('hex');
+  }
+}
+
+/**
+ * Pass-through stream that holds back the first bytes until they have been
+ * inspected, so a rejected file never reaches storage
+ */
+export class HeadInspector extends Transform {
+  error: Error = null;
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  private inspected = false;
+
+  constructor(
+    private readonly headBytes: number,
+    private readonly inspect: (head: Buffer) => void,
+  ) {
+    super();
+  }
+
+  _transform(chunk: Buffer, encoding: string, callback: TransformCallback) {
+    if (this.inspected) {
+      callback(null, chunk);
+      return;
+    }
+
+    this.chunks.push(chunk);
+    this.buffered += chunk.length;
+
+    if (this.buffered < this.headBytes) {
+      callback();
+      return;
+    }
+
+    this.release(callback);
+  }
+
+  _flush(callback: TransformCallback) {
+    if (this.inspected) {
+      callback();
+      return;
+    }
+
+    this.release(callback);
+  }
+
+  private release(callback: TransformCallback) {
+    this.inspected = true;
+    const buffered = Buffer.concat(this.chunks);
+    this.chunks = [];
+
+    try {
+      this.inspect(buffered.subarray(0, this.headBytes));
+    } catch (error) {
+      this.error = error;
+      callback(error);
+      return;
+    }
+
+    callback(null, buffered);
+  }
+}
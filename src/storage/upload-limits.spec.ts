@@ -0,0 +1,76 @@
+import {
+  BadRequestException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  checkUploadType,
+  getAllowedUploadTypes,
+  getMaxUploadBytes,
+} from './upload-limits';
+import { UserRole } from '../common/constants';
+
+const configService = (values: Record<string, string>) =>
+  ({ get: (key: string) => values[key] }) as ConfigService;
+
+describe('getMaxUploadBytes', () => {
+  it('should default to 50 MB', () => {
+    expect(getMaxUploadBytes(configService({}), [UserRole.EDITOR])).toBe(
+      50 * 1024 * 1024,
+    );
+  });
+
+  it('should apply role limits, taking the largest across roles', () => {
+    const config = configService({
+      UPLOAD_MAX_BYTES: '1000',
+      UPLOAD_MAX_BYTES_EDITOR: '500',
+      UPLOAD_MAX_BYTES_ADMIN: '5000',
+    });
+
+    expect(getMaxUploadBytes(config, [UserRole.EDITOR])).toBe(500);
+    expect(getMaxUploadBytes(config, [UserRole.EDITOR, UserRole.ADMIN])).toBe(
+      5000,
+    );
+    expect(getMaxUploadBytes(config, [UserRole.VIEWER])).toBe(1000);
+  });
+});
+
+describe('getAllowedUploadTypes', () => {
+  it('should combine the lists of all roles', () => {
+    const config = configService({
+      UPLOAD_ALLOWED_TYPES: 'application/pdf',
+      UPLOAD_ALLOWED_TYPES_ADMIN: 'image/*, text/csv',
+    });
+
+    expect(getAllowedUploadTypes(config, [UserRole.EDITOR])).toEqual([
+      'application/pdf',
+    ]);
+    expect(
+      getAllowedUploadTypes(config, [UserRole.EDITOR, UserRole.ADMIN]),
+    ).toEqual(['application/pdf', 'image/*', 'text/csv']);
+  });
+});
+
+describe('checkUploadType', () => {
+  const pdf = Buffer.from('%PDF-1.7\n');
+
+  it('should return the type detected from the content', () => {
+    expect(
+      checkUploadType(configService({}), [UserRole.EDITOR], 'scan.pdf', pdf),
+    ).toBe('application/pdf');
+  });
+
+  it('should reject types outside the allowlist', () => {
+    const config = configService({ UPLOAD_ALLOWED_TYPES: 'image/*' });
+
+    expect(() =>
+      checkUploadType(config, [UserRole.EDITOR], 'scan.pdf', pdf),
+    ).toThrow(UnsupportedMediaTypeException);
+  });
+
+  it('should reject extensions that do not match the content', () => {
+    expect(() =>
+      checkUploadType(configService({}), [UserRole.EDITOR], 'scan.png', pdf),
+    ).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { detectFileType } from './file-types';
+
+// Used when neither UPLOAD_MAX_BYTES nor a per-role limit is configured
+const DEFAULT_MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Largest upload allowed for any of the user's roles. UPLOAD_MAX_BYTES_<ROLE>
+ * (e.g. UPLOAD_MAX_BYTES_ADMIN) overrides UPLOAD_MAX_BYTES for that role.
+ */
+export function getMaxUploadBytes(
+  configService: ConfigService,
+  roles: string[] = [],
+): number {
+  const defaultLimit =
+    Number(configService.get('UPLOAD_MAX_BYTES')) || DEFAULT_MAX_UPLOAD_BYTES;
+
+  const roleLimits = roles.map(
+    (role) =>
+      Number(configService.get(`UPLOAD_MAX_BYTES_${role.toUpperCase()}`)) ||
+      defaultLimit,
+  );
+
+  return roleLimits.length > 0 ? Math.max(...roleLimits) : defaultLimit;
+}
+
+// Used when neither UPLOAD_ALLOWED_TYPES nor a per-role list is configured
+const DEFAULT_ALLOWED_UPLOAD_TYPES = [
+  'application/pdf',
+  'image/*',
+  'text/*',
+  'application/json',
+  'application/xml',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.*',
+];
+
+/**
+ * MIME types any of the user's roles may upload. Entries are exact types,
+ * families such as `image/*`, or `*` for anything. UPLOAD_ALLOWED_TYPES_<ROLE>
+ * overrides the comma-separated UPLOAD_ALLOWED_TYPES for that role.
+ */
+export function getAllowedUploadTypes(
+  configService: ConfigService,
+  roles: string[] = [],
+): string[] {
+  const parse = (value: string) =>
+    value
+      ? value
+          .split(',')
+          .map((type) => type.trim().toLowerCase())
+          .filter(Boolean)
+      : null;
+
+  const defaultTypes =
+    parse(configService.get('UPLOAD_ALLOWED_TYPES')) ||
+    DEFAULT_ALLOWED_UPLOAD_TYPES;
+
+  if (roles.length === 0) {
+    return defaultTypes;
+  }
+
+  const roleTypes = roles.flatMap(
+    (role) =>
+      parse(configService.get(`UPLOAD_ALLOWED_TYPES_${role.toUpperCase()}`)) ||
+      defaultTypes,
+  );
+
+  return [...new Set(roleTypes)];
+}
+
+/**
+ * Detect the real type of an upload from its first bytes and check it against
+ * the allowlist and the file's extension. Returns the detected MIME type.
+ */
+export function checkUploadType(
+  configService: ConfigService,
+  roles: string[],
+  fileName: string,
+  head: Buffer,
+): string {
+  const detected = detectFileType(head, fileName);
+  const allowedTypes = getAllowedUploadTypes(configService, roles);
+
+  const allowed = allowedTypes.some(
+    (pattern) =>
+      pattern === '*' ||
+      pattern === detected.mimeType ||
+      (pattern.endsWith('*') &&
+        detected.mimeType.startsWith(pattern.slice(0, -1))),
+  );
+  if (!allowed) {
+    throw new UnsupportedMediaTypeException(
+      `Files of type ${detected.mimeType} are not allowed`,
+    );
+  }
+
+  const extension = path.extname(fileName).toLowerCase();
+  // Unrecognised binary files have no known extensions to compare against
+  if (
+    extension &&
+    detected.extensions.length > 0 &&
+    !detected.extensions.includes(extension)
+  ) {
+    throw new BadRequestException(
+      `The ${extension} extension does not match the file content (${detected.mimeType})`,
+    );
+  }
+
+  return detected.mimeType;
+}
@@ -0,0 +1,11 @@
+import { IsNumber } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MergeTagDto {
+  @ApiProperty({
+    description: 'ID of the tag that absorbs this one',
+    example: 2,
+  })
+  @IsNumber()
+  targetTagId: number;
+}
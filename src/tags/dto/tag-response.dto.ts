@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TagResponseDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 'invoice' })
+  name: string;
+
+  @ApiProperty({
+    example: 12,
+    required: false,
+    description: 'Number of documents with the tag (tag listing only)',
+  })
+  usageCount?: number;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  updatedAt: Date;
+}
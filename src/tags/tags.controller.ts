@@ -0,0 +1,100 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { RenameTagDto } from './dto/rename-tag.dto';
+import { MergeTagDto } from './dto/merge-tag.dto';
+import { TagResponseDto } from './dto/tag-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../common/constants';
+
+@ApiTags('Tags')
+@Controller('tags')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Get()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List tags with usage counts',
+    description:
+      'Admins see every tag. Other users see the tags of documents they can read, with counts over those documents only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tags ordered by name',
+    type: [TagResponseDto],
+  })
+  async findAll(@Request() req) {
+    return this.tagsService.findAll(req.user.userId, req.user.roles);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Rename a tag (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Tag ID', type: 'number' })
+  @ApiBody({ type: RenameTagDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Tag renamed successfully',
+    type: TagResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Another tag already has this name',
+  })
+  async rename(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() renameTagDto: RenameTagDto,
+  ) {
+    return this.tagsService.rename(id, renameTagDto.name);
+  }
+
+  @Post(':id/merge')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Merge a tag into another tag, moving its documents and deleting it (Admin only)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the tag to merge away',
+    type: 'number',
+  })
+  @ApiBody({ type: MergeTagDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Tags merged; returns the remaining tag',
+    type: TagResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Cannot merge a tag into itself' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  async merge(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() mergeTagDto: MergeTagDto,
+  ) {
+    return this.tagsService.merge(id, mergeTagDto.targetTagId);
+  }
+}
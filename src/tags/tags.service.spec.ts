@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { TagsService } from './tags.service';
+import { Tag } from './entities/tag.entity';
+
+describe('TagsService', () => {
+  let service: TagsService;
+
+  const mockRelationQuery = {
+    of: jest.fn(),
+    add: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockQueryBuilder = {
+    relation: jest.fn(),
+    insert: jest.fn(),
+    into: jest.fn(),
+    values: jest.fn(),
+    orIgnore: jest.fn(),
+    execute: jest.fn(),
+    innerJoin: jest.fn(),
+    leftJoin: jest.fn(),
+    addSelect: jest.fn(),
+    where: jest.fn(),
+    groupBy: jest.fn(),
+    having: jest.fn(),
+    orderBy: jest.fn(),
+    getRawAndEntities: jest.fn(),
+  };
+
+  const mockTagsRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    save: jest.fn(),
+    manager: { transaction: jest.fn() },
+  };
+
+  const documentTagRows = (documentId: number, tags: Tag[]) => ({
+    entities: tags,
+    raw: tags.map((tag) => ({ tag_id: tag.id, document_id: documentId })),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagsService,
+        {
+          provide: getRepositoryToken(Tag),
+          useValue: mockTagsRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TagsService>(TagsService);
+
+    for (const method of [
+      'relation',
+      'insert',
+      'into',
+      'values',
+      'orIgnore',
+      'innerJoin',
+      'leftJoin',
+      'addSelect',
+      'where',
+      'groupBy',
+      'having',
+      'orderBy',
+    ]) {
+      mockQueryBuilder[method].mockReturnValue(mockQueryBuilder);
+    }
+    mockQueryBuilder.relation.mockReturnValue(mockRelationQuery);
+    mockRelationQuery.of.mockReturnValue(mockRelationQuery);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should count only documents a regular user can read', async () => {
+    const invoice = { id: 1, name: 'invoice' } as Tag;
+    mockQueryBuilder.getRawAndEntities.mockResolvedValue({
+      entities: [invoice],
+      raw: [{ tag_id: 1, usage_count: '2' }],
+    });
+
+    const result = await service.findAll(7, ['viewer']);
+
+    expect(mockQueryBuilder.leftJoin).toHaveBeenLastCalledWith(
+      expect.anything(),
+      'document',
+      expect.stringContaining('document.createdById = :currentUserId'),
+      { currentUserId: 7 },
+    );
+    expect(mockQueryBuilder.having).toHaveBeenCalledWith(
+      'COUNT(document.id) > 0',
+    );
+    expect(result).toEqual([{ ...invoice, usageCount: 2 }]);
+  });
+
+  it('should list every tag for admins', async () => {
+    mockQueryBuilder.getRawAndEntities.mockResolvedValue({
+      entities: [],
+      raw: [],
+    });
+
+    await service.findAll(1, ['admin']);
+
+    expect(mockQueryBuilder.leftJoin).toHaveBeenLastCalledWith(
+      expect.anything(),
+      'document',
+      expect.not.stringContaining(':currentUserId'),
+      { currentUserId: 1 },
+    );
+    expect(mockQueryBuilder.having).not.toHaveBeenCalled();
+  });
+
+  it('should normalize names and only add tags the document does not have', async () => {
+    const invoice = { id: 1, name: 'invoice' } as Tag;
+    const urgent = { id: 2, name: 'urgent' } as Tag;
+    mockTagsRepository.find.mockResolvedValue([invoice, urgent]);
+    mockQueryBuilder.getRawAndEntities
+      .mockResolvedValueOnce(documentTagRows(5, [invoice]))
+      .mockResolvedValueOnce(documentTagRows(5, [invoice, urgent]));
+
+    const result = await service.addToDocument(5, [' Invoice', 'URGENT']);
+
+    expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+      { name: 'invoice' },
+      { name: 'urgent' },
+    ]);
+    expect(mockRelationQuery.of).toHaveBeenCalledWith(5);
+    expect(mockRelationQuery.add).toHaveBeenCalledWith([2]);
+    expect(result).toEqual([invoice, urgent]);
+  });
+
+  it('should not remove a tag that is not on the document', async () => {
+    mockQueryBuilder.getRawAndEntities.mockResolvedValue(
+      documentTagRows(5, []),
+    );
+
+    await expect(service.removeFromDocument(5, 1)).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(mockRelationQuery.remove).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to rename a tag to an existing name', async () => {
+    mockTagsRepository.findOne
+      .mockResolvedValueOnce({ id: 1, name: 'invoice' })
+      .mockResolvedValueOnce({ id: 2, name: 'bill' });
+
+    await expect(service.rename(1, 'Bill')).rejects.toThrow(ConflictException);
+    expect(mockTagsRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to merge a tag into itself', async () => {
+    await expect(service.merge(1, 1)).rejects.toThrow(BadRequestException);
+    expect(mockTagsRepository.manager.transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,245 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Tag } from './entities/tag.entity';
+import { Document } from '../documents/entities/document.entity';
+import { DOCUMENT_ACCESS_CONDITION } from '../documents/document-access';
+
+@Injectable()
+export class TagsService {
+  constructor(
+    @InjectRepository(Tag)
+    private tagsRepository: Repository<Tag>,
+  ) {}
+
+  static normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+
+  /**
+   * List tags with the number of non-trashed documents using each. Admins see
+   * every tag; other users only the tags of documents they can read, counted
+   * over those documents.
+   */
+  async findAll(currentUserId: number, userRoles: string[]): Promise<Tag[]> {
+    const isAdmin = userRoles.includes('admin');
+    const queryBuilder = this.tagsRepository
+      .createQueryBuilder('tag')
+      .leftJoin('document_tags', 'documentTag', 'documentTag."tagId" = tag.id')
+      .leftJoin(
+        Document,
+        'document',
+        `document.id = documentTag."documentId" AND document.deletedAt IS NULL${
+          isAdmin ? '' : ` AND ${DOCUMENT_ACCESS_CONDITION}`
+        }`,
+        { currentUserId },
+      )
+      .addSelect('COUNT(document.id)', 'usage_count')
+      .groupBy('tag.id')
+      .orderBy('tag.name', 'ASC');
+
+    if (!isAdmin) {
+      queryBuilder.having('COUNT(document.id) > 0');
+    }
+
+    const { entities, raw } = await queryBuilder.getRawAndEntities();
+
+    const countsById = new Map(
+      raw.map((row) => [Number(row.tag_id), Number(row.usage_count)]),
+    );
+    for (const tag of entities) {
+      tag.usageCount = countsById.get(tag.id) || 0;
+    }
+
+    return entities;
+  }
+
+  async findForDocument(documentId: number): Promise<Tag[]> {
+    const tagsByDocument = await this.findForDocuments([documentId]);
+    return tagsByDocument.get(documentId) || [];
+  }
+
+  /**
+   * Set the tags property on documents loaded without their tags
+   */
+  async attachTags(documents: Document[]): Promise<void> {
+    const tagsByDocument = await this.findForDocuments(
+      documents.map((document) => document.id),
+    );
+
+    for (const document of documents) {
+      document.tags = tagsByDocument.get(document.id) || [];
+    }
+  }
+
+  /**
+   * Add tags to a document by name, creating tags that do not exist yet
+   */
+  async addToDocument(documentId: number, names: string[]): Promise<Tag[]> {
+    const tags = await this.findOrCreate(names);
+    const existingIds = new Set(
+      (await this.findForDocument(documentId)).map((tag) => tag.id),
+    );
+    const newIds = tags
+      .map((tag) => tag.id)
+      .filter((id) => !existingIds.has(id));
+
+    if (newIds.length > 0) {
+      await this.tagsRepository
+        .createQueryBuilder()
+        .relation(Document, 'tags')
+        .of(documentId)
+        .add(newIds);
+    }
+
+    return this.findForDocument(documentId);
+  }
+
+  async removeFromDocument(documentId: number, tagId: number): Promise<void> {
+    const tags = await this.findForDocument(documentId);
+    if (!tags.some((tag) => tag.id === tagId)) {
+      throw new NotFoundException('Tag is not applied to this document');
+    }
+
+    await this.tagsRepository
+      .createQueryBuilder()
+      .relation(Document, 'tags')
+      .of(documentId)
+      .remove(tagId);
+  }
+
+  /**
+   * Remove tags from a document by name, ignoring names it is not tagged with
+   */
+  async removeNamesFromDocument(
+    documentId: number,
+    names: string[],
+  ): Promise<Tag[]> {
+    const normalizedNames = new Set(
+      names.map((name) => TagsService.normalizeName(name)),
+    );
+    const removedIds = (await this.findForDocument(documentId))
+      .filter((tag) => normalizedNames.has(tag.name))
+      .map((tag) => tag.id);
+
+    if (removedIds.length > 0) {
+      await this.tagsRepository
+        .createQueryBuilder()
+        .relation(Document, 'tags')
+        .of(documentId)
+        .remove(removedIds);
+    }
+
+    return this.findForDocument(documentId);
+  }
+
+  async rename(id: number, name: string): Promise<Tag> {
+    const tag = await this.findOne(id);
+    const normalizedName = TagsService.normalizeName(name);
+
+    if (!normalizedName) {
+      throw new BadRequestException('Tag name cannot be empty');
+    }
+
+    const existingTag = await this.tagsRepository.findOne({
+      where: { name: normalizedName },
+    });
+    if (existingTag && existingTag.id !== id) {
+      throw new ConflictException(
+        `Tag '${normalizedName}' already exists; merge the tags instead`,
+      );
+    }
+
+    tag.name = normalizedName;
+    return this.tagsRepository.save(tag);
+  }
+
+  /**
+   * Move every document from one tag to another and delete the source tag
+   */
+  async merge(sourceId: number, targetId: number): Promise<Tag> {
+    if (sourceId === targetId) {
+      throw new BadRequestException('Cannot merge a tag into itself');
+    }
+
+    const source = await this.findOne(sourceId);
+    const target = await this.findOne(targetId);
+
+    await this.tagsRepository.manager.transaction(async (manager) => {
+      await manager.query(
+        `INSERT INTO document_tags ("documentId", "tagId")
+         SELECT "documentId", $1 FROM document_tags WHERE "tagId" = $2
+         ON CONFLICT DO NOTHING`,
+        [target.id, source.id],
+      );
+      // The join rows of the source tag are removed by the cascading foreign key
+      await manager.delete(Tag, source.id);
+    });
+
+    return target;
+  }
+
+  private async findOne(id: number): Promise<Tag> {
+    const tag = await this.tagsRepository.findOne({ where: { id } });
+    if (!tag) {
+      throw new NotFoundException('Tag not found');
+    }
+    return tag;
+  }
+
+  private async findOrCreate(names: string[]): Promise<Tag[]> {
+    const normalizedNames = [
+      ...new Set(names.map((name) => TagsService.normalizeName(name))),
+    ].filter((name) => name.length > 0);
+
+    if (normalizedNames.length === 0) {
+      throw new BadRequestException('At least one non-empty tag is required');
+    }
+
+    // orIgnore keeps concurrent requests creating the same tag from failing
+    await this.tagsRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Tag)
+      .values(normalizedNames.map((name) => ({ name })))
+      .orIgnore()
+      .execute();
+
+    return this.tagsRepository.find({ where: { name: In(normalizedNames) } });
+  }
+
+  private async findForDocuments(
+    documentIds: number[],
+  ): Promise<Map<number, Tag[]>> {
+    const tagsByDocument = new Map<number, Tag[]>();
+    if (documentIds.length === 0) {
+      return tagsByDocument;
+    }
+
+    const { entities, raw } = await this.tagsRepository
+      .createQueryBuilder('tag')
+      .innerJoin('document_tags', 'documentTag', 'documentTag."tagId" = tag.id')
+      .addSelect('documentTag."documentId"', 'document_id')
+      .where('documentTag."documentId" IN (:...documentIds)', { documentIds })
+      .orderBy('tag.name', 'ASC')
+      .getRawAndEntities();
+
+    // A tag shared by several documents appears once in entities but once per document in raw
+    const tagsById = new Map(entities.map((tag) => [tag.id, tag]));
+    for (const row of raw) {
+      const documentId = Number(row.document_id);
+      const tag = tagsById.get(Number(row.tag_id));
+      if (!tagsByDocument.has(documentId)) {
+        tagsByDocument.set(documentId, []);
+      }
+      tagsByDocument.get(documentId).push(tag);
+    }
+
+    return tagsByDocument;
+  }
+}
@@ -0,0 +1,35 @@
+import { IsNumber, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Details for the new document. Ignored when the session replaces the file
+ * of an existing document.
+ */
+export class CompleteUploadSessionDto {
+  @ApiProperty({
+    description: 'Document title (defaults to the file name)',
+    example: 'Site Survey',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  title?: string;
+
+  @ApiProperty({
+    description: 'Document description',
+    example: 'Survey scans from the north site',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Folder to place the new document in',
+    example: 4,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  folderId?: number;
+}
@@ -0,0 +1,55 @@
+import {
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateUploadSessionDto {
+  @ApiProperty({
+    description: 'Original name of the file being uploaded',
+    example: 'site-survey.pdf',
+  })
+  @IsString()
+  @MaxLength(255)
+  fileName: string;
+
+  @ApiProperty({
+    description: 'MIME type of the file',
+    example: 'application/pdf',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  mimeType?: string;
+
+  @ApiProperty({
+    description: 'Total file size in bytes',
+    example: 524288000,
+  })
+  @IsInt()
+  @Min(1)
+  totalSize: number;
+
+  @ApiProperty({
+    description: 'Size of every chunk except the last, in bytes (default 5 MB)',
+    example: 5242880,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(64 * 1024)
+  chunkSize?: number;
+
+  @ApiProperty({
+    description: 'Existing document whose file the upload will replace',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  documentId?: number;
+}
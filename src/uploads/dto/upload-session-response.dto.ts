@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UploadSessionResponseDto {
+  @ApiProperty({ example: '7d0c1a9e-3f52-4a7b-9c1e-0b6d2f4e8a11' })
+  id: string;
+
+  @ApiProperty({ example: 'site-survey.pdf' })
+  fileName: string;
+
+  @ApiProperty({ example: 'application/pdf' })
+  mimeType: string;
+
+  @ApiProperty({ example: 524288000 })
+  totalSize: number;
+
+  @ApiProperty({ example: 5242880 })
+  chunkSize: number;
+
+  @ApiProperty({ example: 100 })
+  totalChunks: number;
+
+  @ApiProperty({ example: [0, 1, 2, 5] })
+  receivedChunks: number[];
+
+  @ApiProperty({
+    description: 'Received byte ranges, end inclusive',
+    example: [
+      { start: 0, end: 15728639 },
+      { start: 26214400, end: 31457279 },
+    ],
+  })
+  receivedRanges: { start: number; end: number }[];
+
+  @ApiProperty({ example: 20971520 })
+  receivedBytes: number;
+
+  @ApiProperty({ example: 'active' })
+  status: string;
+
+  @ApiProperty({ example: null, nullable: true })
+  documentId: number;
+
+  @ApiProperty({ example: '2024-01-02T00:00:00.000Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,76 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Users } from '../../users/entities/user.entity';
+import { Document } from '../../documents/entities/document.entity';
+
+export enum UploadSessionStatus {
+  ACTIVE = 'active',
+  COMPLETING = 'completing',
+  COMPLETED = 'completed',
+}
+
+@Entity('upload_sessions')
+export class UploadSession {
+  // Random IDs so sessions cannot be guessed from each other
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  fileName: string;
+
+  @Column({ nullable: true })
+  mimeType: string;
+
+  @Column({
+    type: 'bigint',
+    transformer: { to: (value) => value, from: Number },
+  })
+  totalSize: number;
+
+  @Column()
+  chunkSize: number;
+
+  @Column('int', { array: true, default: '{}' })
+  receivedChunks: number[];
+
+  @Column({
+    type: 'varchar',
+    length: 16,
+    default: UploadSessionStatus.ACTIVE,
+  })
+  status: UploadSessionStatus;
+
+  // Set when the upload replaces the file of an existing document
+  @ManyToOne(() => Document, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column({ nullable: true })
+  documentId: number;
+
+  @ManyToOne(() => Users, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'createdById' })
+  createdBy: Users;
+
+  @Column()
+  createdById: number;
+
+  // Pushed forward whenever a chunk arrives; abandoned sessions are cleaned up after this
+  @Index()
+  @Column()
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
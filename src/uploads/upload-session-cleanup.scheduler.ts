@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { UploadsService } from './uploads.service';
+
+@Injectable()
+export class UploadSessionCleanupScheduler {
+  private readonly logger = new Logger(UploadSessionCleanupScheduler.name);
+
+  constructor(private uploadsService: UploadsService) {}
+
+  /**
+   * Remove upload sessions that have not received a chunk within
+   * UPLOAD_SESSION_TTL_HOURS, together with their stored chunks
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredSessions(): Promise<number> {
+    try {
+      const purged = await this.uploadsService.purgeExpiredSessions();
+      if (purged > 0) {
+        this.logger.log(`Removed ${purged} expired upload sessions`);
+      }
+      return purged;
+    } catch (error) {
+      this.logger.error(`Failed to remove upload sessions: ${error.message}`);
+      return 0;
+    }
+  }
+}
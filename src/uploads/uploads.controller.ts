@@ -0,0 +1,170 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { UploadsService } from './uploads.service';
+import { CreateUploadSessionDto } from './dto/create-upload-session.dto';
+import { CompleteUploadSessionDto } from './dto/complete-upload-session.dto';
+import { UploadSessionResponseDto } from './dto/upload-session-response.dto';
+import { DocumentResponseDto } from '../documents/dto/document-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../common/constants';
+
+@ApiTags('Uploads')
+@Controller('uploads')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class UploadsController {
+  constructor(private readonly uploadsService: UploadsService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start a resumable chunked upload' })
+  @ApiBody({ type: CreateUploadSessionDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Upload session created',
+    type: UploadSessionResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Cannot edit the target document' })
+  @ApiResponse({
+    status: 413,
+    description: 'File exceeds the upload size limit for your role',
+  })
+  async create(
+    @Body() createUploadSessionDto: CreateUploadSessionDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.uploadsService.create(
+      createUploadSessionDto,
+      userId,
+      userRoles,
+    );
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get an upload session with the chunks received so far',
+  })
+  @ApiParam({ name: 'id', description: 'Upload session ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Upload session',
+    type: UploadSessionResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Upload session not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    const userId = req.user.userId;
+    return this.uploadsService.findOne(id, userId);
+  }
+
+  @Put(':id/chunks/:n')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Upload one chunk as the raw request body' })
+  @ApiConsumes('application/octet-stream')
+  @ApiParam({ name: 'id', description: 'Upload session ID' })
+  @ApiParam({
+    name: 'n',
+    description: 'Zero-based chunk index',
+    type: 'number',
+  })
+  @ApiBody({ schema: { type: 'string', format: 'binary' } })
+  @ApiResponse({
+    status: 200,
+    description: 'Chunk stored',
+    type: UploadSessionResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid chunk index or size' })
+  @ApiResponse({ status: 404, description: 'Upload session not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Upload session is no longer active',
+  })
+  async writeChunk(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('n', ParseIntPipe) index: number,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.uploadsService.writeChunk(id, index, req, userId);
+  }
+
+  @Post(':id/complete')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Assemble the chunks into a new document, or into the document the session targets',
+  })
+  @ApiParam({ name: 'id', description: 'Upload session ID' })
+  @ApiBody({ type: CompleteUploadSessionDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Document created or updated',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'File extension does not match the file content',
+  })
+  @ApiResponse({ status: 404, description: 'Upload session not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Chunks are missing or the session is no longer active',
+  })
+  @ApiResponse({
+    status: 415,
+    description: 'File type is not allowed for your role',
+  })
+  async complete(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() completeUploadSessionDto: CompleteUploadSessionDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    const userRoles = req.user.roles;
+    return this.uploadsService.complete(
+      id,
+      completeUploadSessionDto,
+      userId,
+      userRoles,
+    );
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.EDITOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Abort an upload and discard its chunks' })
+  @ApiParam({ name: 'id', description: 'Upload session ID' })
+  @ApiResponse({ status: 200, description: 'Upload aborted' })
+  @ApiResponse({ status: 404, description: 'Upload session not found' })
+  async abort(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    const userId = req.user.userId;
+    return this.uploadsService.abort(id, userId);
+  }
+}
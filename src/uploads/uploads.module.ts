@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UploadsService } from './uploads.service';
+import { UploadsController } from './uploads.controller';
+import { UploadSessionCleanupScheduler } from './upload-session-cleanup.scheduler';
+import { UploadSession } from './entities/upload-session.entity';
+import { DocumentsModule } from '../documents/documents.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([UploadSession]),
+    DocumentsModule,
+    StorageModule,
+  ],
+  controllers: [UploadsController],
+  providers: [UploadsService, UploadSessionCleanupScheduler],
+})
+export class UploadsModule {}
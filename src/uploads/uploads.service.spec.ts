@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { UploadsService } from './uploads.service';
+import {
+  UploadSession,
+  UploadSessionStatus,
+} from './entities/upload-session.entity';
+import { DocumentsService } from '../documents/documents.service';
+import { STORAGE_PROVIDER } from '../storage/storage-provider.interface';
+import { LocalStorageProvider } from '../storage/local-storage.provider';
+import { UserRole } from '../common/constants';
+
+describe('UploadsService', () => {
+  let service: UploadsService;
+  let root: string;
+  let session: UploadSession;
+
+  const mockQueryBuilder = {
+    update: jest.fn(),
+    set: jest.fn(),
+    where: jest.fn(),
+    setParameter: jest.fn(),
+    execute: jest.fn(),
+  };
+
+  const mockSessionsRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const mockDocumentsService = {
+    assertCanEdit: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const chunkPath = (index: number) =>
+    path.join(root, 'upload-sessions', session.id, String(index));
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-sessions-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadsService,
+        {
+          provide: getRepositoryToken(UploadSession),
+          useValue: mockSessionsRepository,
+        },
+        {
+          provide: STORAGE_PROVIDER,
+          useValue: new LocalStorageProvider(root),
+        },
+        { provide: DocumentsService, useValue: mockDocumentsService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => ({ UPLOAD_MAX_BYTES: '100' })[key],
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UploadsService>(UploadsService);
+
+    session = {
+      id: '7d0c1a9e-3f52-4a7b-9c1e-0b6d2f4e8a11',
+      fileName: 'scan.pdf',
+      mimeType: 'application/pdf',
+      totalSize: 10,
+      chunkSize: 4,
+      receivedChunks: [],
+      status: UploadSessionStatus.ACTIVE,
+      createdById: 1,
+      expiresAt: new Date(Date.now() + 60000),
+    } as UploadSession;
+
+    for (const method of ['update', 'set', 'where', 'setParameter']) {
+      mockQueryBuilder[method].mockReturnThis();
+    }
+    mockSessionsRepository.findOne.mockImplementation(async () => session);
+    mockSessionsRepository.update.mockResolvedValue({ affected: 1 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  it('should refuse sessions larger than the upload limit', async () => {
+    await expect(
+      service.create({ fileName: 'scan.pdf', totalSize: 101 }, 1, [
+        UserRole.EDITOR,
+      ]),
+    ).rejects.toThrow(PayloadTooLargeException);
+    expect(mockSessionsRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should store a chunk and report received ranges', async () => {
+    mockQueryBuilder.execute.mockImplementation(async () => {
+      session.receivedChunks = [0, 2];
+    });
+
+    const result = await service.writeChunk(
+      session.id,
+      2,
+      Readable.from([Buffer.from('ab')]),
+      1,
+    );
+
+    expect(fs.readFileSync(chunkPath(2), 'utf8')).toBe('ab');
+    expect(mockQueryBuilder.setParameter).toHaveBeenCalledWith('index', 2);
+    expect(result.totalChunks).toBe(3);
+    expect(result.receivedRanges).toEqual([
+      { start: 0, end: 3 },
+      { start: 8, end: 9 },
+    ]);
+    expect(result.receivedBytes).toBe(6);
+  });
+
+  it('should reject chunks of the wrong size', async () => {
+    await expect(
+      service.writeChunk(session.id, 0, Readable.from([Buffer.from('abc')]), 1),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.writeChunk(
+        session.id,
+        0,
+        Readable.from([Buffer.from('abcdef')]),
+        1,
+      ),
+    ).rejects.toThrow(BadRequestException);
+
+    expect(fs.existsSync(chunkPath(0))).toBe(false);
+    expect(mockQueryBuilder.execute).not.toHaveBeenCalled();
+  });
+
+  it('should not complete while chunks are missing', async () => {
+    session.receivedChunks = [0, 2];
+
+    await expect(service.complete(session.id, {}, 1, [])).rejects.toThrow(
+      ConflictException,
+    );
+    expect(mockDocumentsService.create).not.toHaveBeenCalled();
+  });
+
+  it('should assemble the chunks into a new document', async () => {
+    const parts = ['%PDF', '-1.4', '\n%'];
+    parts.forEach((part, index) => {
+      fs.mkdirSync(path.dirname(chunkPath(index)), { recursive: true });
+      fs.writeFileSync(chunkPath(index), part);
+    });
+    session.receivedChunks = [0, 1, 2];
+    mockDocumentsService.create.mockResolvedValue({ id: 5 });
+
+    const document = await service.complete(
+      session.id,
+      { title: 'Survey' },
+      1,
+      [UserRole.EDITOR],
+    );
+
+    expect(document).toEqual({ id: 5 });
+    const [dto, userId, file] = mockDocumentsService.create.mock.calls[0];
+    expect(dto.title).toBe('Survey');
+    expect(userId).toBe(1);
+    expect(file.size).toBe(10);
+    expect(file.mimetype).toBe('application/pdf');
+    expect(file.sha256).toBe(
+      createHash('sha256').update('%PDF-1.4\n%').digest('hex'),
+    );
+    expect(fs.readFileSync(path.join(root, file.storageKey), 'utf8')).toBe(
+      '%PDF-1.4\n%',
+    );
+    expect(fs.existsSync(chunkPath(0))).toBe(false);
+    expect(mockSessionsRepository.update).toHaveBeenLastCalledWith(session.id, {
+      status: UploadSessionStatus.COMPLETED,
+      documentId: 5,
+    });
+  });
+
+  it('should refuse to complete when the content does not match the file name', async () => {
+    const parts = ['plai', 'n te', 'xt'];
+    parts.forEach((part, index) => {
+      fs.mkdirSync(path.dirname(chunkPath(index)), { recursive: true });
+      fs.writeFileSync(chunkPath(index), part);
+    });
+    session.receivedChunks = [0, 1, 2];
+
+    await expect(
+      service.complete(session.id, {}, 1, [UserRole.EDITOR]),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockSessionsRepository.update).not.toHaveBeenCalled();
+    expect(mockDocumentsService.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,366 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan, MoreThan } from 'typeorm';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  UploadSession,
+  UploadSessionStatus,
+} from './entities/upload-session.entity';
+import { CreateUploadSessionDto } from './dto/create-upload-session.dto';
+import { CompleteUploadSessionDto } from './dto/complete-upload-session.dto';
+import { DocumentsService } from '../documents/documents.service';
+import { Document } from '../documents/entities/document.entity';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from '../storage/storage-provider.interface';
+import { UploadMeter } from '../storage/streaming-storage.engine';
+import { checkUploadType, getMaxUploadBytes } from '../storage/upload-limits';
+import { FILE_TYPE_HEAD_BYTES } from '../storage/file-types';
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const DEFAULT_SESSION_TTL_HOURS = 24;
+
+@Injectable()
+export class UploadsService {
+  constructor(
+    @InjectRepository(UploadSession)
+    private sessionsRepository: Repository<UploadSession>,
+    @Inject(STORAGE_PROVIDER)
+    private storage: StorageProvider,
+    private documentsService: DocumentsService,
+    private configService: ConfigService,
+  ) {}
+
+  async create(
+    createUploadSessionDto: CreateUploadSessionDto,
+    userId: number,
+    userRoles: string[],
+  ) {
+    const maxBytes = getMaxUploadBytes(this.configService, userRoles);
+    if (createUploadSessionDto.totalSize > maxBytes) {
+      throw new PayloadTooLargeException(
+        `File exceeds the maximum upload size of ${maxBytes} bytes`,
+      );
+    }
+
+    // Fail now rather than after hundreds of megabytes have been sent
+    if (createUploadSessionDto.documentId) {
+      await this.documentsService.assertCanEdit(
+        createUploadSessionDto.documentId,
+        userId,
+        userRoles,
+      );
+    }
+
+    const session = this.sessionsRepository.create({
+      fileName: createUploadSessionDto.fileName,
+      mimeType: createUploadSessionDto.mimeType,
+      totalSize: createUploadSessionDto.totalSize,
+      chunkSize: createUploadSessionDto.chunkSize || DEFAULT_CHUNK_SIZE,
+      receivedChunks: [],
+      documentId: createUploadSessionDto.documentId,
+      createdById: userId,
+      expiresAt: this.nextExpiry(),
+    });
+
+    return this.formatSession(await this.sessionsRepository.save(session));
+  }
+
+  async findOne(id: string, userId: number) {
+    return this.formatSession(await this.findSession(id, userId));
+  }
+
+  /**
+   * Store chunk `index` of the upload. Chunks may arrive in any order and be
+   * sent again; every chunk except the last must be exactly `chunkSize` bytes.
+   */
+  async writeChunk(id: string, index: number, body: Readable, userId: number) {
+    const session = await this.findActiveSession(id, userId);
+    const totalChunks = this.countChunks(session);
+
+    if (index < 0 || index >= totalChunks) {
+      throw new BadRequestException(
+        `Chunk index must be between 0 and ${totalChunks - 1}`,
+      );
+    }
+
+    const expectedSize =
+      index === totalChunks - 1
+        ? session.totalSize - index * session.chunkSize
+        : session.chunkSize;
+    const chunkKey = this.chunkKey(session.id, index);
+    const meter = new UploadMeter(expectedSize);
+    meter.on('error', () => undefined);
+    body.on('error', (error) => meter.destroy(error));
+
+    try {
+      await this.storage.put(chunkKey, body.pipe(meter));
+    } catch (error) {
+      await this.storage.delete(chunkKey).catch(() => undefined);
+      throw meter.error ? this.chunkSizeError(index, expectedSize) : error;
+    }
+
+    if (meter.size !== expectedSize) {
+      await this.storage.delete(chunkKey);
+      throw this.chunkSizeError(index, expectedSize);
+    }
+
+    // Record the chunk atomically so parallel chunk requests do not overwrite each other
+    await this.sessionsRepository
+      .createQueryBuilder()
+      .update(UploadSession)
+      .set({
+        receivedChunks: () =>
+          'ARRAY(SELECT DISTINCT unnest(array_append("receivedChunks", :index)) ORDER BY 1)',
+        expiresAt: this.nextExpiry(),
+      })
+      .where('id = :id', { id: session.id })
+      .setParameter('index', index)
+      .execute();
+
+    return this.findOne(id, userId);
+  }
+
+  /**
+   * Join the chunks into the document's file, creating a new document or
+   * replacing the file of the one the session was started for
+   */
+  async complete(
+    id: string,
+    completeUploadSessionDto: CompleteUploadSessionDto,
+    userId: number,
+    userRoles: string[],
+  ): Promise<Document> {
+    const session = await this.findActiveSession(id, userId);
+    const totalChunks = this.countChunks(session);
+
+    if (session.receivedChunks.length < totalChunks) {
+      throw new ConflictException(
+        `Received ${session.receivedChunks.length} of ${totalChunks} chunks`,
+      );
+    }
+
+    const mimeType = checkUploadType(
+      this.configService,
+      userRoles,
+      session.fileName,
+      await this.readHead(session, totalChunks),
+    );
+
+    // Claim the session so a repeated request cannot assemble it twice
+    const claim = await this.sessionsRepository.update(
+      { id: session.id, status: UploadSessionStatus.ACTIVE },
+      { status: UploadSessionStatus.COMPLETING },
+    );
+    if (!claim.affected) {
+      throw new ConflictException('Upload is already being completed');
+    }
+
+    const filename = `${uuidv4()}${path.extname(session.fileName)}`;
+    const storageKey = `documents/${filename}`;
+    let document: Document;
+
+    try {
+      const meter = new UploadMeter(session.totalSize);
+      await this.storage.put(
+        storageKey,
+        Readable.from(this.readChunks(session, totalChunks)).pipe(meter),
+        mimeType,
+      );
+
+      const file = {
+        filename,
+        originalname: session.fileName,
+        storageKey,
+        size: meter.size,
+        sha256: meter.digest(),
+        mimetype: mimeType,
+      };
+
+      document = session.documentId
+        ? await this.documentsService.update(
+            session.documentId,
+            {},
+            userId,
+            userRoles,
+            file,
+          )
+        : await this.documentsService.create(
+            {
+              title: completeUploadSessionDto.title || session.fileName,
+              description: completeUploadSessionDto.description,
+              folderId: completeUploadSessionDto.folderId,
+            },
+            userId,
+            file,
+            userRoles,
+          );
+    } catch (error) {
+      await this.storage.delete(storageKey).catch(() => undefined);
+      await this.sessionsRepository.update(session.id, {
+        status: UploadSessionStatus.ACTIVE,
+      });
+      throw error;
+    }
+
+    await this.sessionsRepository.update(session.id, {
+      status: UploadSessionStatus.COMPLETED,
+      documentId: document.id,
+    });
+    await this.deleteChunks(session);
+
+    return document;
+  }
+
+  async abort(id: string, userId: number): Promise<void> {
+    const session = await this.findActiveSession(id, userId);
+    await this.deleteChunks(session);
+    await this.sessionsRepository.remove(session);
+  }
+
+  /**
+   * Remove sessions that expired before the cutoff together with any chunks
+   * they still hold
+   */
+  async purgeExpiredSessions(now: Date = new Date()): Promise<number> {
+    const sessions = await this.sessionsRepository.find({
+      where: { expiresAt: LessThan(now) },
+    });
+
+    for (const session of sessions) {
+      if (session.status !== UploadSessionStatus.COMPLETED) {
+        await this.deleteChunks(session);
+      }
+      await this.sessionsRepository.remove(session);
+    }
+
+    return sessions.length;
+  }
+
+  private async findSession(
+    id: string,
+    userId: number,
+  ): Promise<UploadSession> {
+    // Other users' sessions look exactly like missing ones
+    const session = await this.sessionsRepository.findOne({
+      where: { id, createdById: userId, expiresAt: MoreThan(new Date()) },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Upload session not found');
+    }
+
+    return session;
+  }
+
+  private async findActiveSession(
+    id: string,
+    userId: number,
+  ): Promise<UploadSession> {
+    const session = await this.findSession(id, userId);
+
+    if (session.status !== UploadSessionStatus.ACTIVE) {
+      throw new ConflictException(`Upload session is ${session.status}`);
+    }
+
+    return session;
+  }
+
+  private async *readChunks(session: UploadSession, totalChunks: number) {
+    for (let index = 0; index < totalChunks; index++) {
+      yield* await this.storage.get(this.chunkKey(session.id, index));
+    }
+  }
+
+  private async readHead(
+    session: UploadSession,
+    totalChunks: number,
+  ): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    for await (const chunk of this.readChunks(session, totalChunks)) {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= FILE_TYPE_HEAD_BYTES) {
+        break;
+      }
+    }
+
+    return Buffer.concat(chunks).subarray(0, FILE_TYPE_HEAD_BYTES);
+  }
+
+  private async deleteChunks(session: UploadSession): Promise<void> {
+    for (const index of session.receivedChunks) {
+      await this.storage.delete(this.chunkKey(session.id, index));
+    }
+  }
+
+  private countChunks(session: UploadSession): number {
+    return Math.ceil(session.totalSize / session.chunkSize);
+  }
+
+  private chunkKey(sessionId: string, index: number): string {
+    return `upload-sessions/${sessionId}/${index}`;
+  }
+
+  private chunkSizeError(index: number, expectedSize: number) {
+    return new BadRequestException(
+      `Chunk ${index} must be exactly ${expectedSize} bytes`,
+    );
+  }
+
+  private nextExpiry(): Date {
+    const hours =
+      Number(this.configService.get('UPLOAD_SESSION_TTL_HOURS')) ||
+      DEFAULT_SESSION_TTL_HOURS;
+    return new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+
+  private formatSession(session: UploadSession) {
+    const receivedChunks = [...session.receivedChunks].sort((a, b) => a - b);
+
+    // Merge adjacent chunks into byte ranges, end inclusive
+    const receivedRanges: { start: number; end: number }[] = [];
+    let receivedBytes = 0;
+    for (const index of receivedChunks) {
+      const start = index * session.chunkSize;
+      const end = Math.min(start + session.chunkSize, session.totalSize) - 1;
+      receivedBytes += end - start + 1;
+
+      const last = receivedRanges[receivedRanges.length - 1];
+      if (last && last.end + 1 === start) {
+        last.end = end;
+      } else {
+        receivedRanges.push({ start, end });
+      }
+    }
+
+    return {
+      id: session.id,
+      fileName: session.fileName,
+      mimeType: session.mimeType,
+      totalSize: session.totalSize,
+      chunkSize: session.chunkSize,
+      totalChunks: this.countChunks(session),
+      receivedChunks,
+      receivedRanges,
+      receivedBytes,
+      status: session.status,
+      documentId: session.documentId,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IngestionModule } from './ingestion/ingestion.module';
+import { databaseConfig } from './database.config';
+
+/**
+ * Everything the standalone ingestion worker needs: no HTTP server and no
+ * scheduled jobs, which stay with the API
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    // The API keeps the schema in sync; workers only read and write rows
+    TypeOrmModule.forRoot({ ...databaseConfig, synchronize: false }),
+    IngestionModule,
+  ],
+})
+export class WorkerModule {}
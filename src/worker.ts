@@ -0,0 +1,16 @@
+import 'dotenv/config';
+import { NestFactory } from '@nestjs/core';
+import { WorkerModule } from './worker.module';
+import { IngestionWorker } from './ingestion/ingestion.worker';
+
+/**
+ * Run ingestion workers without the API, e.g. `npm run start:worker`. Start
+ * as many as needed; each claims its own jobs from the queue.
+ */
+async function bootstrap() {
+  const app = await NestFactory.createApplicationContext(WorkerModule);
+  // Let in-flight jobs finish on SIGTERM instead of waiting for their leases to expire
+  app.enableShutdownHooks();
+  app.get(IngestionWorker).start();
+}
+bootstrap();